@@ -0,0 +1,52 @@
+import { IpcMainInvokeEvent, BrowserWindow, dialog, clipboard } from 'electron';
+import * as fs from 'fs';
+
+type ExportFormat = 'csv' | 'json' | 'markdown';
+
+interface SaveFileOptions {
+  content: string;
+  defaultFileName: string;
+  format: ExportFormat;
+}
+
+const FILE_FILTERS: Record<ExportFormat, Electron.FileFilter> = {
+  csv: { name: 'CSV', extensions: ['csv'] },
+  json: { name: 'JSON', extensions: ['json'] },
+  markdown: { name: 'Markdown', extensions: ['md'] },
+};
+
+export const exportHandlers = {
+  'export:save-file': async (event: IpcMainInvokeEvent, options: SaveFileOptions): Promise<{ success: boolean; data?: { filePath?: string; canceled: boolean }; error?: string }> => {
+    try {
+      const parentWindow = BrowserWindow.fromWebContents(event.sender);
+      const saveOptions: Electron.SaveDialogOptions = {
+        title: 'Export Sessions',
+        defaultPath: options.defaultFileName,
+        filters: [FILE_FILTERS[options.format]],
+      };
+      const result = parentWindow
+        ? await dialog.showSaveDialog(parentWindow, saveOptions)
+        : await dialog.showSaveDialog(saveOptions);
+
+      if (result.canceled || !result.filePath) {
+        return { success: true, data: { canceled: true } };
+      }
+
+      await fs.promises.writeFile(result.filePath, options.content, 'utf8');
+      return { success: true, data: { filePath: result.filePath, canceled: false } };
+    } catch (error) {
+      console.error('Error saving export file:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'export:copy-to-clipboard': async (event: IpcMainInvokeEvent, text: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      clipboard.writeText(text);
+      return { success: true };
+    } catch (error) {
+      console.error('Error copying export to clipboard:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+};
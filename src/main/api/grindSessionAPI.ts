@@ -0,0 +1,59 @@
+import { IpcMainInvokeEvent } from 'electron';
+import { grindSessionService } from '../../services/db/grindSessions';
+import { GrindSession, GrindSessionFilters, NewGrindSession } from '../../services/db/types';
+
+export const grindSessionHandlers = {
+  'sessions:create': async (event: IpcMainInvokeEvent, userId: string, session: NewGrindSession) => {
+    try {
+      return await grindSessionService.create(userId, session);
+    } catch (error) {
+      console.error('Error creating grind session:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'sessions:get-by-user': async (event: IpcMainInvokeEvent, userId: string, filters?: GrindSessionFilters) => {
+    try {
+      return await grindSessionService.getByUserId(userId, filters);
+    } catch (error) {
+      console.error('Error getting grind sessions:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'sessions:get-by-user-with-loot': async (event: IpcMainInvokeEvent, userId: string, filters?: GrindSessionFilters) => {
+    try {
+      return await grindSessionService.getWithLootByUserId(userId, filters);
+    } catch (error) {
+      console.error('Error getting grind sessions with loot:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'sessions:get-by-id': async (event: IpcMainInvokeEvent, id: number) => {
+    try {
+      return await grindSessionService.getById(id);
+    } catch (error) {
+      console.error('Error getting grind session by ID:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'sessions:update': async (event: IpcMainInvokeEvent, id: number, updates: Partial<Omit<GrindSession, 'id' | 'user_id' | 'created' | 'updated'>>) => {
+    try {
+      return await grindSessionService.update(id, updates);
+    } catch (error) {
+      console.error('Error updating grind session:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'sessions:delete': async (event: IpcMainInvokeEvent, id: number) => {
+    try {
+      return await grindSessionService.delete(id);
+    } catch (error) {
+      console.error('Error deleting grind session:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+};
@@ -0,0 +1,54 @@
+import { IpcMainInvokeEvent, BrowserWindow, dialog } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Guild spreadsheets are small; anything bigger is almost certainly the wrong file
+const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024;
+
+interface OpenedImportFile {
+  canceled: boolean;
+  fileName?: string;
+  format?: 'csv' | 'json';
+  content?: string;
+}
+
+export const importHandlers = {
+  'import:open-file': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; data?: OpenedImportFile; error?: string }> => {
+    try {
+      const parentWindow = BrowserWindow.fromWebContents(event.sender);
+      const openOptions: Electron.OpenDialogOptions = {
+        title: 'Import Sessions',
+        properties: ['openFile'],
+        filters: [{ name: 'Session files', extensions: ['csv', 'json'] }],
+      };
+      const result = parentWindow
+        ? await dialog.showOpenDialog(parentWindow, openOptions)
+        : await dialog.showOpenDialog(openOptions);
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: true, data: { canceled: true } };
+      }
+
+      const filePath = result.filePaths[0];
+      const stats = await fs.promises.stat(filePath);
+      if (stats.size > MAX_IMPORT_FILE_BYTES) {
+        return { success: false, error: 'File is too large to import (10 MB max)' };
+      }
+
+      const content = await fs.promises.readFile(filePath, 'utf8');
+      return {
+        success: true,
+        data: {
+          canceled: false,
+          fileName: path.basename(filePath),
+          format: path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv',
+          // Spreadsheet apps often prepend a byte order mark
+          content: content.replace(/^\uFEFF/, ''),
+        },
+      };
+    } catch (error) {
+      console.error('Error opening import file:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+};
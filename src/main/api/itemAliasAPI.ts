@@ -0,0 +1,56 @@
+import { IpcMainInvokeEvent } from 'electron';
+import { itemAliasesService } from '../../services/db/itemAliases';
+import { ItemAlias, NewItemAlias } from '../../services/db/types';
+
+export const itemAliasHandlers = {
+  'item-aliases:get-all': async (event: IpcMainInvokeEvent) => {
+    try {
+      return await itemAliasesService.getAll();
+    } catch (error) {
+      console.error('Error getting item aliases:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'item-aliases:get-by-bdo-item-id': async (event: IpcMainInvokeEvent, bdoItemId: number) => {
+    try {
+      return await itemAliasesService.getByBdoItemId(bdoItemId);
+    } catch (error) {
+      console.error('Error getting item aliases by BDO item ID:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'item-aliases:create': async (event: IpcMainInvokeEvent, alias: NewItemAlias) => {
+    try {
+      if (!alias?.alias?.trim()) {
+        return { success: false, error: 'Alias cannot be empty' };
+      }
+      return await itemAliasesService.create(alias);
+    } catch (error) {
+      console.error('Error creating item alias:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'item-aliases:update': async (event: IpcMainInvokeEvent, id: number, updates: Partial<Pick<ItemAlias, 'alias' | 'language'>>) => {
+    try {
+      if (updates.alias !== undefined && !updates.alias.trim()) {
+        return { success: false, error: 'Alias cannot be empty' };
+      }
+      return await itemAliasesService.update(id, updates);
+    } catch (error) {
+      console.error('Error updating item alias:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'item-aliases:delete': async (event: IpcMainInvokeEvent, id: number) => {
+    try {
+      return await itemAliasesService.delete(id);
+    } catch (error) {
+      console.error('Error deleting item alias:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+};
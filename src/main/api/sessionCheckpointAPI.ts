@@ -0,0 +1,33 @@
+import { IpcMainInvokeEvent } from 'electron';
+import { sessionCheckpointService, SessionCheckpoint } from '../../services/sessionCheckpoint';
+
+export const sessionCheckpointHandlers = {
+  'session-checkpoint:save': async (event: IpcMainInvokeEvent, checkpoint: SessionCheckpoint): Promise<{ success: boolean; error?: string }> => {
+    try {
+      sessionCheckpointService.save(checkpoint);
+      return { success: true };
+    } catch (error) {
+      console.error('Error saving session checkpoint:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'session-checkpoint:get': async (event: IpcMainInvokeEvent, userId: string): Promise<{ success: boolean; data?: SessionCheckpoint | null; error?: string }> => {
+    try {
+      return { success: true, data: sessionCheckpointService.get(userId) };
+    } catch (error) {
+      console.error('Error getting session checkpoint:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'session-checkpoint:clear': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; error?: string }> => {
+    try {
+      sessionCheckpointService.clear();
+      return { success: true };
+    } catch (error) {
+      console.error('Error clearing session checkpoint:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+};
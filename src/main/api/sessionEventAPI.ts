@@ -1,7 +1,8 @@
 import { IpcMainInvokeEvent, BrowserWindow } from 'electron';
+import { HotkeyAction } from '../../services/db/types';
 
-interface SessionEventData {
-  type: 'session-started' | 'session-stopped' | 'session-updated' | 'item-detected';
+export interface SessionEventData {
+  type: 'session-started' | 'session-stopped' | 'session-updated' | 'item-detected' | 'detection-uncertain' | 'hotkey';
   sessionData?: {
     isActive: boolean;
     startTime?: string;
@@ -10,21 +11,34 @@ interface SessionEventData {
     itemCounts: Record<number, number>;
     items?: any[];
   };
+  // item-detected and detection-uncertain
+  itemId?: number; // item-detected only
+  itemName?: string;
+  quantity?: number;
+  text?: string; // Loot log line the detection came from
+  confidence?: number; // Match score, 0-1
+  // detection-uncertain only
+  reviewId?: string;
+  truncated?: boolean; // Item name was cut off by the loot log
+  candidates?: { itemId: number; itemName: string; score: number }[];
+  image?: string; // Data URL of the cropped line
+  // hotkey only
+  action?: HotkeyAction;
 }
 
+// Send an event to all windows (including overlay)
+export const broadcastSessionEvent = (eventData: SessionEventData) => {
+  BrowserWindow.getAllWindows().forEach(window => {
+    if (!window.isDestroyed()) {
+      window.webContents.send('session-event', eventData);
+    }
+  });
+};
+
 export const sessionEventHandlers = {
   'broadcast-session-event': async (event: IpcMainInvokeEvent, eventData: SessionEventData): Promise<{ success: boolean; error?: string }> => {
     try {
-      // Get all windows
-      const allWindows = BrowserWindow.getAllWindows();
-      
-      // Send event to all windows (including overlay)
-      allWindows.forEach(window => {
-        if (!window.isDestroyed()) {
-          window.webContents.send('session-event', eventData);
-        }
-      });
-
+      broadcastSessionEvent(eventData);
       return { success: true };
     } catch (error) {
       console.error('Error broadcasting session event:', error);
@@ -5,11 +5,18 @@ import { authService } from '../../services/auth';
 import { databaseService } from '../../services/db';
 import { setupLocationHandlers } from '../api/locationAPI';
 import { itemHandlers } from '../api/itemAPI';
+import { itemAliasHandlers } from '../api/itemAliasAPI';
 import { lootTableHandlers } from '../api/lootTableAPI';
 import { userHandlers, userPreferencesHandlers } from '../api/userAPI';
 import { regionSelectorHandlers } from '../features/regionSelector/regionSelectorAPI';
 import { streamingOverlayHandlers, cleanupStreamingOverlay } from '../features/streamingOverlay/streamingOverlayAPI';
+import { lootDetectionHandlers, cleanupLootDetection } from '../features/lootDetection/lootDetectionAPI';
 import { sessionEventHandlers } from '../api/sessionEventAPI';
+import { hotkeyHandlers, cleanupHotkeys } from '../features/hotkeys/hotkeyAPI';
+import { grindSessionHandlers } from '../api/grindSessionAPI';
+import { sessionCheckpointHandlers } from '../api/sessionCheckpointAPI';
+import { exportHandlers } from '../api/exportAPI';
+import { importHandlers } from '../api/importAPI';
 import { StorageService } from '../../services/db/storage';
 
 // Global storage service instance
@@ -22,6 +29,14 @@ const cleanupSession = () => {
   // Close streaming overlay if open
   cleanupStreamingOverlay();
   
+  // Release global shortcuts
+  cleanupHotkeys();
+  
+  // Stop capturing the OCR region
+  cleanupLootDetection().catch(error => {
+    console.error('Error cleaning up loot detection:', error);
+  });
+  
   // Broadcast cleanup event to all windows
   const allWindows = BrowserWindow.getAllWindows();
   allWindows.forEach(window => {
@@ -33,8 +48,8 @@ const cleanupSession = () => {
     }
   });
   
-  // TODO: In future, stop any active session and prevent saving to database
-  // For now, cleanup is handled by the session-cleanup event broadcast above
+  // The active session's checkpoint is intentionally left in place so the
+  // renderer can offer to resume it after the reload or on next launch
   
   console.log('Session cleanup completed');
 }
@@ -137,6 +152,11 @@ Object.entries(itemHandlers).forEach(([event, handler]) => {
   ipcMain.handle(event, handler);
 });
 
+// Setup item alias handlers
+Object.entries(itemAliasHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
 // Setup loot table handlers
 Object.entries(lootTableHandlers).forEach(([event, handler]) => {
   ipcMain.handle(event, handler);
@@ -152,6 +172,26 @@ Object.entries(userPreferencesHandlers).forEach(([event, handler]) => {
   ipcMain.handle(event, handler);
 });
 
+// Setup grind session handlers
+Object.entries(grindSessionHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
+// Setup session checkpoint handlers
+Object.entries(sessionCheckpointHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
+// Setup export handlers
+Object.entries(exportHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
+// Setup import handlers
+Object.entries(importHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
 // Setup region selector handlers
 Object.entries(regionSelectorHandlers).forEach(([event, handler]) => {
   ipcMain.handle(event, handler);
@@ -162,11 +202,21 @@ Object.entries(streamingOverlayHandlers).forEach(([event, handler]) => {
   ipcMain.handle(event, handler);
 });
 
+// Setup loot detection handlers
+Object.entries(lootDetectionHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
 // Setup session event handlers
 Object.entries(sessionEventHandlers).forEach(([event, handler]) => {
   ipcMain.handle(event, handler);
 });
 
+// Setup global hotkey handlers
+Object.entries(hotkeyHandlers).forEach(([event, handler]) => {
+  ipcMain.handle(event, handler);
+});
+
 app.whenReady().then(() => {
   createWindow();
 
@@ -47,6 +47,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getByBdoItemId: (bdoItemId: number) => ipcRenderer.invoke('items:get-by-bdo-item-id', bdoItemId),
   },
 
+  itemAliases: {
+    getAll: () => ipcRenderer.invoke('item-aliases:get-all'),
+    getByBdoItemId: (bdoItemId: number) => ipcRenderer.invoke('item-aliases:get-by-bdo-item-id', bdoItemId),
+    create: (alias: any) => ipcRenderer.invoke('item-aliases:create', alias),
+    update: (id: number, updates: any) => ipcRenderer.invoke('item-aliases:update', id, updates),
+    delete: (id: number) => ipcRenderer.invoke('item-aliases:delete', id),
+  },
+
   lootTables: {
     getAll: () => ipcRenderer.invoke('loot-tables:get-all'),
     getActive: () => ipcRenderer.invoke('loot-tables:get-active'),
@@ -58,6 +66,30 @@ contextBridge.exposeInMainWorld('electronAPI', {
     removeItem: (lootTableId: number, itemId: number) => ipcRenderer.invoke('loot-tables:remove-item', lootTableId, itemId),
   },
 
+  sessions: {
+    create: (userId: string, session: any) => ipcRenderer.invoke('sessions:create', userId, session),
+    getByUser: (userId: string, filters?: any) => ipcRenderer.invoke('sessions:get-by-user', userId, filters),
+    getByUserWithLoot: (userId: string, filters?: any) => ipcRenderer.invoke('sessions:get-by-user-with-loot', userId, filters),
+    getById: (id: number) => ipcRenderer.invoke('sessions:get-by-id', id),
+    update: (id: number, updates: any) => ipcRenderer.invoke('sessions:update', id, updates),
+    delete: (id: number) => ipcRenderer.invoke('sessions:delete', id),
+  },
+
+  sessionCheckpoint: {
+    save: (checkpoint: any) => ipcRenderer.invoke('session-checkpoint:save', checkpoint),
+    get: (userId: string) => ipcRenderer.invoke('session-checkpoint:get', userId),
+    clear: () => ipcRenderer.invoke('session-checkpoint:clear'),
+  },
+
+  export: {
+    saveFile: (options: any) => ipcRenderer.invoke('export:save-file', options),
+    copyToClipboard: (text: string) => ipcRenderer.invoke('export:copy-to-clipboard', text),
+  },
+
+  import: {
+    openFile: () => ipcRenderer.invoke('import:open-file'),
+  },
+
   user: {
     updateRegion: (discordId: string, region: string) => ipcRenderer.invoke('user:update-region', discordId, region),
     update: (id: number, updates: any) => ipcRenderer.invoke('user:update', id, updates),
@@ -71,11 +103,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
   },
 
   selectOCRRegion: () => ipcRenderer.invoke('select-ocr-region'),
+  validateOCRRegion: (region: any) => ipcRenderer.invoke('validate-ocr-region', region),
+
+  lootDetection: {
+    start: (options: any) => ipcRenderer.invoke('loot-detection:start', options),
+    stop: () => ipcRenderer.invoke('loot-detection:stop'),
+    preview: (options: any) => ipcRenderer.invoke('loot-detection:preview', options),
+    learnAlias: (options: any) => ipcRenderer.invoke('loot-detection:learn-alias', options),
+  },
 
   openStreamingOverlay: (data: any) => ipcRenderer.invoke('open-streaming-overlay', data),
   updateStreamingOverlay: (data: any) => ipcRenderer.invoke('update-streaming-overlay', data),
   closeStreamingOverlay: () => ipcRenderer.invoke('close-streaming-overlay'),
   isStreamingOverlayOpen: () => ipcRenderer.invoke('is-streaming-overlay-open'),
+  showRareDropAlert: (alert: any) => ipcRenderer.invoke('show-rare-drop-alert', alert),
+  getStreamingOverlayMode: () => ipcRenderer.invoke('get-streaming-overlay-mode'),
+  setStreamingOverlayMode: (changes: any) => ipcRenderer.invoke('set-streaming-overlay-mode', changes),
+
+  overlayServer: {
+    start: (port?: number) => ipcRenderer.invoke('start-overlay-server', port),
+    stop: () => ipcRenderer.invoke('stop-overlay-server'),
+    getStatus: () => ipcRenderer.invoke('get-overlay-server-status'),
+    onStatus: (callback: (status: any) => void) => {
+      ipcRenderer.on('overlay-server-status', (event, status) => callback(status));
+    },
+  },
+
+  hotkeys: {
+    register: (bindings: any) => ipcRenderer.invoke('hotkeys:register', bindings),
+    check: (accelerator: string) => ipcRenderer.invoke('hotkeys:check', accelerator),
+    setSuspended: (suspended: boolean) => ipcRenderer.invoke('hotkeys:set-suspended', suspended),
+  },
 
   onOverlayData: (callback: (data: any) => void) => {
     ipcRenderer.on('overlay-data', (event, data) => callback(data));
@@ -97,7 +155,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('streaming-overlay-blurred', () => callback());
   },
 
+  onStreamingOverlayModeChanged: (callback: (settings: any) => void) => {
+    ipcRenderer.on('streaming-overlay-mode-changed', (event, settings) => callback(settings));
+  },
+
   onSessionCleanup: (callback: (data: any) => void) => {
     ipcRenderer.on('session-cleanup', (event, data) => callback(data));
+  },
+
+  onSessionEvent: (callback: (data: any) => void) => {
+    ipcRenderer.on('session-event', (event, data) => callback(data));
   }
 });
@@ -0,0 +1,106 @@
+import { IpcMainInvokeEvent, globalShortcut } from 'electron';
+import { broadcastSessionEvent } from '../../api/sessionEventAPI';
+import { HotkeyAction, HotkeyBindings } from '../../../services/db/types';
+
+// Accelerators this module registered, so other global shortcuts are left alone
+let registeredHotkeys: Partial<Record<HotkeyAction, string>> = {};
+let currentBindings: HotkeyBindings = {}; // Re-registered when a suspension ends
+
+const unregisterHotkeys = () => {
+  Object.values(registeredHotkeys).forEach(accelerator => {
+    if (accelerator && globalShortcut.isRegistered(accelerator)) {
+      globalShortcut.unregister(accelerator);
+    }
+  });
+  registeredHotkeys = {};
+};
+
+// Returns the actions whose accelerator is invalid or already taken
+const registerHotkeys = (bindings: HotkeyBindings): HotkeyAction[] => {
+  unregisterHotkeys();
+
+  const failed: HotkeyAction[] = [];
+  (Object.entries(bindings) as [HotkeyAction, string | null | undefined][]).forEach(([action, accelerator]) => {
+    if (!accelerator) return;
+
+    let registered = false;
+    try {
+      registered = !globalShortcut.isRegistered(accelerator) &&
+        globalShortcut.register(accelerator, () => {
+          broadcastSessionEvent({ type: 'hotkey', action });
+        });
+    } catch (error) {
+      console.error(`Invalid shortcut "${accelerator}" for ${action}:`, error);
+    }
+
+    if (registered) {
+      registeredHotkeys[action] = accelerator;
+    } else {
+      failed.push(action);
+    }
+  });
+
+  return failed;
+};
+
+export const hotkeyHandlers = {
+  /**
+   * Replace the registered session hotkeys
+   * Presses are delivered to every window as 'hotkey' session events. Actions
+   * whose accelerator is invalid or already taken are returned as failed.
+   */
+  'hotkeys:register': async (event: IpcMainInvokeEvent, bindings: HotkeyBindings): Promise<{ success: boolean; data?: { failed: HotkeyAction[] }; error?: string }> => {
+    try {
+      currentBindings = bindings;
+      return { success: true, data: { failed: registerHotkeys(bindings) } };
+    } catch (error) {
+      console.error('Error registering hotkeys:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  // Lets the settings record a key combination that is currently bound
+  'hotkeys:set-suspended': async (event: IpcMainInvokeEvent, suspended: boolean): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (suspended) {
+        unregisterHotkeys();
+      } else {
+        registerHotkeys(currentBindings);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error suspending hotkeys:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  /**
+   * Whether an accelerator could be bound: it's one of ours, or nothing else holds it
+   */
+  'hotkeys:check': async (event: IpcMainInvokeEvent, accelerator: string): Promise<{ success: boolean; data?: { available: boolean }; error?: string }> => {
+    try {
+      if (Object.values(registeredHotkeys).includes(accelerator)) {
+        return { success: true, data: { available: true } };
+      }
+      if (globalShortcut.isRegistered(accelerator)) {
+        return { success: true, data: { available: false } };
+      }
+
+      // The OS only tells us another application holds a shortcut when registering fails
+      const available = globalShortcut.register(accelerator, () => {});
+      if (available) {
+        globalShortcut.unregister(accelerator);
+      }
+      return { success: true, data: { available } };
+    } catch (error) {
+      console.error('Error checking hotkey:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+};
+
+// The renderer registers its hotkeys again after a reload
+export const cleanupHotkeys = () => {
+  unregisterHotkeys();
+  currentBindings = {};
+};
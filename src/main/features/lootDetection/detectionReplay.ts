@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OcrEngine } from './ocrEngine';
+import { LootDetection, UncertainDetection } from './lootDetectionPipeline';
+import { createFrameDetector } from './frameDetectors';
+import { Recording } from './frameRecorder';
+
+export interface ReplayDetection extends LootDetection {
+  frame: string;
+  captured_at: number;
+}
+
+export interface ReplayUncertainDetection extends Omit<UncertainDetection, 'image'> {
+  frame: string;
+  captured_at: number;
+}
+
+export interface ReplayResult {
+  detections: ReplayDetection[];
+  uncertain: ReplayUncertainDetection[]; // Lines the live detector would have sent to the review queue
+}
+
+// Expected-counts fixture: total quantity per item name for the whole recording
+export interface ExpectedCounts {
+  counts: Record<string, number>;
+}
+
+export interface CountComparison {
+  itemName: string;
+  expected: number;
+  actual: number;
+}
+
+/**
+ * Feed every recorded frame through a fresh detector for the recording's mode,
+ * in capture order. Returns the item-detected stream the live detector would
+ * have broadcast, plus the lines it would have left for review.
+ * Icon mode uses the templates saved with the recording and never downloads icons.
+ */
+export async function replayRecording(recording: Recording, ocr: OcrEngine): Promise<ReplayResult> {
+  const { header } = recording;
+  const mode = header.mode || 'ocr';
+  if (mode === 'icon' && !recording.iconTemplates) {
+    throw new Error('This icon mode recording has no saved icon templates; record it again to replay it');
+  }
+  const detector = await createFrameDetector(mode, header.items, ocr, header.preprocessing || undefined, {
+    cache: recording.iconTemplates,
+    offline: true,
+  });
+  const frames = [...recording.frames].sort((a, b) => a.captured_at - b.captured_at);
+
+  const replay: ReplayResult = { detections: [], uncertain: [] };
+  for (const frame of frames) {
+    const image = await fs.promises.readFile(path.join(recording.directory, frame.file));
+    const { detections, uncertain } = await detector.processFrame(image, frame.captured_at);
+    detections.forEach(detection => replay.detections.push({ ...detection, frame: frame.file, captured_at: frame.captured_at }));
+    uncertain.forEach(({ image: _image, ...detection }) =>
+      replay.uncertain.push({ ...detection, frame: frame.file, captured_at: frame.captured_at })
+    );
+  }
+  return replay;
+}
+
+export function totalDetectedCounts(detections: LootDetection[]): Record<string, number> {
+  return detections.reduce<Record<string, number>>((counts, detection) => {
+    counts[detection.itemName] = (counts[detection.itemName] || 0) + detection.quantity;
+    return counts;
+  }, {});
+}
+
+/**
+ * Compare replayed totals with the fixture; items missing on either side count as 0
+ */
+export function compareCounts(
+  expected: ExpectedCounts,
+  actual: Record<string, number>
+): { matches: boolean; rows: CountComparison[] } {
+  const itemNames = Array.from(new Set([...Object.keys(expected.counts), ...Object.keys(actual)])).sort();
+  const rows = itemNames.map(itemName => ({
+    itemName,
+    expected: expected.counts[itemName] || 0,
+    actual: actual[itemName] || 0,
+  }));
+
+  return { matches: rows.every(row => row.expected === row.actual), rows };
+}
@@ -0,0 +1,24 @@
+import { OcrEngine, OcrPreprocessing } from './ocrEngine';
+import { DetectionItem, DetectionMode, FrameDetector, LootDetectionPipeline } from './lootDetectionPipeline';
+import { IconDetectionPipeline, IconTemplateOptions, loadIconTemplates } from './iconDetectionPipeline';
+
+/**
+ * Build the detector for a detection mode; shared by live detection and replay
+ */
+export async function createFrameDetector(
+  mode: DetectionMode,
+  items: DetectionItem[],
+  ocr: OcrEngine,
+  preprocessing?: OcrPreprocessing,
+  iconOptions?: IconTemplateOptions
+): Promise<FrameDetector> {
+  if (mode === 'icon') {
+    const templates = await loadIconTemplates(items, iconOptions);
+    if (templates.length === 0) {
+      throw new Error('None of the loot table items have an icon to match');
+    }
+    return new IconDetectionPipeline(templates);
+  }
+
+  return new LootDetectionPipeline(ocr, items, preprocessing);
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DetectionItem, DetectionMode } from './lootDetectionPipeline';
+import { IconTemplateCache } from './iconDetectionPipeline';
+import { OcrPreprocessing } from './ocrEngine';
+
+export const RECORDING_HEADER_FILE = 'recording.json';
+export const RECORDING_FRAMES_FILE = 'frames.jsonl';
+// Icon mode only: the prepared templates the session matched against, by image URL
+export const RECORDING_ICON_TEMPLATES_FILE = 'icon-templates.json';
+
+type RecordedIconTemplates = Record<string, { pixels: number[]; norm: number }>;
+
+export interface RecordingHeader {
+  version: 1;
+  created_at: string;
+  region: { x: number; y: number; width: number; height: number; display?: string };
+  mode?: DetectionMode; // Missing in recordings made before icon mode, which were all 'ocr'
+  preprocessing?: OcrPreprocessing | null;
+  interval_ms: number;
+  items: DetectionItem[]; // Loot table the session was matching against
+}
+
+export interface RecordedFrame {
+  file: string; // Relative to the recording directory
+  captured_at: number; // Epoch ms
+}
+
+export interface Recording {
+  directory: string;
+  header: RecordingHeader;
+  frames: RecordedFrame[];
+  iconTemplates?: IconTemplateCache; // Missing for OCR recordings and ones made before templates were saved
+}
+
+/**
+ * Writes captured OCR-region frames to disk for offline replay
+ * Frames are appended to frames.jsonl as they arrive, so a recording cut
+ * short by a crash is still usable. Icon templates are saved up front so a
+ * replay doesn't depend on the image bucket.
+ */
+export class FrameRecorder {
+  private frameCount = 0;
+
+  private constructor(readonly directory: string) {}
+
+  static async create(
+    parentDirectory: string,
+    header: Omit<RecordingHeader, 'version' | 'created_at'>,
+    iconTemplates?: IconTemplateCache
+  ): Promise<FrameRecorder> {
+    const createdAt = new Date();
+    const directory = path.join(parentDirectory, `recording-${createdAt.toISOString().replace(/[:.]/g, '-')}`);
+    await fs.promises.mkdir(directory, { recursive: true });
+
+    const fullHeader: RecordingHeader = { version: 1, created_at: createdAt.toISOString(), ...header };
+    await fs.promises.writeFile(path.join(directory, RECORDING_HEADER_FILE), JSON.stringify(fullHeader, null, 2));
+
+    if (iconTemplates) {
+      const recorded: RecordedIconTemplates = {};
+      iconTemplates.forEach(({ pixels, norm }, imageUrl) => {
+        recorded[imageUrl] = { pixels: Array.from(pixels), norm };
+      });
+      await fs.promises.writeFile(path.join(directory, RECORDING_ICON_TEMPLATES_FILE), JSON.stringify(recorded));
+    }
+    return new FrameRecorder(directory);
+  }
+
+  async addFrame(frame: Buffer, capturedAt: number): Promise<void> {
+    this.frameCount++;
+    const file = `frame-${String(this.frameCount).padStart(6, '0')}.png`;
+    await fs.promises.writeFile(path.join(this.directory, file), frame);
+
+    const entry: RecordedFrame = { file, captured_at: capturedAt };
+    await fs.promises.appendFile(path.join(this.directory, RECORDING_FRAMES_FILE), JSON.stringify(entry) + '\n');
+  }
+}
+
+export async function loadRecording(directory: string): Promise<Recording> {
+  const header: RecordingHeader = JSON.parse(
+    await fs.promises.readFile(path.join(directory, RECORDING_HEADER_FILE), 'utf8')
+  );
+  if (header.version !== 1) {
+    throw new Error(`Unsupported recording version: ${header.version}`);
+  }
+
+  const framesText = await fs.promises.readFile(path.join(directory, RECORDING_FRAMES_FILE), 'utf8').catch(() => '');
+  const frames: RecordedFrame[] = framesText
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+
+  const iconTemplatesText = await fs.promises
+    .readFile(path.join(directory, RECORDING_ICON_TEMPLATES_FILE), 'utf8')
+    .catch(() => null);
+  const iconTemplates: IconTemplateCache | undefined = iconTemplatesText
+    ? new Map(
+        Object.entries(JSON.parse(iconTemplatesText) as RecordedIconTemplates).map(([imageUrl, { pixels, norm }]) => [
+          imageUrl,
+          { pixels: Float64Array.from(pixels), norm },
+        ])
+      )
+    : undefined;
+
+  return { directory, header, frames, iconTemplates };
+}
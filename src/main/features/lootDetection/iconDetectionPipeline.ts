@@ -0,0 +1,260 @@
+import sharp from 'sharp';
+import { DetectionItem, FrameDetector, FrameResult, LootDetection } from './lootDetectionPipeline';
+import { LootLineTracker } from './lootLineTracker';
+
+// On-screen icon sizes to search for, in captured pixels
+export const ICON_SIZES = [28, 36, 44];
+export const DEFAULT_ICON_THRESHOLD = 0.8;
+
+// Templates and frames are scaled so icons are this many pixels across before
+// matching; plenty to tell icons apart and keeps the search cheap
+const MATCH_SIZE = 16;
+const MIN_WINDOW_VARIANCE = 1e-6; // Flat areas can't correlate with anything
+const COARSE_STEP = 2;
+const COARSE_MARGIN = 0.15; // A pixel off, a real match scores a little below its peak
+
+interface GrayImage {
+  width: number;
+  height: number;
+  data: Float64Array; // 0-1
+}
+
+export interface IconTemplate {
+  item: DetectionItem;
+  pixels: Float64Array; // Zero-mean, MATCH_SIZE x MATCH_SIZE
+  norm: number; // sqrt of the sum of squared pixels
+}
+
+// Prepared icons by image URL, so a detector can be rebuilt without downloading them again
+export type IconTemplateCache = Map<string, Omit<IconTemplate, 'item'>>;
+
+export interface IconTemplateOptions {
+  cache?: IconTemplateCache; // Icons to reuse; downloaded ones are added to it
+  offline?: boolean; // Only use the cache, so a replay never touches the network
+}
+
+export interface IconMatch {
+  itemId: number;
+  itemName: string;
+  confidence: number; // Normalized cross-correlation, 0-1
+  x: number; // Top-left, in captured pixels
+  y: number;
+  size: number;
+}
+
+async function toGray(image: sharp.Sharp): Promise<GrayImage> {
+  const { data, info } = await image.greyscale().raw().toBuffer({ resolveWithObject: true });
+  const pixels = new Float64Array(info.width * info.height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = data[i * info.channels] / 255;
+  }
+  return { width: info.width, height: info.height, data: pixels };
+}
+
+/**
+ * Download item icons from the item-images bucket and prepare them as templates
+ * Items without an icon (or whose icon can't be loaded) are skipped. Icons
+ * already in the cache aren't downloaded again.
+ */
+export async function loadIconTemplates(
+  items: DetectionItem[],
+  { cache = new Map(), offline = false }: IconTemplateOptions = {}
+): Promise<IconTemplate[]> {
+  const templates: IconTemplate[] = [];
+
+  for (const item of items) {
+    if (!item.image_url) continue;
+
+    const cached = cache.get(item.image_url);
+    if (cached) {
+      templates.push({ item, ...cached });
+      continue;
+    }
+    if (offline) continue;
+
+    try {
+      const response = await fetch(item.image_url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const buffer = Buffer.from(await response.arrayBuffer());
+
+      // Icons have transparent corners; the loot UI behind them is dark
+      const gray = await toGray(
+        sharp(buffer).flatten({ background: '#000000' }).resize(MATCH_SIZE, MATCH_SIZE, { fit: 'fill' })
+      );
+      const mean = gray.data.reduce((sum, value) => sum + value, 0) / gray.data.length;
+      const pixels = gray.data.map(value => value - mean);
+      const norm = Math.sqrt(pixels.reduce((sum, value) => sum + value * value, 0));
+      if (norm > 0) {
+        cache.set(item.image_url, { pixels, norm });
+        templates.push({ item, pixels, norm });
+      }
+    } catch (error) {
+      console.error(`Error loading icon for ${item.name}:`, error);
+    }
+  }
+
+  return templates;
+}
+
+// Summed-area tables so each window's mean and variance cost O(1)
+function buildIntegrals(image: GrayImage): { sum: Float64Array; sumSquares: Float64Array } {
+  const stride = image.width + 1;
+  const sum = new Float64Array(stride * (image.height + 1));
+  const sumSquares = new Float64Array(stride * (image.height + 1));
+
+  for (let y = 0; y < image.height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < image.width; x++) {
+      const value = image.data[y * image.width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSquares[(y + 1) * stride + x + 1] = sumSquares[y * stride + x + 1] + rowSquares;
+    }
+  }
+  return { sum, sumSquares };
+}
+
+/**
+ * Find loot icons in a captured frame with zero-mean normalized cross-correlation
+ * Each icon size is searched separately; overlapping hits keep only the best
+ * scoring item, so one on-screen icon is never reported twice.
+ */
+export async function findIconMatches(
+  frame: Buffer,
+  templates: IconTemplate[],
+  threshold = DEFAULT_ICON_THRESHOLD
+): Promise<IconMatch[]> {
+  if (templates.length === 0) return [];
+
+  const metadata = await sharp(frame).metadata();
+  const frameWidth = metadata.width || 0;
+  const frameHeight = metadata.height || 0;
+  const area = MATCH_SIZE * MATCH_SIZE;
+  const hits: IconMatch[] = [];
+
+  for (const size of ICON_SIZES) {
+    const scale = MATCH_SIZE / size;
+    const width = Math.round(frameWidth * scale);
+    const height = Math.round(frameHeight * scale);
+    if (width < MATCH_SIZE || height < MATCH_SIZE) continue;
+
+    const image = await toGray(sharp(frame).resize(width, height, { fit: 'fill' }));
+    const { sum, sumSquares } = buildIntegrals(image);
+    const stride = width + 1;
+
+    // Standard deviation term of the window at (x, y), or 0 for flat/out-of-range windows
+    const windowNorm = (x: number, y: number): number => {
+      if (x < 0 || y < 0 || x + MATCH_SIZE > width || y + MATCH_SIZE > height) return 0;
+      const topLeft = y * stride + x;
+      const bottomRight = (y + MATCH_SIZE) * stride + x + MATCH_SIZE;
+      const windowSum = sum[bottomRight] - sum[topLeft + MATCH_SIZE] - sum[bottomRight - MATCH_SIZE] + sum[topLeft];
+      const windowSquares =
+        sumSquares[bottomRight] - sumSquares[topLeft + MATCH_SIZE] - sumSquares[bottomRight - MATCH_SIZE] + sumSquares[topLeft];
+      const variance = windowSquares - (windowSum * windowSum) / area;
+      return variance < MIN_WINDOW_VARIANCE ? 0 : Math.sqrt(variance);
+    };
+
+    const correlate = (template: IconTemplate, x: number, y: number): number => {
+      const norm = windowNorm(x, y);
+      if (norm === 0) return 0;
+
+      // The template is zero-mean, so the window's mean drops out of the cross term
+      let cross = 0;
+      for (let ty = 0; ty < MATCH_SIZE; ty++) {
+        const rowOffset = (y + ty) * width + x;
+        const templateOffset = ty * MATCH_SIZE;
+        for (let tx = 0; tx < MATCH_SIZE; tx++) {
+          cross += template.pixels[templateOffset + tx] * image.data[rowOffset + tx];
+        }
+      }
+      return cross / (template.norm * norm);
+    };
+
+    // Coarse pass on every other pixel, then refine promising spots to the exact offset
+    for (let y = 0; y + MATCH_SIZE <= height; y += COARSE_STEP) {
+      for (let x = 0; x + MATCH_SIZE <= width; x += COARSE_STEP) {
+        if (windowNorm(x, y) === 0) continue;
+
+        for (const template of templates) {
+          if (correlate(template, x, y) < threshold - COARSE_MARGIN) continue;
+
+          let best = { confidence: -1, x, y };
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              const confidence = correlate(template, x + dx, y + dy);
+              if (confidence > best.confidence) {
+                best = { confidence, x: x + dx, y: y + dy };
+              }
+            }
+          }
+
+          if (best.confidence >= threshold) {
+            hits.push({
+              itemId: template.item.id,
+              itemName: template.item.name,
+              confidence: Math.round(best.confidence * 1000) / 1000,
+              x: Math.round(best.x / scale),
+              y: Math.round(best.y / scale),
+              size,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Non-maximum suppression: best hits first, drop anything overlapping a kept hit
+  hits.sort((a, b) => b.confidence - a.confidence);
+  const kept: IconMatch[] = [];
+  hits.forEach(hit => {
+    const overlaps = kept.some(other => {
+      const minDistance = Math.min(hit.size, other.size) / 2;
+      return Math.abs(hit.x - other.x) < minDistance && Math.abs(hit.y - other.y) < minDistance;
+    });
+    if (!overlaps) kept.push(hit);
+  });
+  return kept;
+}
+
+/**
+ * Turns captured frames into item detections by matching item icons
+ * Icons carry no stack count, so each newly visible icon counts as one drop.
+ * Icon matches have a single candidate, so nothing is left for review.
+ */
+export class IconDetectionPipeline implements FrameDetector {
+  // Icons are tracked like log lines, but only the same item counts as the same icon
+  private tracker = new LootLineTracker({ isSameKey: (a, b) => a === b });
+
+  constructor(private templates: IconTemplate[], private threshold = DEFAULT_ICON_THRESHOLD) {}
+
+  async processFrame(frame: Buffer, capturedAt: number): Promise<FrameResult> {
+    const matches = await findIconMatches(frame, this.templates, this.threshold);
+    const matchesByObservation = new Map(
+      matches.map(match => [{ key: String(match.itemId), x: match.x, y: match.y, size: match.size }, match])
+    );
+    const newIcons = this.tracker.update(Array.from(matchesByObservation.keys()), capturedAt);
+
+    const detections = new Map<number, LootDetection>();
+    newIcons.forEach(icon => {
+      const match = matchesByObservation.get(icon)!;
+      const existing = detections.get(match.itemId);
+      if (existing) {
+        existing.quantity++;
+        existing.confidence = Math.max(existing.confidence, match.confidence);
+      } else {
+        detections.set(match.itemId, {
+          itemId: match.itemId,
+          itemName: match.itemName,
+          quantity: 1,
+          text: `[icon] ${match.itemName}`,
+          confidence: match.confidence,
+        });
+      }
+    });
+    return { detections: Array.from(detections.values()), uncertain: [] };
+  }
+}
@@ -0,0 +1,147 @@
+import { parseLootLogLine } from './lootLogParser';
+import { editSimilarity, normalizeText, tokenize } from './textSimilarity';
+
+export interface MatchableItem {
+  id: number;
+  name: string;
+  aliases?: string[]; // Other names the item is read as; scored like the name
+}
+
+export interface MatchCandidate {
+  itemId: number;
+  itemName: string;
+  score: number; // 0-1
+}
+
+export interface ItemMatchResult {
+  text: string;
+  itemName: string; // Name as parsed from the line
+  quantity: number;
+  truncated: boolean; // Name was cut off by the loot log
+  match: MatchCandidate | null; // Only set when the best candidate is confident and unambiguous
+  confidence: number; // Best candidate's score, 0 when there are none
+  candidates: MatchCandidate[]; // Best first
+}
+
+export interface MatchOptions {
+  threshold?: number;
+  ambiguityMargin?: number;
+  maxCandidates?: number;
+}
+
+export const DEFAULT_MATCH_THRESHOLD = 0.75;
+// A runner-up this close to the best score makes the match ambiguous
+const DEFAULT_AMBIGUITY_MARGIN = 0.05;
+const DEFAULT_MAX_CANDIDATES = 5;
+const MIN_CANDIDATE_SCORE = 0.3;
+const TOKEN_MATCH_SIMILARITY = 0.75; // Per-word similarity that still counts as overlap
+const MIN_TRUNCATED_LENGTH = 4;
+
+const EDIT_WEIGHT = 0.6;
+const TOKEN_WEIGHT = 0.4;
+
+/**
+ * Share of words found in both names (Dice coefficient), allowing misread letters within a word
+ */
+function tokenOverlap(textTokens: string[], nameTokens: string[]): number {
+  if (textTokens.length === 0 || nameTokens.length === 0) return 0;
+
+  const unused = [...textTokens];
+  let matched = 0;
+  nameTokens.forEach(nameToken => {
+    let bestIndex = -1;
+    let bestSimilarity = TOKEN_MATCH_SIMILARITY;
+    unused.forEach((token, index) => {
+      const similarity = editSimilarity(token, nameToken);
+      if (similarity >= bestSimilarity) {
+        bestIndex = index;
+        bestSimilarity = similarity;
+      }
+    });
+    if (bestIndex !== -1) {
+      unused.splice(bestIndex, 1);
+      matched++;
+    }
+  });
+
+  return (2 * matched) / (textTokens.length + nameTokens.length);
+}
+
+/**
+ * How well recognized text matches an item name, 0-1
+ * Combines whole-name edit distance with word overlap; names cut off by the
+ * loot log are compared against the same-length start of the item name.
+ */
+export function scoreItemName(text: string, name: string, truncated = false): number {
+  const compactText = normalizeText(text).replace(/ /g, '');
+  const compactName = normalizeText(name).replace(/ /g, '');
+  if (!compactText || !compactName) return 0;
+
+  const combined =
+    EDIT_WEIGHT * editSimilarity(compactText, compactName) +
+    TOKEN_WEIGHT * tokenOverlap(tokenize(text), tokenize(name));
+
+  if (!truncated || compactText.length < MIN_TRUNCATED_LENGTH || compactText.length >= compactName.length) {
+    return combined;
+  }
+
+  // Shorter fragments say less about which item it is
+  const prefixSimilarity = editSimilarity(compactText, compactName.slice(0, compactText.length));
+  const coverage = compactText.length / compactName.length;
+  return Math.max(combined, prefixSimilarity * (0.7 + 0.3 * coverage));
+}
+
+/**
+ * Best score against the item's name or any of its aliases
+ */
+function scoreItem(text: string, item: MatchableItem, truncated: boolean): number {
+  return [item.name, ...(item.aliases || [])].reduce(
+    (best, name) => Math.max(best, scoreItemName(text, name, truncated)),
+    0
+  );
+}
+
+/**
+ * Map a recognized loot log line to a loot table item
+ * Never guesses: when the best score is below the threshold or a runner-up is
+ * nearly as good, match is null and the caller gets the candidates instead.
+ * Returns null when the line isn't an "obtained" message.
+ */
+export function matchLootText(
+  text: string,
+  items: MatchableItem[],
+  options: MatchOptions = {}
+): ItemMatchResult | null {
+  const entry = parseLootLogLine(text);
+  if (!entry) return null;
+
+  const threshold = options.threshold ?? DEFAULT_MATCH_THRESHOLD;
+  const ambiguityMargin = options.ambiguityMargin ?? DEFAULT_AMBIGUITY_MARGIN;
+  const maxCandidates = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+
+  const scored = items
+    .map(item => ({
+      itemId: item.id,
+      itemName: item.name,
+      score: Math.round(scoreItem(entry.itemName, item, entry.truncated) * 1000) / 1000,
+    }))
+    .filter(candidate => candidate.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const best = scored[0];
+  const runnerUp = scored[1];
+  const isConfident =
+    !!best &&
+    best.score >= threshold &&
+    (!runnerUp || best.score - runnerUp.score >= ambiguityMargin);
+
+  return {
+    text: entry.text,
+    itemName: entry.itemName,
+    quantity: entry.quantity,
+    truncated: entry.truncated,
+    match: isConfident ? best : null,
+    confidence: best?.score ?? 0,
+    candidates: scored.slice(0, maxCandidates),
+  };
+}
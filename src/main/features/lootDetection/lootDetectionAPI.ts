@@ -0,0 +1,265 @@
+import { IpcMainInvokeEvent } from 'electron';
+import { broadcastSessionEvent } from '../../api/sessionEventAPI';
+import { learnedAliasService } from '../../../services/learnedAliases';
+import { itemAliasesService } from '../../../services/db/itemAliases';
+import { OcrEngine, OcrPreprocessing, preprocessFrame } from './ocrEngine';
+import { DetectionItem, DetectionMode, FrameDetector } from './lootDetectionPipeline';
+import { createFrameDetector } from './frameDetectors';
+import { IconTemplateCache } from './iconDetectionPipeline';
+import { matchLootText, ItemMatchResult } from './itemMatcher';
+import { captureRegion, OCRRegion } from './regionCapture';
+import { FrameRecorder } from './frameRecorder';
+
+interface LootDetectionOptions {
+  region: OCRRegion;
+  items: DetectionItem[]; // Current location's loot table
+  mode?: DetectionMode; // Defaults to 'ocr'
+  preprocessing?: OcrPreprocessing | null; // From the calibration wizard
+  intervalMs?: number;
+  sessionKey?: string; // Same for every start within one session, so icons are reused
+}
+
+interface LearnAliasOptions {
+  bdoItemId: number; // Same item in every region
+  alias: string; // Item name as the detector read it
+}
+
+interface LootDetectionPreviewOptions {
+  region: OCRRegion;
+  preprocessing?: OcrPreprocessing | null;
+  items?: DetectionItem[]; // To show what recognized lines would match
+  recognize?: boolean; // Also run a test recognition pass
+}
+
+interface LootDetectionPreview {
+  image: string; // Data URL of the raw capture
+  processedImage: string; // Data URL of what the text recognizer sees
+  lines?: {
+    text: string;
+    confidence: number;
+    match: ItemMatchResult | null; // null when the line isn't an "obtained" message
+  }[];
+}
+
+const toDataUrl = (png: Buffer) => `data:image/png;base64,${png.toString('base64')}`;
+
+const DEFAULT_CAPTURE_INTERVAL_MS = 1000;
+const MIN_CAPTURE_INTERVAL_MS = 250;
+
+// Set to a directory to save every captured frame for offline replay
+// (npm run replay-detection)
+const RECORDING_DIRECTORY = process.env.LOOT_DETECTION_RECORDING_DIR;
+
+const ocrEngine = new OcrEngine();
+
+// Only one detection loop runs at a time; each start gets a new run id so a
+// frame that finishes after stop/restart is discarded
+let currentRun: { id: number; timer: NodeJS.Timeout | null; items: DetectionItem[] } | null = null;
+let nextRunId = 1;
+let nextReviewId = 1;
+
+// Icon templates for the session being detected; pausing and resuming reuses them
+let iconCache: { sessionKey: string; templates: IconTemplateCache } | null = null;
+
+// Matching also tries the admin-managed aliases (other client languages,
+// abbreviations) and the names confirmed in the review queue
+const withAliases = async (items: DetectionItem[]): Promise<DetectionItem[]> => {
+  const learned = learnedAliasService.getAll();
+  const managed = new Map<number, string[]>();
+  const result = await itemAliasesService.getAll();
+  if (result.success) {
+    (result.data || []).forEach(alias => {
+      managed.set(alias.bdo_item_id, [...(managed.get(alias.bdo_item_id) || []), alias.alias]);
+    });
+  } else {
+    console.error('Error loading item aliases for loot detection:', result.error);
+  }
+
+  return items.map(item => ({
+    ...item,
+    aliases: [
+      ...(item.aliases || []),
+      ...(item.bdo_item_id !== undefined ? managed.get(item.bdo_item_id) || [] : []),
+      ...(item.bdo_item_id !== undefined ? learned[item.bdo_item_id] || [] : []),
+    ],
+  }));
+};
+
+const stopDetection = () => {
+  if (currentRun?.timer) {
+    clearTimeout(currentRun.timer);
+  }
+  currentRun = null;
+};
+
+const startDetection = async (options: LootDetectionOptions) => {
+  stopDetection();
+
+  const run = { id: nextRunId++, timer: null as NodeJS.Timeout | null, items: [] as DetectionItem[] };
+  const mode = options.mode || 'ocr';
+  const intervalMs = Math.max(options.intervalMs ?? DEFAULT_CAPTURE_INTERVAL_MS, MIN_CAPTURE_INTERVAL_MS);
+  currentRun = run;
+
+  // Icon mode downloads its templates first
+  let detector: FrameDetector;
+  let iconTemplates: IconTemplateCache;
+  try {
+    run.items = await withAliases(options.items);
+    if (!options.sessionKey || iconCache?.sessionKey !== options.sessionKey) {
+      iconCache = options.sessionKey ? { sessionKey: options.sessionKey, templates: new Map() } : null;
+    }
+    iconTemplates = iconCache?.templates || new Map();
+    detector = await createFrameDetector(mode, run.items, ocrEngine, options.preprocessing || undefined, {
+      cache: iconTemplates,
+    });
+  } catch (error) {
+    if (currentRun?.id === run.id) currentRun = null;
+    throw error;
+  }
+  if (currentRun?.id !== run.id) return;
+
+  const recorder: Promise<FrameRecorder | null> = RECORDING_DIRECTORY
+    ? FrameRecorder.create(RECORDING_DIRECTORY, {
+        region: options.region,
+        mode,
+        preprocessing: options.preprocessing,
+        interval_ms: intervalMs,
+        items: run.items,
+      }, mode === 'icon' ? iconTemplates : undefined).catch(error => {
+        console.error('Error starting frame recording:', error);
+        return null;
+      })
+    : Promise.resolve(null);
+
+  // Schedule the next capture after the previous one finishes so slow
+  // recognition never stacks up frames
+  const tick = async () => {
+    try {
+      const capturedAt = Date.now();
+      const frame = await captureRegion(options.region);
+      await (await recorder)?.addFrame(frame, capturedAt).catch(error => {
+        console.error('Error recording frame:', error);
+      });
+      const { detections, uncertain } = await detector.processFrame(frame, capturedAt);
+      if (currentRun?.id !== run.id) return;
+
+      detections.forEach(detection => {
+        broadcastSessionEvent({
+          type: 'item-detected',
+          itemId: detection.itemId,
+          itemName: detection.itemName,
+          quantity: detection.quantity,
+          text: detection.text,
+          confidence: detection.confidence,
+        });
+      });
+      uncertain.forEach(detection => {
+        broadcastSessionEvent({
+          type: 'detection-uncertain',
+          reviewId: `review-${nextReviewId++}`,
+          itemName: detection.itemName,
+          quantity: detection.quantity,
+          text: detection.text,
+          truncated: detection.truncated,
+          confidence: detection.confidence,
+          candidates: detection.candidates,
+          image: toDataUrl(detection.image),
+        });
+      });
+    } catch (error) {
+      console.error('Error detecting loot:', error);
+    }
+
+    if (currentRun?.id === run.id) {
+      run.timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  run.timer = setTimeout(tick, 0);
+};
+
+export const lootDetectionHandlers = {
+  'loot-detection:start': async (event: IpcMainInvokeEvent, options: LootDetectionOptions): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (!options?.region || options.region.width <= 0 || options.region.height <= 0) {
+        return { success: false, error: 'No OCR region selected' };
+      }
+
+      await startDetection(options);
+      return { success: true };
+    } catch (error) {
+      console.error('Error starting loot detection:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'loot-detection:stop': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; error?: string }> => {
+    try {
+      stopDetection();
+      return { success: true };
+    } catch (error) {
+      console.error('Error stopping loot detection:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  // A review queue correction: match this reading to the item from now on,
+  // including in the detection loop that's already running
+  'loot-detection:learn-alias': async (event: IpcMainInvokeEvent, options: LearnAliasOptions): Promise<{ success: boolean; error?: string }> => {
+    try {
+      if (!options?.alias?.trim()) {
+        return { success: false, error: 'No alias given' };
+      }
+
+      if (learnedAliasService.add(options.bdoItemId, options.alias)) {
+        currentRun?.items
+          .filter(runItem => runItem.bdo_item_id === options.bdoItemId)
+          .forEach(runItem => {
+            runItem.aliases = [...(runItem.aliases || []), options.alias.trim()];
+          });
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error learning item alias:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  // Calibration: capture the region once and optionally recognize it, without
+  // touching a running detection loop
+  'loot-detection:preview': async (event: IpcMainInvokeEvent, options: LootDetectionPreviewOptions): Promise<{ success: boolean; data?: LootDetectionPreview; error?: string }> => {
+    try {
+      if (!options?.region || options.region.width <= 0 || options.region.height <= 0) {
+        return { success: false, error: 'No OCR region selected' };
+      }
+
+      const preprocessing = options.preprocessing || undefined;
+      const frame = await captureRegion(options.region);
+      const preview: LootDetectionPreview = {
+        image: toDataUrl(frame),
+        processedImage: toDataUrl(await preprocessFrame(frame, preprocessing)),
+      };
+
+      if (options.recognize) {
+        const lines = await ocrEngine.recognizeLines(frame, preprocessing);
+        const items = await withAliases(options.items || []);
+        preview.lines = lines.map(line => ({
+          text: line.text,
+          confidence: line.confidence,
+          match: matchLootText(line.text, items),
+        }));
+      }
+
+      return { success: true, data: preview };
+    } catch (error) {
+      console.error('Error previewing loot detection:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+};
+
+// Clean up function
+export const cleanupLootDetection = async () => {
+  stopDetection();
+  await ocrEngine.terminate();
+};
@@ -0,0 +1,108 @@
+import sharp from 'sharp';
+import { DEFAULT_OCR_PREPROCESSING, OcrEngine, OcrPreprocessing, RecognizedLine } from './ocrEngine';
+import { matchLootText, MatchableItem, MatchCandidate } from './itemMatcher';
+import { LootLineTracker } from './lootLineTracker';
+
+export type DetectionMode = 'ocr' | 'icon';
+
+export interface DetectionItem extends MatchableItem {
+  bdo_item_id?: number; // Looks up the item's aliases
+  image_url?: string | null; // Used as the template in icon mode
+}
+
+export interface LootDetection {
+  itemId: number;
+  itemName: string;
+  quantity: number;
+  text: string;
+  confidence: number; // Match score, 0-1
+}
+
+// A loot line that couldn't be matched with confidence, left for the user to review
+export interface UncertainDetection {
+  text: string;
+  itemName: string; // Name as parsed from the line
+  quantity: number;
+  truncated: boolean; // Name was cut off by the loot log
+  confidence: number; // Best candidate's score, 0-1
+  candidates: MatchCandidate[]; // Best first
+  image: Buffer; // PNG of the line, cropped from the frame
+}
+
+export interface FrameResult {
+  detections: LootDetection[];
+  uncertain: UncertainDetection[];
+}
+
+// One implementation per detection mode
+export interface FrameDetector {
+  processFrame(frame: Buffer, capturedAt: number): Promise<FrameResult>;
+}
+
+const LINE_CROP_PADDING = 2; // Captured pixels kept above and below a line
+
+/**
+ * Cut a recognized line out of the frame, full width so nothing OCR trimmed is lost
+ */
+async function cropLine(frame: Buffer, line: RecognizedLine, scale: number): Promise<Buffer> {
+  const metadata = await sharp(frame).metadata();
+  const width = metadata.width || 1;
+  const height = metadata.height || 1;
+  const top = Math.min(height - 1, Math.max(0, Math.floor(line.bbox.y0 / scale) - LINE_CROP_PADDING));
+  const bottom = Math.min(height, Math.ceil(line.bbox.y1 / scale) + LINE_CROP_PADDING);
+  return sharp(frame)
+    .extract({ left: 0, top, width, height: Math.max(1, bottom - top) })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Turns captured loot log frames into item detections by reading the text
+ * Kept free of Electron so frames can also be fed in from disk.
+ */
+export class LootDetectionPipeline implements FrameDetector {
+  private tracker = new LootLineTracker();
+
+  constructor(private ocr: OcrEngine, private items: DetectionItem[], private preprocessing?: OcrPreprocessing) {}
+
+  async processFrame(frame: Buffer, capturedAt: number): Promise<FrameResult> {
+    const lines = await this.ocr.recognizeLines(frame, this.preprocessing);
+
+    // Lines only move vertically as the log scrolls; OCR trims their left edge
+    // inconsistently, so x isn't used
+    const linesByObservation = new Map(
+      lines.map(line => [{ key: line.text, x: 0, y: line.bbox.y0, size: line.bbox.y1 - line.bbox.y0 }, line])
+    );
+    const newLines = this.tracker
+      .update(Array.from(linesByObservation.keys()), capturedAt)
+      .map(observation => linesByObservation.get(observation)!);
+
+    const result: FrameResult = { detections: [], uncertain: [] };
+    for (const line of newLines) {
+      const match = matchLootText(line.text, this.items);
+      if (!match) continue;
+
+      if (!match.match) {
+        result.uncertain.push({
+          text: line.text,
+          itemName: match.itemName,
+          quantity: match.quantity,
+          truncated: match.truncated,
+          confidence: match.confidence,
+          candidates: match.candidates,
+          image: await cropLine(frame, line, (this.preprocessing || DEFAULT_OCR_PREPROCESSING).scale),
+        });
+        continue;
+      }
+
+      result.detections.push({
+        itemId: match.match.itemId,
+        itemName: match.match.itemName,
+        quantity: match.quantity,
+        text: line.text,
+        confidence: match.match.score,
+      });
+    }
+    return result;
+  }
+}
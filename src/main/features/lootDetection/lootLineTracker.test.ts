@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { LootLineTracker, Observation, lootLineKey } from './lootLineTracker';
+
+const LINE_HEIGHT = 20;
+
+// One capture of the loot log, oldest line at the top
+const frame = (lines: string[]): Observation[] =>
+  lines.map((text, index) => ({ key: text, x: 0, y: index * LINE_HEIGHT, size: 16 }));
+
+// Feed captures one second apart; returns the text of the new lines in each
+const track = (frames: string[][], tracker = new LootLineTracker()): string[][] =>
+  frames.map((lines, index) => tracker.update(frame(lines), index * 1000).map(observation => observation.key));
+
+describe('lootLineKey', () => {
+  it('ignores spacing and punctuation', () => {
+    expect(lootLineKey('Obtained Black Stone (Weapon) x3')).toBe(lootLineKey('Obtained  Black Stone Weapon x3.'));
+  });
+
+  it('keeps the stack count', () => {
+    expect(lootLineKey('Obtained Black Stone x2')).not.toBe(lootLineKey('Obtained Black Stone x3'));
+  });
+});
+
+describe('LootLineTracker', () => {
+  it('treats the first frame as old loot', () => {
+    expect(track([['Obtained Black Stone x1']])).toEqual([[]]);
+  });
+
+  it('does not count lines that stay on screen', () => {
+    const lines = ['Obtained Black Stone x1', 'Obtained Hard Black Crystal Shard x1'];
+    expect(track([lines, lines, lines])).toEqual([[], [], []]);
+  });
+
+  it('counts a line added to a log that is not full yet', () => {
+    expect(
+      track([
+        ['Obtained Black Stone x1'],
+        ['Obtained Black Stone x1', 'Obtained Trace of Nature x4'],
+      ])
+    ).toEqual([[], ['Obtained Trace of Nature x4']]);
+  });
+
+  describe('a full log that scrolls', () => {
+    it('counts the line that pushed the top row out', () => {
+      expect(
+        track([
+          ['Obtained Black Stone x1', 'Obtained Black Stone x2', 'Obtained Black Stone x3'],
+          ['Obtained Black Stone x2', 'Obtained Black Stone x3', 'Obtained Black Stone x5'],
+        ])
+      ).toEqual([[], ['Obtained Black Stone x5']]);
+    });
+
+    it('counts each of several lines that arrive between captures', () => {
+      expect(
+        track([
+          ['Obtained Black Stone x1', 'Obtained Black Stone x2', 'Obtained Black Stone x3'],
+          ['Obtained Black Stone x3', 'Obtained Trace of Nature x1', 'Obtained Black Stone x4'],
+        ])
+      ).toEqual([[], ['Obtained Trace of Nature x1', 'Obtained Black Stone x4']]);
+    });
+
+    it('keeps following the scroll over several captures', () => {
+      expect(
+        track([
+          ['Obtained A x1', 'Obtained B x1', 'Obtained C x1'],
+          ['Obtained B x1', 'Obtained C x1', 'Obtained D x1'],
+          ['Obtained B x1', 'Obtained C x1', 'Obtained D x1'],
+          ['Obtained C x1', 'Obtained D x1', 'Obtained E x1'],
+        ])
+      ).toEqual([[], ['Obtained D x1'], [], ['Obtained E x1']]);
+    });
+  });
+
+  describe('repeated identical drops', () => {
+    it('counts each one while the log fills up', () => {
+      expect(
+        track([
+          ['Obtained Black Stone x1'],
+          ['Obtained Black Stone x1', 'Obtained Black Stone x1'],
+          ['Obtained Black Stone x1', 'Obtained Black Stone x1', 'Obtained Black Stone x1'],
+        ])
+      ).toEqual([[], ['Obtained Black Stone x1'], ['Obtained Black Stone x1']]);
+    });
+
+    it('counts one that scrolls a different line out of a full log', () => {
+      expect(
+        track([
+          ['Obtained Trace of Nature x1', 'Obtained Black Stone x1', 'Obtained Black Stone x1'],
+          ['Obtained Black Stone x1', 'Obtained Black Stone x1', 'Obtained Black Stone x1'],
+        ])
+      ).toEqual([[], ['Obtained Black Stone x1']]);
+    });
+
+    it('counts one that arrives in an alternating full log', () => {
+      expect(
+        track([
+          ['Obtained A x1', 'Obtained B x1', 'Obtained A x1', 'Obtained B x1'],
+          ['Obtained B x1', 'Obtained A x1', 'Obtained B x1', 'Obtained A x1'],
+        ])
+      ).toEqual([[], ['Obtained A x1']]);
+    });
+  });
+
+  describe('lines that differ only in stack count', () => {
+    it('counts a new count at the position of an old one', () => {
+      expect(
+        track([
+          ['Obtained Black Stone x1', 'Obtained Black Stone x2'],
+          ['Obtained Black Stone x1', 'Obtained Black Stone x3'],
+        ])
+      ).toEqual([[], ['Obtained Black Stone x3']]);
+    });
+
+    it('does not pair lines whose counts differ when the log scrolls', () => {
+      expect(
+        track([
+          ['Obtained Black Stone x2', 'Obtained Black Stone x2'],
+          ['Obtained Black Stone x2', 'Obtained Black Stone x3'],
+        ])
+      ).toEqual([[], ['Obtained Black Stone x3']]);
+    });
+  });
+
+  it('does not recount a line that OCR missed for a frame', () => {
+    const lines = ['Obtained Black Stone x1', 'Obtained Trace of Nature x2'];
+    expect(track([lines, [lines[0]], lines])).toEqual([[], [], []]);
+  });
+
+  it('forgets lines that have been gone longer than the expiry', () => {
+    const tracker = new LootLineTracker({ expiryMs: 1500 });
+    expect(track([['Obtained Black Stone x1'], [], [], ['Obtained Black Stone x1']], tracker)).toEqual([
+      [],
+      [],
+      [],
+      ['Obtained Black Stone x1'],
+    ]);
+  });
+});
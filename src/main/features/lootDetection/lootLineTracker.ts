@@ -0,0 +1,163 @@
+import { parseLootLogLine } from './lootLogParser';
+import { normalizeText } from './textSimilarity';
+
+// Something seen in a frame: a loot log line, or an icon in icon mode
+export interface Observation {
+  key: string; // Line text or item id
+  x: number;
+  y: number;
+  size: number; // Line height or icon size; positions within half of it count as the same spot
+}
+
+interface TrackedObservation extends Observation {
+  lastSeenAt: number;
+}
+
+export interface LootLineTrackerOptions {
+  expiryMs?: number;
+  isSameKey?: (a: string, b: string) => boolean;
+}
+
+// How long a line can go unseen (missed by OCR, covered by a tooltip) and
+// still be recognized as the same line when it comes back
+export const DEFAULT_TRACK_EXPIRY_MS = 3000;
+
+/**
+ * What a loot log line says: the parsed item name and stack count, ignoring
+ * spacing and punctuation. Lines that aren't "obtained" messages keep their text.
+ */
+export function lootLineKey(text: string): string {
+  const entry = parseLootLogLine(text);
+  if (!entry) return normalizeText(text);
+  return `${normalizeText(entry.itemName).replace(/ /g, '')} x${entry.quantity}`;
+}
+
+// Only an exact match is the same line: "Black Stone x2" and "Black Stone x3"
+// are different drops, however alike they read
+const isSameLineText = (a: string, b: string): boolean => lootLineKey(a) === lootLineKey(b);
+
+/**
+ * Tells new loot log lines from ones that were already counted
+ *
+ * Each frame is aligned with the lines already tracked: the log scrolls as a
+ * whole, so the offset that lines up the most matching lines is taken as the
+ * scroll. A line is the same as a tracked one when its content matches exactly
+ * and it sits where the tracked line would be after that scroll. Anything else
+ * is a new drop:
+ * - once the log is full, a drop scrolls the top row away, and the rows that
+ *   line up one row higher are the old ones
+ * - a row whose content changed at a position that didn't scroll is new, so an
+ *   identical drop that replaces another line is still counted
+ * A line that OCR misses for a frame or two isn't counted again when it comes back.
+ * The one case no frame can tell apart is a full log of identical lines
+ * scrolling by one, which looks exactly like nothing changed.
+ */
+export class LootLineTracker {
+  private tracked: TrackedObservation[] | null = null;
+  private expiryMs: number;
+  private isSameKey: (a: string, b: string) => boolean;
+
+  constructor(options: LootLineTrackerOptions = {}) {
+    this.expiryMs = options.expiryMs ?? DEFAULT_TRACK_EXPIRY_MS;
+    this.isSameKey = options.isSameKey ?? isSameLineText;
+  }
+
+  /**
+   * Returns the observations (the objects passed in) that weren't on screen
+   * before. The first frame only sets the baseline, since whatever is visible
+   * at start is old loot.
+   */
+  update(observations: Observation[], capturedAt: number): Observation[] {
+    if (this.tracked === null) {
+      this.tracked = observations.map(observation => ({ ...observation, lastSeenAt: capturedAt }));
+      return [];
+    }
+
+    const tracked = this.tracked.filter(entry => capturedAt - entry.lastSeenAt <= this.expiryMs);
+    const shift = this.estimateShift(observations, tracked);
+    const { pairs, unmatched } = this.pairUp(observations, tracked, shift);
+
+    // Lines that weren't seen this frame scrolled along with the rest
+    const matchedEntries = new Set(pairs.map(([, entry]) => entry));
+    const next: TrackedObservation[] = tracked
+      .filter(entry => !matchedEntries.has(entry))
+      .map(entry => ({ ...entry, x: entry.x + shift.x, y: entry.y + shift.y }));
+    pairs.forEach(([observation]) => next.push({ ...observation, lastSeenAt: capturedAt }));
+    unmatched.forEach(observation => next.push({ ...observation, lastSeenAt: capturedAt }));
+
+    this.tracked = next;
+    return unmatched;
+  }
+
+  private isAt(observation: Observation, entry: Observation, shift: { x: number; y: number }): boolean {
+    const tolerance = Math.max(observation.size, entry.size) / 2;
+    return (
+      Math.abs(observation.x - (entry.x + shift.x)) <= tolerance &&
+      Math.abs(observation.y - (entry.y + shift.y)) <= tolerance
+    );
+  }
+
+  // Greedy one-to-one pairing, closest tracked entry first
+  private pairUp(
+    observations: Observation[],
+    tracked: TrackedObservation[],
+    shift: { x: number; y: number }
+  ): { pairs: [Observation, TrackedObservation][]; unmatched: Observation[] } {
+    const available = new Set(tracked);
+    const pairs: [Observation, TrackedObservation][] = [];
+    const unmatched: Observation[] = [];
+
+    observations.forEach(observation => {
+      let best: TrackedObservation | null = null;
+      let bestDistance = Infinity;
+      for (const entry of available) {
+        if (!this.isSameKey(observation.key, entry.key) || !this.isAt(observation, entry, shift)) continue;
+        const distance = Math.hypot(observation.x - (entry.x + shift.x), observation.y - (entry.y + shift.y));
+        if (distance < bestDistance) {
+          best = entry;
+          bestDistance = distance;
+        }
+      }
+
+      if (best) {
+        available.delete(best);
+        pairs.push([observation, best]);
+      } else {
+        unmatched.push(observation);
+      }
+    });
+
+    return { pairs, unmatched };
+  }
+
+  // Try the offset implied by every same-content pair (and no offset); keep the
+  // one that lines up the most observations. On a tie the log scrolling up
+  // (new lines enter at the bottom, the top row leaves) beats scrolling down,
+  // then the smallest scroll wins.
+  private estimateShift(observations: Observation[], tracked: TrackedObservation[]): { x: number; y: number } {
+    const candidates = [{ x: 0, y: 0 }];
+    observations.forEach(observation => {
+      tracked.forEach(entry => {
+        if (this.isSameKey(observation.key, entry.key)) {
+          candidates.push({ x: observation.x - entry.x, y: observation.y - entry.y });
+        }
+      });
+    });
+
+    const isPreferred = (candidate: { x: number; y: number }, current: { x: number; y: number }): boolean => {
+      if ((candidate.y <= 0) !== (current.y <= 0)) return candidate.y <= 0;
+      return Math.hypot(candidate.x, candidate.y) < Math.hypot(current.x, current.y);
+    };
+
+    let best = candidates[0];
+    let bestCount = -1;
+    candidates.forEach(candidate => {
+      const count = this.pairUp(observations, tracked, candidate).pairs.length;
+      if (count > bestCount || (count === bestCount && isPreferred(candidate, best))) {
+        best = candidate;
+        bestCount = count;
+      }
+    });
+    return best;
+  }
+}
@@ -0,0 +1,70 @@
+import { editDistance, normalizeText } from './textSimilarity';
+
+export interface LootLogEntry {
+  text: string; // Line as recognized
+  itemName: string;
+  quantity: number;
+  truncated: boolean; // Name was cut off ("Black Stone (Wea...")
+}
+
+// OCR misreads in the "obtained" keyword ("0btained", "Obtaincd") are tolerated
+const OBTAINED = 'obtained';
+const MAX_KEYWORD_DISTANCE = 2;
+const KEYWORD_SEARCH_WORDS = 3; // "You have obtained ..." puts it third
+
+// Stack count at the end of the line, possibly glued to the name ("Stonex3").
+// Digits are often misread as look-alike letters ("x1O", "xl2").
+const QUANTITY_SUFFIX = /\s*[x×*]\s*([0-9OoIl|SB][0-9OoIl|SB,.]*)$/i;
+const DIGIT_LOOKALIKES: Record<string, string> = { o: '0', i: '1', l: '1', '|': '1', s: '5', b: '8' };
+
+const TRAILING_NOISE = /[\s.!,;:'"`~\-_]+$/;
+const TRUNCATION_MARK = /(\.{2,}|…)$/;
+
+/**
+ * Read a stack count, correcting look-alike letters. Returns null unless the
+ * text contains at least one real digit, so "Ox" names aren't taken as counts.
+ */
+export function parseQuantity(text: string): number | null {
+  if (!/\d/.test(text)) return null;
+
+  const digits = text
+    .replace(/[,.]/g, '')
+    .split('')
+    .map(char => DIGIT_LOOKALIKES[char.toLowerCase()] ?? char)
+    .join('');
+  if (!/^\d+$/.test(digits)) return null;
+
+  const quantity = parseInt(digits, 10);
+  return quantity > 0 ? quantity : null;
+}
+
+/**
+ * Parse one recognized loot log line ("Obtained Black Stone (Weapon) x3")
+ * Returns null for anything that isn't an "obtained" message.
+ */
+export function parseLootLogLine(text: string): LootLogEntry | null {
+  const words = text.trim().split(/\s+/);
+  const keywordIndex = words
+    .slice(0, KEYWORD_SEARCH_WORDS)
+    .findIndex(word => editDistance(normalizeText(word).replace(/ /g, ''), OBTAINED) <= MAX_KEYWORD_DISTANCE);
+  if (keywordIndex === -1) return null;
+
+  let body = words.slice(keywordIndex + 1).join(' ').replace(/^[:\-\s]+/, '');
+  const truncated = TRUNCATION_MARK.test(body.replace(/[\s!]+$/, ''));
+  body = body.replace(TRAILING_NOISE, '').replace(/…$/, '');
+
+  let quantity = 1;
+  const quantityMatch = QUANTITY_SUFFIX.exec(body);
+  if (quantityMatch) {
+    const parsed = parseQuantity(quantityMatch[1]);
+    if (parsed !== null) {
+      quantity = parsed;
+      body = body.slice(0, quantityMatch.index);
+    }
+  }
+
+  const itemName = body.replace(/^\[|\]$/g, '').replace(TRAILING_NOISE, '').trim();
+  if (!normalizeText(itemName)) return null;
+
+  return { text: text.trim(), itemName, quantity, truncated };
+}
@@ -0,0 +1,106 @@
+import sharp from 'sharp';
+import { createWorker, OEM, PSM, Worker } from 'tesseract.js';
+import englishLanguageData from '@tesseract.js-data/eng';
+
+export interface RecognizedLine {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+  bbox: { x0: number; y0: number; x1: number; y1: number }; // In preprocessed image pixels
+}
+
+// Tuned per user in the calibration wizard
+export interface OcrPreprocessing {
+  scale: number; // Enlargement before recognition; loot log text is small
+  contrast: number; // Multiplier around mid-grey, 1 = unchanged
+  threshold: number | null; // 0-255 binarization cut-off, null = keep greyscale
+}
+
+export const DEFAULT_OCR_PREPROCESSING: OcrPreprocessing = {
+  scale: 2,
+  contrast: 1,
+  threshold: null,
+};
+
+/**
+ * Prepare a captured frame for Tesseract: enlarge, greyscale, stretch the
+ * levels, then apply the user's contrast and optional threshold
+ */
+export async function preprocessFrame(
+  image: Buffer,
+  preprocessing: OcrPreprocessing = DEFAULT_OCR_PREPROCESSING
+): Promise<Buffer> {
+  const metadata = await sharp(image).metadata();
+  let pipeline = sharp(image)
+    .resize({ width: Math.max(1, Math.round((metadata.width || 1) * preprocessing.scale)) })
+    .greyscale()
+    .normalize();
+
+  if (preprocessing.contrast !== 1) {
+    pipeline = pipeline.linear(preprocessing.contrast, 128 * (1 - preprocessing.contrast));
+  }
+  if (preprocessing.threshold !== null) {
+    pipeline = pipeline.threshold(preprocessing.threshold);
+  }
+
+  return pipeline.png().toBuffer();
+}
+
+/**
+ * Local text recognition for captured loot log frames
+ * Language data ships with the app (@tesseract.js-data/eng), so recognition
+ * never touches the network. The worker is created on first use and reused.
+ */
+export class OcrEngine {
+  private workerPromise: Promise<Worker> | null = null;
+
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      this.workerPromise = (async () => {
+        const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+          langPath: englishLanguageData.langPath,
+          gzip: true,
+          cacheMethod: 'none',
+        });
+        // The loot log is a single column of lines
+        await worker.setParameters({ tessedit_pageseg_mode: PSM.SINGLE_BLOCK });
+        return worker;
+      })();
+      this.workerPromise.catch(() => {
+        this.workerPromise = null;
+      });
+    }
+    return this.workerPromise;
+  }
+
+  async recognizeLines(image: Buffer, preprocessing?: OcrPreprocessing): Promise<RecognizedLine[]> {
+    const prepared = await preprocessFrame(image, preprocessing);
+
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(prepared, {}, { blocks: true });
+
+    const lines: RecognizedLine[] = [];
+    (data.blocks || []).forEach(block => {
+      block.paragraphs.forEach(paragraph => {
+        paragraph.lines.forEach(line => {
+          const text = line.text.trim();
+          if (text) {
+            lines.push({ text, confidence: line.confidence, bbox: line.bbox });
+          }
+        });
+      });
+    });
+    return lines;
+  }
+
+  async terminate(): Promise<void> {
+    const workerPromise = this.workerPromise;
+    this.workerPromise = null;
+    if (workerPromise) {
+      try {
+        await (await workerPromise).terminate();
+      } catch (error) {
+        console.error('Error terminating OCR worker:', error);
+      }
+    }
+  }
+}
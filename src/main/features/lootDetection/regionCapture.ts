@@ -0,0 +1,48 @@
+import { desktopCapturer, screen } from 'electron';
+import { OCRRegion, findRegionDisplay, getPhysicalDisplaySize, toPhysicalRegion } from '../regionSelector/regionSelectorAPI';
+
+export type { OCRRegion };
+
+/**
+ * Capture the OCR region as a PNG
+ * The region is cropped from the screen source of the display it was selected
+ * on. Sources can come back smaller than requested, so the crop is scaled from
+ * physical pixels to the thumbnail's actual size.
+ */
+export async function captureRegion(region: OCRRegion): Promise<Buffer> {
+  const display = findRegionDisplay(region);
+  if (!display) {
+    throw new Error(`The display ${region.display ? `"${region.display}" ` : ''}for the OCR region is not connected`);
+  }
+
+  const physicalSize = getPhysicalDisplaySize(display);
+  const sources = await desktopCapturer.getSources({
+    types: ['screen'],
+    thumbnailSize: physicalSize,
+  });
+
+  // display_id is empty on some Linux setups; sources are then in display order
+  const displayIndex = screen.getAllDisplays().findIndex(d => d.id === display.id);
+  const source =
+    sources.find(s => s.display_id === String(display.id)) ||
+    (sources.every(s => !s.display_id) ? sources[displayIndex] : undefined) ||
+    (sources.length === 1 ? sources[0] : undefined);
+  if (!source) {
+    throw new Error('No screen available to capture');
+  }
+
+  const thumbnailSize = source.thumbnail.getSize();
+  const scaleX = thumbnailSize.width / physicalSize.width;
+  const scaleY = thumbnailSize.height / physicalSize.height;
+  const physical = toPhysicalRegion(region, display);
+
+  const x = Math.max(0, Math.round(physical.x * scaleX));
+  const y = Math.max(0, Math.round(physical.y * scaleY));
+  const width = Math.min(Math.round(physical.width * scaleX), thumbnailSize.width - x);
+  const height = Math.min(Math.round(physical.height * scaleY), thumbnailSize.height - y);
+  if (width <= 0 || height <= 0) {
+    throw new Error('OCR region is outside the captured screen');
+  }
+
+  return source.thumbnail.crop({ x, y, width, height }).toPNG();
+}
@@ -0,0 +1,80 @@
+/**
+ * Replay a recorded grind through the detection pipeline, outside Electron
+ *
+ *   npm run replay-detection -- <recording dir> [expected.json] [--write-expected]
+ *
+ * Prints the item-detected stream and the lines left for review, then compares the totals with the
+ * expected-counts fixture (defaults to expected.json in the recording).
+ * --write-expected saves the current totals as that fixture instead.
+ * Exits with 1 when the counts differ.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { OcrEngine } from './ocrEngine';
+import { loadRecording } from './frameRecorder';
+import { replayRecording, totalDetectedCounts, compareCounts, ExpectedCounts } from './detectionReplay';
+
+const EXPECTED_COUNTS_FILE = 'expected.json';
+
+async function main(args: string[]): Promise<number> {
+  const writeExpected = args.includes('--write-expected');
+  const [recordingDirectory, expectedPathArg] = args.filter(arg => !arg.startsWith('--'));
+  if (!recordingDirectory) {
+    console.error('Usage: replay-detection <recording dir> [expected.json] [--write-expected]');
+    return 2;
+  }
+
+  const recording = await loadRecording(recordingDirectory);
+  const expectedPath = expectedPathArg || path.join(recordingDirectory, EXPECTED_COUNTS_FILE);
+  console.log(`Replaying ${recording.frames.length} frames from ${recordingDirectory}`);
+
+  const ocr = new OcrEngine();
+  let replay;
+  try {
+    replay = await replayRecording(recording, ocr);
+  } finally {
+    await ocr.terminate();
+  }
+
+  replay.detections.forEach(detection => {
+    console.log(
+      `${detection.frame}  ${detection.itemName} x${detection.quantity}  (${detection.confidence})  "${detection.text}"`
+    );
+  });
+  replay.uncertain.forEach(detection => {
+    const candidates = detection.candidates.map(c => `${c.itemName} (${c.score})`).join(', ');
+    console.log(`${detection.frame}  needs review: "${detection.text}"; candidates: ${candidates || 'none'}`);
+  });
+
+  const actual = totalDetectedCounts(replay.detections);
+  if (writeExpected) {
+    const fixture: ExpectedCounts = { counts: actual };
+    await fs.promises.writeFile(expectedPath, JSON.stringify(fixture, null, 2) + '\n');
+    console.log(`Wrote expected counts to ${expectedPath}`);
+    return 0;
+  }
+
+  let expected: ExpectedCounts;
+  try {
+    expected = JSON.parse(await fs.promises.readFile(expectedPath, 'utf8'));
+  } catch (error) {
+    console.error(`Could not read expected counts from ${expectedPath}:`, error instanceof Error ? error.message : error);
+    return 2;
+  }
+
+  const { matches, rows } = compareCounts(expected, actual);
+  console.log('');
+  rows.forEach(row => {
+    const marker = row.expected === row.actual ? ' ' : '!';
+    console.log(`${marker} ${row.itemName}: expected ${row.expected}, detected ${row.actual}`);
+  });
+  console.log(matches ? '\nCounts match' : '\nCounts differ');
+  return matches ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Replay failed:', error);
+    process.exit(2);
+  });
@@ -1,113 +1,209 @@
-import { IpcMainInvokeEvent, BrowserWindow, screen, desktopCapturer } from 'electron';
+import { IpcMainInvokeEvent, BrowserWindow, screen, Display } from 'electron';
 import * as path from 'path';
 
-interface OCRRegion {
+/**
+ * Regions selected since multi-monitor support carry display_id and are in
+ * physical pixels relative to that display's top-left corner. Older regions
+ * have no display_id and are in DIPs on the primary display.
+ */
+export interface OCRRegion {
   x: number;
   y: number;
   width: number;
   height: number;
-  display?: string;
+  display?: string; // Label, for showing to the user
+  display_id?: number;
+  scale_factor?: number; // Display scaling when the region was selected
 }
 
-let regionSelectorWindow: BrowserWindow | null = null;
+interface RegionValidation {
+  valid: boolean;
+  error?: string;
+  displayLabel?: string;
+}
+
+let regionSelectorWindows: BrowserWindow[] = [];
+
+const getDisplayLabel = (display: Display, index: number) => display.label || `Display ${index + 1}`;
+
+const closeRegionSelectorWindows = () => {
+  const windows = regionSelectorWindows;
+  regionSelectorWindows = [];
+  windows.forEach(window => {
+    if (!window.isDestroyed()) {
+      window.close();
+    }
+  });
+};
+
+/**
+ * Find the display a region was selected on
+ * Display ids can change when monitors are reconnected, so the label is the
+ * fallback. Returns null when the display is no longer connected.
+ */
+export const findRegionDisplay = (region: OCRRegion): Display | null => {
+  if (region.display_id === undefined) {
+    return screen.getPrimaryDisplay();
+  }
+
+  const displays = screen.getAllDisplays();
+  return (
+    displays.find(display => display.id === region.display_id) ||
+    (region.display ? displays.find((display, index) => getDisplayLabel(display, index) === region.display) : undefined) ||
+    null
+  );
+};
+
+/**
+ * The region in physical pixels relative to its display
+ */
+export const toPhysicalRegion = (region: OCRRegion, display: Display): { x: number; y: number; width: number; height: number } => {
+  // Legacy regions are in DIPs
+  const scale = region.display_id === undefined ? display.scaleFactor : 1;
+  return {
+    x: Math.round(region.x * scale),
+    y: Math.round(region.y * scale),
+    width: Math.round(region.width * scale),
+    height: Math.round(region.height * scale),
+  };
+};
+
+export const getPhysicalDisplaySize = (display: Display) => ({
+  width: Math.round(display.size.width * display.scaleFactor),
+  height: Math.round(display.size.height * display.scaleFactor),
+});
+
+export const validateRegion = (region: OCRRegion): RegionValidation => {
+  const display = findRegionDisplay(region);
+  if (!display) {
+    return {
+      valid: false,
+      error: `The display the loot detection region was selected on${region.display ? ` (${region.display})` : ''} is not connected. Re-select the region in settings.`,
+    };
+  }
+
+  const index = screen.getAllDisplays().findIndex(d => d.id === display.id);
+  const displayLabel = getDisplayLabel(display, Math.max(index, 0));
+  const physical = toPhysicalRegion(region, display);
+  const size = getPhysicalDisplaySize(display);
+  if (physical.x < 0 || physical.y < 0 || physical.x + physical.width > size.width || physical.y + physical.height > size.height) {
+    return {
+      valid: false,
+      error: `The loot detection region no longer fits on ${displayLabel} (its resolution or scaling changed). Re-select the region in settings.`,
+      displayLabel,
+    };
+  }
+
+  return { valid: true, displayLabel };
+};
 
 export const regionSelectorHandlers = {
   'select-ocr-region': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; region?: OCRRegion; error?: string }> => {
     try {
-      // Close existing selector window if open
-      if (regionSelectorWindow && !regionSelectorWindow.isDestroyed()) {
-        regionSelectorWindow.close();
-      }
+      closeRegionSelectorWindows();
 
-      // Get all displays
+      // One selector window per display, so the region can be drawn on any monitor
       const displays = screen.getAllDisplays();
-      const primaryDisplay = screen.getPrimaryDisplay();
-
-      // Create overlay window for region selection
-      regionSelectorWindow = new BrowserWindow({
-        width: primaryDisplay.bounds.width,
-        height: primaryDisplay.bounds.height,
-        x: primaryDisplay.bounds.x,
-        y: primaryDisplay.bounds.y,
-        frame: false,
-        transparent: true,
-        alwaysOnTop: true,
-        skipTaskbar: true,
-        resizable: false,
-        movable: false,
-        minimizable: false,
-        maximizable: false,
-        closable: true,
-        focusable: true,
-        webPreferences: {
-          nodeIntegration: false,
-          contextIsolation: true,
-          preload: path.join(__dirname, '../../core/preload.js'),
-        },
-      });
+      const displayInfo = displays.map((display, index) => ({
+        id: display.id,
+        label: getDisplayLabel(display, index),
+        bounds: display.bounds,
+        workArea: display.workArea,
+        scaleFactor: display.scaleFactor
+      }));
 
-      // Load the region selector HTML
-      await regionSelectorWindow.loadFile(path.join(__dirname, 'regionSelector.html'));
-
-      // Return a promise that resolves when region is selected
-      return new Promise((resolve) => {
-        if (!regionSelectorWindow) {
-          resolve({ success: false, error: 'Failed to create selector window' });
-          return;
-        }
-
-        // Handle region selection
-        regionSelectorWindow.webContents.once('ipc-message', (event, channel, data) => {
-          if (channel === 'region-selected') {
-            const region: OCRRegion = {
-              x: Math.round(data.x),
-              y: Math.round(data.y),
-              width: Math.round(data.width),
-              height: Math.round(data.height),
-              display: data.display || primaryDisplay.label
-            };
-
-            resolve({ success: true, region });
-            
-            // Close the selector window
-            if (regionSelectorWindow && !regionSelectorWindow.isDestroyed()) {
-              regionSelectorWindow.close();
-            }
-          } else if (channel === 'region-cancelled') {
-            resolve({ success: false, error: 'Region selection cancelled' });
-            
-            // Close the selector window
-            if (regionSelectorWindow && !regionSelectorWindow.isDestroyed()) {
-              regionSelectorWindow.close();
+      return await new Promise((resolve) => {
+        let settled = false;
+        const finish = (result: { success: boolean; region?: OCRRegion; error?: string }) => {
+          if (settled) return;
+          settled = true;
+          resolve(result);
+          closeRegionSelectorWindows();
+        };
+
+        displays.forEach((display, index) => {
+          const selectorWindow = new BrowserWindow({
+            width: display.bounds.width,
+            height: display.bounds.height,
+            x: display.bounds.x,
+            y: display.bounds.y,
+            frame: false,
+            transparent: true,
+            alwaysOnTop: true,
+            skipTaskbar: true,
+            resizable: false,
+            movable: false,
+            minimizable: false,
+            maximizable: false,
+            closable: true,
+            focusable: true,
+            webPreferences: {
+              nodeIntegration: false,
+              contextIsolation: true,
+              preload: path.join(__dirname, 'regionSelectorPreload.js'),
+            },
+          });
+          // Windows can shift a window's size when it opens on a display with different scaling
+          selectorWindow.setBounds(display.bounds);
+          regionSelectorWindows.push(selectorWindow);
+
+          // Handle region selection
+          selectorWindow.webContents.on('ipc-message', (ipcEvent, channel, data) => {
+            if (channel === 'region-selected') {
+              // The page reports DIPs relative to this window, which covers exactly this display
+              const { scaleFactor } = display;
+              finish({
+                success: true,
+                region: {
+                  x: Math.round(data.x * scaleFactor),
+                  y: Math.round(data.y * scaleFactor),
+                  width: Math.round(data.width * scaleFactor),
+                  height: Math.round(data.height * scaleFactor),
+                  display: displayInfo[index].label,
+                  display_id: display.id,
+                  scale_factor: scaleFactor
+                }
+              });
+            } else if (channel === 'region-cancelled') {
+              finish({ success: false, error: 'Region selection cancelled' });
             }
-          }
-        });
+          });
 
-        // Handle window close
-        regionSelectorWindow.on('closed', () => {
-          regionSelectorWindow = null;
-          resolve({ success: false, error: 'Region selection cancelled' });
-        });
+          // Closing any selector window cancels the selection
+          selectorWindow.on('closed', () => {
+            finish({ success: false, error: 'Region selection cancelled' });
+          });
 
-        // Send display info to renderer
-        regionSelectorWindow.webContents.once('dom-ready', () => {
-          if (regionSelectorWindow) {
-            regionSelectorWindow.webContents.send('display-info', {
-              displays: displays.map(d => ({
-                id: d.id,
-                label: d.label,
-                bounds: d.bounds,
-                workArea: d.workArea,
-                scaleFactor: d.scaleFactor
-              })),
-              primary: primaryDisplay.id
-            });
-          }
+          // Send display info to renderer
+          selectorWindow.webContents.once('dom-ready', () => {
+            if (!selectorWindow.isDestroyed()) {
+              selectorWindow.webContents.send('display-info', {
+                display: displayInfo[index],
+                displays: displayInfo,
+                primary: screen.getPrimaryDisplay().id
+              });
+            }
+          });
+
+          selectorWindow.loadFile(path.join(__dirname, 'regionSelector.html')).catch(error => {
+            console.error('Error loading region selector:', error);
+            finish({ success: false, error: 'Failed to create selector window' });
+          });
         });
       });
 
     } catch (error) {
       console.error('Error in OCR region selection:', error);
+      closeRegionSelectorWindows();
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'validate-ocr-region': async (event: IpcMainInvokeEvent, region: OCRRegion): Promise<{ success: boolean; data?: RegionValidation; error?: string }> => {
+    try {
+      return { success: true, data: validateRegion(region) };
+    } catch (error) {
+      console.error('Error validating OCR region:', error);
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
@@ -115,8 +211,5 @@ export const regionSelectorHandlers = {
 
 // Clean up function
 export const cleanupRegionSelector = () => {
-  if (regionSelectorWindow && !regionSelectorWindow.isDestroyed()) {
-    regionSelectorWindow.close();
-    regionSelectorWindow = null;
-  }
+  closeRegionSelectorWindows();
 };
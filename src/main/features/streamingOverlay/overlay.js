@@ -1,5 +1,8 @@
 let currentData = null;
 let sessionStartTime = null;
+let pausedMs = 0; // Total of completed pauses
+let pausedAt = null; // Start of the pause in progress, if any
+let endedAt = null; // Set once the session has stopped, freezing the clock
 let isReady = false;
 let pendingData = null;
 
@@ -18,6 +21,9 @@ const setupDataListener = () => {
   try {
     window.electronAPI.onOverlayData((data) => {
       currentData = data;
+      pausedMs = data.pausedMs || 0;
+      pausedAt = data.pausedAt ? new Date(data.pausedAt) : null;
+      endedAt = data.ended ? endedAt || new Date() : null;
       
       if (data.sessionStartTime) {
         sessionStartTime = new Date(data.sessionStartTime);
@@ -35,6 +41,10 @@ const setupDataListener = () => {
         pendingData = data;
       }
     });
+
+    if (window.electronAPI.onRareDrop) {
+      window.electronAPI.onRareDrop(queueRareDrop);
+    }
     return true;
   } catch (error) {
     console.error("Error setting up data listener:", error);
@@ -63,6 +73,11 @@ if (!setupDataListener()) {
 // DOM ready handler
 document.addEventListener("DOMContentLoaded", () => {
   isReady = true;
+
+  // Click-through windows are transparent, so drop the chroma key background
+  if (new URLSearchParams(window.location.search).get("mode") === "click-through") {
+    document.body.classList.add("click-through");
+  }
   
   if (!window.electronAPI) {
     console.error("electronAPI still not available in DOM ready");
@@ -76,72 +91,236 @@ document.addEventListener("DOMContentLoaded", () => {
   }
 });
 
-function updateOverlay(data) {
+// Rare drop alerts, shown one at a time so simultaneous drops each get their moment
+const RARE_DROP_DURATION_MS = 6000;
+const rareDropQueue = [];
+let showingRareDrop = false;
+
+function queueRareDrop(alert) {
+  // Custom stream alerts in a browser source can listen for this event
+  window.dispatchEvent(new CustomEvent("rare-drop", { detail: alert }));
+
+  rareDropQueue.push(alert);
+  if (!showingRareDrop) {
+    showNextRareDrop();
+  }
+}
+
+function showNextRareDrop() {
+  const element = document.getElementById("rareDropAlert");
+  const alert = rareDropQueue.shift();
+  if (!element || !alert) {
+    showingRareDrop = false;
+    if (element) element.hidden = true;
+    return;
+  }
+
+  showingRareDrop = true;
+  element.replaceChildren();
+  if (alert.image_url) {
+    const image = createElement("img", "rare-drop-image");
+    image.src = alert.image_url;
+    image.alt = "";
+    element.appendChild(image);
+  }
+  const text = createElement("div", "rare-drop-text");
+  text.appendChild(createElement("div", "rare-drop-title", "Rare Drop!"));
+  text.appendChild(createElement("div", "rare-drop-item", `${alert.quantity > 1 ? `${alert.quantity}× ` : ""}${alert.item_name}`));
+  text.appendChild(createElement("div", "rare-drop-value", `${(alert.value || 0).toLocaleString()} silver`));
+  element.appendChild(text);
+
+  // Restart the entrance animation for back-to-back alerts
+  element.hidden = true;
+  void element.offsetWidth;
+  element.hidden = false;
+
+  // The app window plays its own chime; browser sources play it for the stream
+  if (alert.sound && document.body.classList.contains("browser-source")) {
+    playRareDropSound();
+  }
+
+  setTimeout(showNextRareDrop, RARE_DROP_DURATION_MS);
+}
+
+function playRareDropSound() {
   try {
-    // Update gross value
-    const grossValueElement = document.getElementById("grossValue");
-    if (grossValueElement) {
-      const grossValue = data.grossValue || 0;
-      grossValueElement.textContent = `${grossValue.toLocaleString()} silver`;
+    const context = new AudioContext();
+    [880, 1175, 1568].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.12;
+      oscillator.type = "triangle";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.45);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error("Error playing rare drop sound:", error);
+  }
+}
+
+const WIDGET_LABELS = {
+  timer: "Session",
+  total_silver: "Total Silver",
+  silver_per_hour: "Silver / Hour",
+  top_drops: "Top Drops",
+  recent_drops: "Recent Drops",
+  tax_breakdown: "Tax",
+};
+
+function createElement(tag, className, text) {
+  const element = document.createElement(tag);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
+
+function createList(rows, emptyText) {
+  if (rows.length === 0) {
+    return createElement("div", "widget-empty", emptyText);
+  }
+  const list = createElement("ul", "widget-list");
+  rows.forEach(([name, value]) => {
+    const row = createElement("li");
+    row.appendChild(createElement("span", "widget-list-name", name));
+    row.appendChild(createElement("span", "widget-list-value", value));
+    list.appendChild(row);
+  });
+  return list;
+}
+
+function getItemName(data, itemId) {
+  const item = (data.items || []).find((entry) => entry.id === itemId);
+  return item ? item.name : `Item #${itemId}`;
+}
+
+// Body of one widget; the timer's values are filled in by updateSessionDuration
+function renderWidgetContent(widget, data, element) {
+  const metrics = data.metrics;
+  const limit = widget.max_items || 5;
+
+  switch (widget.type) {
+    case "timer":
+      element.appendChild(createElement("div", "widget-value", "0:00")).dataset.timer = "active";
+      element.appendChild(createElement("div", "widget-sub")).dataset.timer = "wall";
+      break;
+
+    case "total_silver":
+      element.appendChild(createElement("div", "widget-value", `${(data.postTaxValue || 0).toLocaleString()} silver`));
+      element.appendChild(createElement("div", "widget-sub", `Gross ${(data.grossValue || 0).toLocaleString()}`));
+      break;
+
+    case "silver_per_hour":
+      element.appendChild(createElement("div", "widget-value", (metrics?.silverPerHour || 0).toLocaleString()));
+      element.appendChild(
+        createElement("div", "widget-sub", `Last 10 min: ${(metrics?.rollingSilverPerHour || 0).toLocaleString()}`)
+      );
+      break;
+
+    case "top_drops": {
+      // Most valuable first, only items that have dropped
+      const rows = (data.items || [])
+        .map((item) => ({
+          item,
+          count: data.itemCounts?.[item.id] || 0,
+          value: data.itemValues?.[item.id] || 0,
+        }))
+        .filter((drop) => drop.count > 0)
+        .sort((a, b) => b.value - a.value || b.count - a.count)
+        .slice(0, limit)
+        .map((drop) => [`${drop.item.name} ×${drop.count}`, `${drop.value.toLocaleString()}`]);
+      element.appendChild(createList(rows, "No drops yet"));
+      break;
     }
 
-    // Update post-tax value
-    const postTaxValueElement = document.getElementById("postTaxValue");
-    if (postTaxValueElement) {
-      const postTaxValue = data.postTaxValue || 0;
-      postTaxValueElement.textContent = `${postTaxValue.toLocaleString()} silver`;
+    case "recent_drops": {
+      const rows = (data.recentDrops || [])
+        .slice(0, limit)
+        .map((drop) => [
+          `+${drop.quantity} ${getItemName(data, drop.item_id)}`,
+          new Date(drop.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+        ]);
+      element.appendChild(createList(rows, "No drops yet"));
+      break;
     }
 
-    // Update items list
-    const lootItemsContainer = document.getElementById("lootItems");
-    if (!lootItemsContainer) {
-      console.error("Loot items container not found");
-      return;
+    case "tax_breakdown": {
+      const tax = data.taxBreakdown;
+      const rows = [
+        ["Gross", (data.grossValue || 0).toLocaleString()],
+        ["Tax", `-${(tax?.taxAmount || 0).toLocaleString()} (${(tax?.effectiveTaxRate || 0).toFixed(1)}%)`],
+        ["Post-tax", (data.postTaxValue || 0).toLocaleString()],
+      ];
+      element.appendChild(createList(rows, ""));
+      break;
     }
+  }
+}
 
-    if (!data.items || data.items.length === 0) {
-      lootItemsContainer.innerHTML = '<div class="no-items">No loot table configured</div>';
+function updateOverlay(data) {
+  try {
+    const container = document.getElementById("overlayWidgets");
+    if (!container) {
+      console.error("Overlay widget container not found");
       return;
     }
-    
-    // Show all items, regardless of count
-    lootItemsContainer.innerHTML = data.items
-      .map((item) => {
-        const count = data.itemCounts[item.id] || 0;
-        const value = count * item.calculatedPrice;
-
-        return `
-          <div class="active-loot-item">
-            <div class="item-image-container">
-              ${item.image_url 
-                ? `<img src="${item.image_url}" alt="${item.name}" class="item-image">`
-                : `<div class="item-image-placeholder">📦</div>`}
-            </div>
-            <div class="item-info">
-              <span class="item-name" title="${item.name}">${item.name}</span>
-              <div class="item-counter">
-                <span class="count">${count}</span>
-                <span class="value">${value.toLocaleString()} silver</span>
-              </div>
-            </div>
-          </div>`;
-      })
-      .join("");
+
+    container.replaceChildren();
+    (data.widgets || [])
+      .filter((widget) => widget.visible)
+      .forEach((widget) => {
+        const element = createElement("div", `overlay-widget widget-${widget.type}`);
+        element.style.left = `${widget.x}px`;
+        element.style.top = `${widget.y}px`;
+        element.style.width = `${widget.width}px`;
+        element.style.fontFamily = widget.font_family;
+        element.style.fontSize = `${widget.font_size}px`;
+        element.style.color = widget.text_color;
+        element.style.background = widget.background_color;
+
+        element.appendChild(createElement("div", "widget-label", WIDGET_LABELS[widget.type] || widget.type));
+        renderWidgetContent(widget, data, element);
+        container.appendChild(element);
+      });
+
+    updateSessionDuration();
   } catch (error) {
     console.error("Error in updateOverlay:", error);
   }
 }
 
+function formatDuration(ms) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
 function updateSessionDuration() {
   if (sessionStartTime) {
-    const now = new Date();
-    const diff = now.getTime() - sessionStartTime.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const seconds = Math.floor((diff % 60000) / 1000);
-    const durationElement = document.getElementById("sessionDuration");
-    if (durationElement) {
-      durationElement.textContent = `${minutes}:${seconds.toString().padStart(2, "0")}`;
-    }
+    const now = endedAt || new Date();
+    const wallClockMs = now.getTime() - sessionStartTime.getTime();
+    // Active time excludes completed pauses and the pause in progress
+    const totalPausedMs = pausedMs + (pausedAt ? now.getTime() - pausedAt.getTime() : 0);
+
+    document.querySelectorAll('[data-timer="active"]').forEach((element) => {
+      element.textContent = formatDuration(wallClockMs - totalPausedMs);
+      element.classList.toggle("paused", !!pausedAt);
+    });
+
+    document.querySelectorAll('[data-timer="wall"]').forEach((element) => {
+      const total = `${formatDuration(wallClockMs)} total`;
+      element.textContent = endedAt ? `Ended · ${total}` : pausedAt ? `Paused · ${total}` : total;
+    });
   }
 }
 
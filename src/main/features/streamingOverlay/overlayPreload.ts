@@ -6,5 +6,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Listen for overlay data updates
   onOverlayData: (callback: (data: any) => void) => {
     ipcRenderer.on('overlay-data', (event, data) => callback(data));
+  },
+
+  // Listen for rare drop alerts
+  onRareDrop: (callback: (alert: any) => void) => {
+    ipcRenderer.on('overlay-rare-drop', (event, alert) => callback(alert));
   }
 });
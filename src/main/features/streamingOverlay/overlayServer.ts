@@ -0,0 +1,221 @@
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebSocketServer, WebSocket } from 'ws';
+
+export const DEFAULT_OVERLAY_SERVER_PORT = 47820;
+
+// Path the overlay page connects to for live data
+const SOCKET_PATH = '/ws';
+
+// Files served to browser sources, all copied next to main.js at build time
+const STATIC_FILES: Record<string, { file: string; contentType: string }> = {
+  '/overlay.js': { file: 'overlay.js', contentType: 'application/javascript; charset=utf-8' },
+  '/overlaySocket.js': { file: 'overlaySocket.js', contentType: 'application/javascript; charset=utf-8' },
+};
+
+export interface OverlayServerStatus {
+  running: boolean;
+  port?: number;
+  url?: string;
+  clients: number; // Connected browser sources
+}
+
+/**
+ * Everything pushed to browser sources is wrapped in a typed envelope:
+ * - overlay-data: the latest session numbers, replayed to new connections
+ * - rare-drop: a RareDropAlert, sent once; custom stream alerts can listen for it on /ws
+ */
+export interface OverlayServerMessage {
+  type: 'overlay-data' | 'rare-drop';
+  data: unknown;
+}
+
+let httpServer: http.Server | null = null;
+let socketServer: WebSocketServer | null = null;
+let serverPort: number | null = null;
+let lastData: unknown = null; // Replayed to browser sources as they connect
+let statusListener: ((status: OverlayServerStatus) => void) | null = null;
+
+export const getOverlayServerStatus = (): OverlayServerStatus => {
+  if (!httpServer || serverPort === null) {
+    return { running: false, clients: 0 };
+  }
+  return {
+    running: true,
+    port: serverPort,
+    url: `http://127.0.0.1:${serverPort}/`,
+    clients: socketServer ? socketServer.clients.size : 0,
+  };
+};
+
+// Called whenever the server starts, stops, or a browser source connects or leaves
+export const setOverlayServerStatusListener = (listener: ((status: OverlayServerStatus) => void) | null) => {
+  statusListener = listener;
+};
+
+const notifyStatus = () => {
+  statusListener?.(getOverlayServerStatus());
+};
+
+const send = (socket: WebSocket, message: OverlayServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * The window's overlay page, adapted for a browser source:
+ * - transparent background instead of the chroma key green
+ * - overlaySocket.js stands in for the overlay preload
+ * - the CSP allows the WebSocket back to this server
+ */
+const renderOverlayPage = (host: string): string => {
+  const html = fs.readFileSync(path.join(__dirname, 'streamingOverlay.html'), 'utf-8');
+  return html
+    .replace("connect-src 'self'", `connect-src 'self' ws://${host}`)
+    .replace('<body>', '<body class="browser-source">')
+    .replace('<script src="overlay.js"></script>', '<script src="overlaySocket.js"></script>\n    <script src="overlay.js"></script>');
+};
+
+/**
+ * Only the loopback names for this port are served. Anything else in the Host
+ * header is a page on another site whose DNS now points at 127.0.0.1.
+ */
+const isLoopbackHost = (host: string | undefined, port: number): boolean =>
+  host === `127.0.0.1:${port}` || host === `localhost:${port}`;
+
+/**
+ * Browsers always send an Origin with WebSocket upgrades, so a page from any
+ * other site is refused. Clients without one aren't browsers and are local.
+ */
+const isAllowedSocketClient = (origin: string | undefined, host: string | undefined, port: number): boolean => {
+  if (!isLoopbackHost(host, port)) return false;
+  return !origin || origin === `http://127.0.0.1:${port}` || origin === `http://localhost:${port}`;
+};
+
+const handleRequest = (req: http.IncomingMessage, res: http.ServerResponse, port: number) => {
+  if (!isLoopbackHost(req.headers.host, port)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.writeHead(405);
+    res.end();
+    return;
+  }
+
+  try {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (pathname === '/' || pathname === '/index.html') {
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+      res.end(renderOverlayPage(req.headers.host as string));
+      return;
+    }
+
+    const staticFile = STATIC_FILES[pathname];
+    if (staticFile) {
+      res.writeHead(200, { 'Content-Type': staticFile.contentType, 'Cache-Control': 'no-store' });
+      res.end(fs.readFileSync(path.join(__dirname, staticFile.file)));
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  } catch (error) {
+    console.error('Error serving streaming overlay:', error);
+    res.writeHead(500);
+    res.end();
+  }
+};
+
+/**
+ * Serve the streaming overlay on localhost for OBS browser sources
+ * Only binds to the loopback interface; resolves once the port is listening.
+ */
+export const startOverlayServer = async (port: number = DEFAULT_OVERLAY_SERVER_PORT): Promise<OverlayServerStatus> => {
+  if (httpServer) {
+    return getOverlayServerStatus();
+  }
+
+  const server = http.createServer((req, res) => handleRequest(req, res, port));
+
+  await new Promise<void>((resolve, reject) => {
+    const onError = (error: NodeJS.ErrnoException) => {
+      server.close();
+      reject(error.code === 'EADDRINUSE' ? new Error(`Port ${port} is already in use`) : error);
+    };
+    server.once('error', onError);
+    server.listen(port, '127.0.0.1', () => {
+      server.off('error', onError);
+      resolve();
+    });
+  });
+
+  const sockets = new WebSocketServer({
+    server,
+    path: SOCKET_PATH,
+    verifyClient: ({ origin, req }) => isAllowedSocketClient(origin, req.headers.host, port),
+  });
+  sockets.on('connection', (socket) => {
+    if (lastData) {
+      send(socket, { type: 'overlay-data', data: lastData });
+    }
+    socket.on('close', notifyStatus);
+    socket.on('error', (error) => {
+      console.error('Streaming overlay socket error:', error);
+    });
+    notifyStatus();
+  });
+
+  server.on('error', (error) => {
+    console.error('Streaming overlay server error:', error);
+  });
+
+  httpServer = server;
+  socketServer = sockets;
+  serverPort = port;
+  notifyStatus();
+  return getOverlayServerStatus();
+};
+
+export const stopOverlayServer = async (): Promise<void> => {
+  if (!httpServer) return;
+
+  const server = httpServer;
+  const sockets = socketServer;
+  httpServer = null;
+  socketServer = null;
+  serverPort = null;
+
+  sockets?.clients.forEach(socket => socket.terminate());
+  await new Promise<void>(resolve => {
+    if (sockets) {
+      sockets.close(() => resolve());
+    } else {
+      resolve();
+    }
+  });
+  await new Promise<void>(resolve => server.close(() => resolve()));
+  notifyStatus();
+};
+
+// Push overlay data to every connected browser source
+export const broadcastOverlayData = (data: unknown): boolean => {
+  lastData = data;
+  if (!socketServer) return false;
+
+  socketServer.clients.forEach(socket => send(socket, { type: 'overlay-data', data }));
+  return true;
+};
+
+// Push a rare drop alert to every connected browser source; not replayed later
+export const broadcastRareDrop = (alert: unknown): boolean => {
+  if (!socketServer) return false;
+
+  socketServer.clients.forEach(socket => send(socket, { type: 'rare-drop', data: alert }));
+  return true;
+};
@@ -0,0 +1,45 @@
+// Browser source transport: stands in for overlayPreload and feeds overlay.js from the app's WebSocket
+(() => {
+  const listeners = [];
+  const rareDropListeners = [];
+  const maxRetryMs = 10000;
+  let retryMs = 1000;
+
+  const connect = () => {
+    const socket = new WebSocket(`ws://${window.location.host}/ws`);
+
+    socket.addEventListener("open", () => {
+      retryMs = 1000;
+    });
+
+    socket.addEventListener("message", (event) => {
+      try {
+        const message = JSON.parse(event.data);
+        if (message.type === "overlay-data") {
+          listeners.forEach((callback) => callback(message.data));
+        } else if (message.type === "rare-drop") {
+          rareDropListeners.forEach((callback) => callback(message.data));
+        }
+      } catch (error) {
+        console.error("Invalid overlay message:", error);
+      }
+    });
+
+    // Keep the last frame on screen and reconnect when the app comes back
+    socket.addEventListener("close", () => {
+      setTimeout(connect, retryMs);
+      retryMs = Math.min(retryMs * 2, maxRetryMs);
+    });
+  };
+
+  window.electronAPI = {
+    onOverlayData: (callback) => {
+      listeners.push(callback);
+    },
+    onRareDrop: (callback) => {
+      rareDropListeners.push(callback);
+    },
+  };
+
+  connect();
+})();
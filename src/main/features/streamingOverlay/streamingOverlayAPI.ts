@@ -1,14 +1,247 @@
-import { IpcMainInvokeEvent, BrowserWindow } from 'electron';
+import { IpcMainInvokeEvent, BrowserWindow, globalShortcut, screen } from 'electron';
 import * as path from 'path';
+import { LootEvent, OverlayWidget, RareDropAlert } from '../../../services/db/types';
+import {
+  overlayWindowSettingsService,
+  OverlayWindowBounds,
+  OverlayWindowSettings,
+} from '../../../services/overlayWindowSettings';
+import {
+  startOverlayServer,
+  stopOverlayServer,
+  broadcastOverlayData,
+  broadcastRareDrop,
+  getOverlayServerStatus,
+  setOverlayServerStatusListener,
+  OverlayServerStatus,
+} from './overlayServer';
 
 interface StreamingOverlayData {
   location?: any;
   items: any[];
   itemCounts: Record<number, number>;
+  itemValues?: Record<number, number>; // item.id -> post-tax value
   sessionStartTime?: string;
+  pausedMs?: number; // Total of completed pauses
+  pausedAt?: string | null; // Start of the pause in progress, if any
+  metrics?: {
+    silverPerHour: number;
+    rollingSilverPerHour: number; // Last 10 minutes of active time
+    projectedTotal: number; // Post-tax total at targetSeconds of active time
+    targetSeconds: number;
+    dropsPerHour: Record<number, number>; // item.id -> drops per hour
+  } | null;
+  widgets?: OverlayWidget[]; // Layout of the user's active overlay preset
+  recentDrops?: LootEvent[]; // Newest first
+  ended?: boolean; // Session has stopped; browser sources keep the totals but stop the clock
 }
 
 let streamingOverlayWindow: BrowserWindow | null = null;
+let lastOverlayData: StreamingOverlayData | null = null; // Replayed when the window is recreated
+let recreatingWindow = false; // Suppresses closed/opened notifications while switching modes
+
+// Always available while the overlay ignores the mouse, so it can't get stuck on top of the game
+export const OVERLAY_INTERACTIVE_SHORTCUT = 'CommandOrControl+Shift+O';
+
+// Keep every app window's browser source controls in sync
+setOverlayServerStatusListener((status: OverlayServerStatus) => {
+  BrowserWindow.getAllWindows().forEach(window => {
+    if (window !== streamingOverlayWindow && !window.isDestroyed()) {
+      window.webContents.send('overlay-server-status', status);
+    }
+  });
+});
+
+// Send to the app window (the one that's not the overlay window)
+const notifyMainWindow = (channel: string, payload?: unknown) => {
+  const mainWindow = BrowserWindow.getAllWindows().find(win => win !== streamingOverlayWindow && !win.isDestroyed());
+  if (mainWindow) {
+    mainWindow.webContents.send(channel, payload);
+  }
+};
+
+// Saved bounds are only reused if they still overlap a connected display
+const getVisibleBounds = (bounds?: OverlayWindowBounds | null): OverlayWindowBounds | null => {
+  if (!bounds) return null;
+  const visible = screen.getAllDisplays().some(({ workArea }) =>
+    bounds.x < workArea.x + workArea.width &&
+    bounds.x + bounds.width > workArea.x &&
+    bounds.y < workArea.y + workArea.height &&
+    bounds.y + bounds.height > workArea.y
+  );
+  return visible ? bounds : null;
+};
+
+const saveOverlayBounds = () => {
+  if (streamingOverlayWindow && !streamingOverlayWindow.isDestroyed()) {
+    overlayWindowSettingsService.update({ bounds: streamingOverlayWindow.getBounds() });
+  }
+};
+
+const setInteractiveShortcut = (enabled: boolean) => {
+  if (globalShortcut.isRegistered(OVERLAY_INTERACTIVE_SHORTCUT)) {
+    globalShortcut.unregister(OVERLAY_INTERACTIVE_SHORTCUT);
+  }
+  if (enabled) {
+    const registered = globalShortcut.register(OVERLAY_INTERACTIVE_SHORTCUT, () => {
+      applyOverlayMode({ click_through: false }).catch(error => {
+        console.error('Error restoring interactive overlay:', error);
+      });
+    });
+    if (!registered) {
+      console.error(`Could not register ${OVERLAY_INTERACTIVE_SHORTCUT} to restore the overlay`);
+    }
+  }
+};
+
+/**
+ * Create the overlay window in the saved mode
+ * - interactive: framed, movable and resizable like a normal window
+ * - click-through: frameless and transparent, mouse events pass through to the game
+ */
+const createStreamingOverlayWindow = async (data: StreamingOverlayData): Promise<void> => {
+  const settings = overlayWindowSettingsService.get();
+  const clickThrough = settings.click_through;
+  const bounds = getVisibleBounds(settings.bounds);
+
+  streamingOverlayWindow = new BrowserWindow({
+    width: bounds?.width || 400,
+    height: bounds?.height || 600,
+    ...(bounds ? { x: bounds.x, y: bounds.y } : {}),
+    frame: !clickThrough,
+    transparent: clickThrough,
+    hasShadow: !clickThrough,
+    alwaysOnTop: true,
+    skipTaskbar: clickThrough,
+    resizable: !clickThrough,
+    movable: !clickThrough,
+    minimizable: !clickThrough,
+    maximizable: !clickThrough,
+    closable: true,
+    focusable: !clickThrough,
+    title: 'BDO Loot Tracker - Streaming Overlay',
+    webPreferences: {
+      nodeIntegration: false,
+      contextIsolation: true,
+      webSecurity: true, // Re-enable web security
+      sandbox: false, // Keep false to allow preload script
+      preload: path.join(__dirname, 'overlayPreload.js'),
+    },
+  });
+  const overlayWindow = streamingOverlayWindow;
+
+  overlayWindow.setOpacity(settings.opacity);
+  if (clickThrough) {
+    // Stay above fullscreen games
+    overlayWindow.setAlwaysOnTop(true, 'screen-saver');
+    overlayWindow.setIgnoreMouseEvents(true);
+  }
+  setInteractiveShortcut(clickThrough);
+
+  // Add focus/blur event listeners to track overlay window focus
+  overlayWindow.on('focus', () => {
+    notifyMainWindow('streaming-overlay-focused');
+  });
+
+  overlayWindow.on('blur', () => {
+    notifyMainWindow('streaming-overlay-blurred');
+  });
+
+  // Remember where the overlay was left
+  overlayWindow.on('moved', saveOverlayBounds);
+  overlayWindow.on('resized', saveOverlayBounds);
+  overlayWindow.on('close', saveOverlayBounds);
+
+  // Load the streaming overlay HTML
+  await overlayWindow.loadFile(path.join(__dirname, 'streamingOverlay.html'), {
+    query: clickThrough ? { mode: 'click-through' } : {},
+  });
+
+  // Wait for both DOM ready and a short delay to ensure the listener is set up
+  let domReadyFired = false;
+  let dataSent = false;
+
+  const sendDataSafely = () => {
+    if (dataSent) return;
+    dataSent = true;
+
+    if (!overlayWindow.isDestroyed()) {
+      overlayWindow.webContents.send('overlay-data', data);
+
+      // Notify main window that overlay is now open
+      if (!recreatingWindow) {
+        notifyMainWindow('streaming-overlay-opened');
+      }
+    }
+  };
+
+  // Send data immediately and also set up event listeners as fallback
+  setTimeout(() => {
+    sendDataSafely();
+  }, 50);
+
+  // Listen for DOM ready event
+  overlayWindow.webContents.once('dom-ready', () => {
+    domReadyFired = true;
+
+    // Add a small delay to ensure JavaScript has executed and listener is set up
+    setTimeout(() => {
+      sendDataSafely();
+    }, 100);
+  });
+
+  // Fallback: also listen for did-finish-load in case dom-ready doesn't work as expected
+  overlayWindow.webContents.once('did-finish-load', () => {
+    // If DOM ready already fired, send immediately with a small delay
+    // Otherwise, wait a bit longer to ensure everything is ready
+    const delay = domReadyFired ? 50 : 200;
+    setTimeout(() => {
+      sendDataSafely();
+    }, delay);
+  });
+
+  // Handle window close
+  overlayWindow.on('closed', () => {
+    if (streamingOverlayWindow === overlayWindow) {
+      streamingOverlayWindow = null;
+      setInteractiveShortcut(false);
+    }
+
+    // Notify main window that overlay was closed
+    if (!recreatingWindow) {
+      notifyMainWindow('streaming-overlay-closed');
+    }
+  });
+};
+
+/**
+ * Save overlay window settings and apply them to the open window
+ * Opacity changes apply in place; switching click-through recreates the
+ * window, since frame and transparency can't change on a live window.
+ */
+const applyOverlayMode = async (changes: Partial<Pick<OverlayWindowSettings, 'click_through' | 'opacity'>>): Promise<OverlayWindowSettings> => {
+  const previous = overlayWindowSettingsService.get();
+  const settings = overlayWindowSettingsService.update(changes);
+
+  if (streamingOverlayWindow && !streamingOverlayWindow.isDestroyed()) {
+    if (settings.click_through !== previous.click_through) {
+      const oldWindow = streamingOverlayWindow;
+      recreatingWindow = true;
+      try {
+        saveOverlayBounds();
+        oldWindow.destroy();
+        await createStreamingOverlayWindow(lastOverlayData || { items: [], itemCounts: {} });
+      } finally {
+        recreatingWindow = false;
+      }
+    } else {
+      streamingOverlayWindow.setOpacity(settings.opacity);
+    }
+  }
+
+  notifyMainWindow('streaming-overlay-mode-changed', settings);
+  return settings;
+};
 
 export const streamingOverlayHandlers = {
   'is-streaming-overlay-open': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; isOpen: boolean; error?: string }> => {
@@ -28,115 +261,8 @@ export const streamingOverlayHandlers = {
         return { success: false, error: 'Streaming overlay is already open' };
       }
 
-      // Create streaming overlay window
-      streamingOverlayWindow = new BrowserWindow({
-        width: 400,
-        height: 600,
-        frame: true,
-        transparent: false,
-        alwaysOnTop: true,
-        skipTaskbar: false,
-        resizable: true,
-        movable: true,
-        minimizable: true,
-        maximizable: true,
-        closable: true,
-        focusable: true,
-        title: 'BDO Loot Tracker - Streaming Overlay',
-        webPreferences: {
-          nodeIntegration: false,
-          contextIsolation: true,
-          webSecurity: true, // Re-enable web security
-          sandbox: false, // Keep false to allow preload script
-          preload: path.join(__dirname, 'overlayPreload.js'),
-        },
-      });
-      
-      // Add focus/blur event listeners to track overlay window focus
-      streamingOverlayWindow.on('focus', () => {
-        // Send focus event to main window
-        const allWindows = BrowserWindow.getAllWindows();
-        const mainWindow = allWindows.find(win => win !== streamingOverlayWindow && !win.isDestroyed());
-        if (mainWindow) {
-          mainWindow.webContents.send('streaming-overlay-focused');
-        }
-      });
-
-      streamingOverlayWindow.on('blur', () => {
-        // Send blur event to main window
-        const allWindows = BrowserWindow.getAllWindows();
-        const mainWindow = allWindows.find(win => win !== streamingOverlayWindow && !win.isDestroyed());
-        if (mainWindow) {
-          mainWindow.webContents.send('streaming-overlay-blurred');
-        }
-      });
-      
-      // Load the streaming overlay HTML
-      await streamingOverlayWindow.loadFile(path.join(__dirname, 'streamingOverlay.html'));
-
-      // Wait for both DOM ready and a short delay to ensure the listener is set up
-      let domReadyFired = false;
-      let dataSent = false;
-
-      const sendDataSafely = () => {
-        if (dataSent) return;
-        dataSent = true;
-        
-        if (streamingOverlayWindow && !streamingOverlayWindow.isDestroyed()) {
-          streamingOverlayWindow.webContents.send('overlay-data', data);
-          
-          // Notify main window that overlay is now open
-          // Get the main window (the one that's not the overlay window)
-          const allWindows = BrowserWindow.getAllWindows();
-          const mainWindow = allWindows.find(win => win !== streamingOverlayWindow && !win.isDestroyed());
-          if (mainWindow) {
-            mainWindow.webContents.send('streaming-overlay-opened');
-          }
-        }
-      };
-
-      // Send data immediately and also set up event listeners as fallback
-      setTimeout(() => {
-        sendDataSafely();
-      }, 50);
-
-      // Listen for DOM ready event
-      streamingOverlayWindow.webContents.once('dom-ready', () => {
-        domReadyFired = true;
-        
-        // Add a small delay to ensure JavaScript has executed and listener is set up
-        setTimeout(() => {
-          sendDataSafely();
-        }, 100);
-      });
-
-      // Fallback: also listen for did-finish-load in case dom-ready doesn't work as expected
-      streamingOverlayWindow.webContents.once('did-finish-load', () => {
-        // If DOM ready already fired, send immediately with a small delay
-        // Otherwise, wait a bit longer to ensure everything is ready
-        const delay = domReadyFired ? 50 : 200;
-        setTimeout(() => {
-          sendDataSafely();
-        }, delay);
-      });
-
-      streamingOverlayWindow.webContents.on('did-stop-loading', () => {
-        // Optional: could add loading completion logic here
-      });
-
-      // Handle window close
-      streamingOverlayWindow.on('closed', () => {
-        streamingOverlayWindow = null;
-        
-        // Notify main window that overlay was closed
-        // Get the main window (the one that's not the overlay window)
-        const allWindows = BrowserWindow.getAllWindows();
-        const mainWindow = allWindows.find(win => win !== streamingOverlayWindow && !win.isDestroyed());
-        if (mainWindow) {
-          mainWindow.webContents.send('streaming-overlay-closed');
-        }
-      });
-
+      lastOverlayData = data;
+      await createStreamingOverlayWindow(data);
       return { success: true };
 
     } catch (error) {
@@ -145,13 +271,37 @@ export const streamingOverlayHandlers = {
     }
   },
 
+  'get-streaming-overlay-mode': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; data?: OverlayWindowSettings; error?: string }> => {
+    try {
+      return { success: true, data: overlayWindowSettingsService.get() };
+    } catch (error) {
+      console.error('Error reading streaming overlay mode:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'set-streaming-overlay-mode': async (event: IpcMainInvokeEvent, changes: Partial<Pick<OverlayWindowSettings, 'click_through' | 'opacity'>>): Promise<{ success: boolean; data?: OverlayWindowSettings; error?: string }> => {
+    try {
+      const settings = await applyOverlayMode(changes);
+      return { success: true, data: settings };
+    } catch (error) {
+      console.error('Error changing streaming overlay mode:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  // Feeds both the overlay window and any connected browser sources
   'update-streaming-overlay': async (event: IpcMainInvokeEvent, data: StreamingOverlayData): Promise<{ success: boolean; error?: string }> => {
     try {
+      lastOverlayData = data;
+      const servedToBrowserSources = broadcastOverlayData(data);
       if (streamingOverlayWindow && !streamingOverlayWindow.isDestroyed()) {
         streamingOverlayWindow.webContents.send('overlay-data', data);
         return { success: true };
+      } else if (servedToBrowserSources) {
+        return { success: true };
       } else {
-        return { success: false, error: 'Streaming overlay window not open' };
+        return { success: false, error: 'Streaming overlay is not open' };
       }
     } catch (error) {
       console.error('Error updating streaming overlay:', error);
@@ -159,6 +309,20 @@ export const streamingOverlayHandlers = {
     }
   },
 
+  // Alerts are one-shot, so there's nothing to send if no overlay is showing
+  'show-rare-drop-alert': async (event: IpcMainInvokeEvent, alert: RareDropAlert): Promise<{ success: boolean; error?: string }> => {
+    try {
+      broadcastRareDrop(alert);
+      if (streamingOverlayWindow && !streamingOverlayWindow.isDestroyed()) {
+        streamingOverlayWindow.webContents.send('overlay-rare-drop', alert);
+      }
+      return { success: true };
+    } catch (error) {
+      console.error('Error sending rare drop alert to overlay:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
   'close-streaming-overlay': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; error?: string }> => {
     try {
       if (streamingOverlayWindow && !streamingOverlayWindow.isDestroyed()) {
@@ -172,6 +336,35 @@ export const streamingOverlayHandlers = {
       console.error('Error closing streaming overlay:', error);
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
+  },
+
+  'start-overlay-server': async (event: IpcMainInvokeEvent, port?: number): Promise<{ success: boolean; data?: OverlayServerStatus; error?: string }> => {
+    try {
+      const status = await startOverlayServer(port);
+      return { success: true, data: status };
+    } catch (error) {
+      console.error('Error starting overlay server:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'stop-overlay-server': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; error?: string }> => {
+    try {
+      await stopOverlayServer();
+      return { success: true };
+    } catch (error) {
+      console.error('Error stopping overlay server:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  },
+
+  'get-overlay-server-status': async (event: IpcMainInvokeEvent): Promise<{ success: boolean; data?: OverlayServerStatus; error?: string }> => {
+    try {
+      return { success: true, data: getOverlayServerStatus() };
+    } catch (error) {
+      console.error('Error checking overlay server status:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
   }
 };
 
@@ -181,4 +374,9 @@ export const cleanupStreamingOverlay = () => {
     streamingOverlayWindow.close();
     streamingOverlayWindow = null;
   }
+  setInteractiveShortcut(false);
+
+  stopOverlayServer().catch(error => {
+    console.error('Error stopping overlay server:', error);
+  });
 };
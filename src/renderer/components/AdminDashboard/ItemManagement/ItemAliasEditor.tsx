@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { ItemAlias } from '../../../types';
+import { ITEM_ALIAS_LANGUAGES, DEFAULT_ALIAS_LANGUAGE } from '../../../constants/languages';
+
+interface ItemAliasEditorProps {
+  bdoItemId: number;
+  aliases: ItemAlias[]; // This item's aliases
+  onChanged: () => Promise<void> | void;
+}
+
+// Alternate names for one BDO item id, shared by all of its regional listings
+const ItemAliasEditor: React.FC<ItemAliasEditorProps> = ({ bdoItemId, aliases, onChanged }) => {
+  const [newAlias, setNewAlias] = useState('');
+  const [newLanguage, setNewLanguage] = useState<string>(DEFAULT_ALIAS_LANGUAGE);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, failure: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await action();
+      if (!result.success) {
+        setError(result.error || failure);
+        return false;
+      }
+      await onChanged();
+      return true;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const alias = newAlias.trim();
+    if (!alias) return;
+
+    if (aliases.some(existing => existing.alias.toLowerCase() === alias.toLowerCase() && existing.language === newLanguage)) {
+      setError(`"${alias}" is already an alias for this item`);
+      return;
+    }
+
+    const added = await run(
+      () => window.electronAPI.itemAliases.create({ bdo_item_id: bdoItemId, alias, language: newLanguage }),
+      'Failed to add alias'
+    );
+    if (added) {
+      setNewAlias('');
+    }
+  };
+
+  return (
+    <div className="item-alias-editor">
+      {aliases.length === 0 ? (
+        <p className="item-alias-empty">No aliases yet.</p>
+      ) : (
+        <ul className="item-alias-list">
+          {aliases.map(alias => (
+            <li key={alias.id} className="item-alias-row">
+              <span className="item-alias-name">{alias.alias}</span>
+              <select
+                value={alias.language}
+                onChange={(e) =>
+                  run(() => window.electronAPI.itemAliases.update(alias.id, { language: e.target.value }), 'Failed to update alias')
+                }
+                disabled={busy}
+                aria-label={`Language of ${alias.alias}`}
+              >
+                {ITEM_ALIAS_LANGUAGES.map(language => (
+                  <option key={language.value} value={language.value}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                className="btn btn-small btn-warning"
+                onClick={() => run(() => window.electronAPI.itemAliases.delete(alias.id), 'Failed to remove alias')}
+                disabled={busy}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="item-alias-add" onSubmit={handleAdd}>
+        <input
+          type="text"
+          value={newAlias}
+          onChange={(e) => setNewAlias(e.target.value)}
+          placeholder='Alias (e.g. "BS: Armor" or a localized name)'
+          disabled={busy}
+        />
+        <select
+          value={newLanguage}
+          onChange={(e) => setNewLanguage(e.target.value)}
+          disabled={busy}
+          aria-label="Alias language"
+        >
+          {ITEM_ALIAS_LANGUAGES.map(language => (
+            <option key={language.value} value={language.value}>
+              {language.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="btn btn-small btn-primary" disabled={busy || !newAlias.trim()}>
+          Add
+        </button>
+      </form>
+
+      {error && <div className="upload-error">{error}</div>}
+    </div>
+  );
+};
+
+export default ItemAliasEditor;
@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import './ItemManagement.css';
-import { Item, ItemType } from '../../../types';
+import { Item, ItemAlias, ItemType } from '../../../types';
 import ImageUpload from '../../ImageUpload';
 import { ProcessedImage } from '../../../utils/imageUtils';
+import { groupAliasesByBdoItemId, itemMatchesSearch } from '../../../utils/itemAliases';
 import { useModal } from '../../../contexts/ModalContext';
 import { useConfirmation } from '../../../utils/modalHelpers';
 import Modal from '../../Modal/Modal';
+import ItemAliasEditor from './ItemAliasEditor';
 
 const REGIONS = ['NA', 'EU', 'SEA', 'MENA', 'KR', 'RU', 'JP', 'TH', 'TW', 'SA'];
 
@@ -52,11 +54,29 @@ const ItemManagement: React.FC = () => {
   const [bulkEditingBdoItemId, setBulkEditingBdoItemId] = useState<number | null>(null);
   const [bulkEditItems, setBulkEditItems] = useState<Item[]>([]);
   const [showSimpleModal, setShowSimpleModal] = useState(false);
+  const [aliases, setAliases] = useState<ItemAlias[]>([]);
+  const [aliasEditingItem, setAliasEditingItem] = useState<Item | null>(null);
 
   useEffect(() => {
     loadItems();
+    loadAliases();
   }, []);
 
+  const loadAliases = async () => {
+    try {
+      const result = await window.electronAPI.itemAliases.getAll();
+      if (result.success) {
+        setAliases(result.data || []);
+      } else {
+        console.error('Failed to load item aliases:', result.error);
+      }
+    } catch (error) {
+      console.error('Error loading item aliases:', error);
+    }
+  };
+
+  const aliasesByBdoItemId = useMemo(() => groupAliasesByBdoItemId(aliases), [aliases]);
+
   const loadItems = async () => {
     try {
       setLoading(true);
@@ -92,13 +112,9 @@ const ItemManagement: React.FC = () => {
       filtered = filtered.filter(item => item.region === selectedRegion);
     }
 
-    // Search by name or BDO item ID
+    // Search by name, alias or BDO item ID
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(item => 
-        item.name.toLowerCase().includes(query) ||
-        item.bdo_item_id.toString().includes(query)
-      );
+      filtered = filtered.filter(item => itemMatchesSearch(item, searchQuery, aliasesByBdoItemId));
     }
 
     // Sort the filtered results
@@ -129,7 +145,7 @@ const ItemManagement: React.FC = () => {
     });
 
     return filtered;
-  }, [items, showArchived, searchQuery, sortField, sortDirection, selectedRegion]);
+  }, [items, showArchived, searchQuery, sortField, sortDirection, selectedRegion, aliasesByBdoItemId]);
 
   // Group items by bdo_item_id for hierarchical display (only when viewing all regions)
   const groupedItems = useMemo(() => {
@@ -968,6 +984,12 @@ const ItemManagement: React.FC = () => {
     }
   };
 
+  const renderAliasNames = (bdoItemId: number) => {
+    const names = aliasesByBdoItemId.get(bdoItemId);
+    if (!names || names.length === 0) return null;
+    return <div className="item-alias-names">aka {names.join(', ')}</div>;
+  };
+
   const getSortIcon = (field: keyof Item) => {
     if (sortField !== field) {
       return '⇅'; // Double arrow when not sorted
@@ -1057,7 +1079,7 @@ const ItemManagement: React.FC = () => {
           <input
             type="text"
             className="search-input"
-            placeholder="Search items by name or BDO ID..."
+            placeholder="Search items by name, alias or BDO ID..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
           />
@@ -1138,6 +1160,7 @@ const ItemManagement: React.FC = () => {
                             )}
                             <span>{representativeItem.name}</span>
                           </div>
+                          {renderAliasNames(bdoItemId)}
                         </td>
                         <td>{representativeItem.bdo_item_id}</td>
                         <td>
@@ -1165,6 +1188,13 @@ const ItemManagement: React.FC = () => {
                               </button>
                             ) : (
                               <>
+                                <button
+                                  className="btn btn-small btn-secondary"
+                                  onClick={() => setAliasEditingItem(representativeItem)}
+                                  title="Edit alternate names for this item"
+                                >
+                                  Aliases
+                                </button>
                                 {hasMultipleRegions && (
                                   <button
                                     className="btn btn-small btn-primary"
@@ -1271,7 +1301,10 @@ const ItemManagement: React.FC = () => {
                         )}
                       </div>
                     </td>
-                    <td className="item-name">{item.name}</td>
+                    <td className="item-name">
+                      {item.name}
+                      {renderAliasNames(item.bdo_item_id)}
+                    </td>
                     <td>{item.bdo_item_id}</td>
                     <td>
                       <span className={`region-badge region-${item.region?.toLowerCase() || 'global'}`}>
@@ -1291,6 +1324,13 @@ const ItemManagement: React.FC = () => {
                           </button>
                         ) : (
                           <>
+                            <button
+                              className="btn btn-small btn-secondary"
+                              onClick={() => setAliasEditingItem(item)}
+                              title="Edit alternate names for this item"
+                            >
+                              Aliases
+                            </button>
                             {/* Only show Edit button for trash loot and convertible items */}
                             {(item.type === 'trash_loot' || item.type === 'conversion') && (
                               <button
@@ -1476,6 +1516,27 @@ const ItemManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Alias Modal */}
+      <Modal
+        isOpen={!!aliasEditingItem}
+        onClose={() => setAliasEditingItem(null)}
+        title={`Aliases: ${aliasEditingItem?.name || ''}`}
+      >
+        {aliasEditingItem && (
+          <>
+            <p className="item-alias-help">
+              Other names for BDO item {aliasEditingItem.bdo_item_id} in every region: names from other client
+              languages or abbreviations players use. Loot detection, session import and item search all match them.
+            </p>
+            <ItemAliasEditor
+              bdoItemId={aliasEditingItem.bdo_item_id}
+              aliases={aliases.filter(alias => alias.bdo_item_id === aliasEditingItem.bdo_item_id)}
+              onChanged={loadAliases}
+            />
+          </>
+        )}
+      </Modal>
+
       {/* Simple Modal for Add/Edit Item */}
       <Modal
         isOpen={showSimpleModal}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { LootTable, Location, Item } from '../../../types';
 import { SearchableSelect } from '../../SearchableSelect';
+import { AliasesByBdoItemId, groupAliasesByBdoItemId, itemMatchesSearch } from '../../../utils/itemAliases';
 import Modal from '../../Modal/Modal';
 import LocationSelector from './LocationSelector';
 import './LootTableManagement.css';
@@ -19,6 +20,7 @@ export default function LootTableManagement({}: LootTableManagementProps) {
   const [availableItems, setAvailableItems] = useState<Item[]>([]);
   const [selectedItemId, setSelectedItemId] = useState<number | null>(null);
   const [stagedItems, setStagedItems] = useState<Item[]>([]);
+  const [aliasesByBdoItemId, setAliasesByBdoItemId] = useState<AliasesByBdoItemId>(new Map());
 
   const loadData = async () => {
     try {
@@ -26,10 +28,11 @@ export default function LootTableManagement({}: LootTableManagementProps) {
       setError(null);
 
       // Load active locations, loot tables, and items
-      const [locationsResult, lootTablesResult, itemsResult] = await Promise.all([
+      const [locationsResult, lootTablesResult, itemsResult, aliasesResult] = await Promise.all([
         window.electronAPI.locations.getActive(),
         window.electronAPI.lootTables.getAll(),
-        window.electronAPI.items.getActive()
+        window.electronAPI.items.getActive(),
+        window.electronAPI.itemAliases.getAll()
       ]);
 
       if (!locationsResult.success) {
@@ -45,6 +48,8 @@ export default function LootTableManagement({}: LootTableManagementProps) {
       setLocations(locationsResult.data || []);
       setLootTables(lootTablesResult.data || []);
       setItems(itemsResult.data || []);
+      // Aliases only widen item search, so loading without them is fine
+      setAliasesByBdoItemId(groupAliasesByBdoItemId(aliasesResult.data || []));
 
     } catch (err) {
       console.error('Error loading data:', err);
@@ -318,14 +323,10 @@ export default function LootTableManagement({}: LootTableManagementProps) {
                   primary: item.name,
                   secondary: `ID: ${item.bdo_item_id} • ${item.type} • ${item.base_price.toLocaleString()} silver`
                 })}
-                searchFunction={(item, searchTerm) => {
-                  const term = searchTerm.toLowerCase();
-                  return (
-                    item.name.toLowerCase().includes(term) ||
-                    item.type.toLowerCase().includes(term) ||
-                    item.bdo_item_id.toString().includes(term)
-                  );
-                }}
+                searchFunction={(item, searchTerm) =>
+                  itemMatchesSearch(item, searchTerm, aliasesByBdoItemId) ||
+                  item.type.toLowerCase().includes(searchTerm.toLowerCase())
+                }
               />
             </div>
           </div>
@@ -6,6 +6,7 @@ import {
 } from "../../utils/avatarUtils";
 import { UserSettingsModal } from "../UserSettingsModal";
 import { SessionControl } from "../SessionControl";
+import { SessionHistory } from "../SessionHistory";
 import { DEFAULT_REGION } from "../../constants/regions";
 import AdminDashboard from "../AdminDashboard";
 import "./Dashboard.css";
@@ -24,6 +25,9 @@ export default function Dashboard({ onLogout }: DashboardProps) {
     "ocr" | null
   >(null);
   const [updatingPreferences, setUpdatingPreferences] = useState(false);
+  const [activeView, setActiveView] = useState<"session" | "history">(
+    "session"
+  );
 
   const loadUserData = useCallback(async () => {
     try {
@@ -219,7 +223,26 @@ export default function Dashboard({ onLogout }: DashboardProps) {
           <p>Automatically track your loot drops during grinding sessions</p>
         </div>
 
-        <div className='main-session-area'>
+        <div className='dashboard-tabs'>
+          <button
+            onClick={() => setActiveView("session")}
+            className={`dashboard-tab ${activeView === "session" ? "active" : ""}`}
+          >
+            Session
+          </button>
+          <button
+            onClick={() => setActiveView("history")}
+            className={`dashboard-tab ${activeView === "history" ? "active" : ""}`}
+          >
+            History
+          </button>
+        </div>
+
+        {/* Keep the session mounted while viewing history so an active session isn't lost */}
+        <div
+          className='main-session-area'
+          style={{ display: activeView === "session" ? undefined : "none" }}
+        >
           {user?.preferences && (
             <SessionControl
               userPreferences={user.preferences}
@@ -230,6 +253,12 @@ export default function Dashboard({ onLogout }: DashboardProps) {
             />
           )}
         </div>
+
+        {activeView === "history" && user?.preferences && (
+          <div className='main-session-area history-area'>
+            <SessionHistory userPreferences={user.preferences} />
+          </div>
+        )}
       </main>
 
       {/* User Settings Modal */}
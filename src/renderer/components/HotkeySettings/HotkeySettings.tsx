@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { HotkeyAction } from '../../types';
+import { DEFAULT_HOTKEYS, HOTKEY_ACTIONS } from '../../constants/hotkeys';
+import { findHotkeyConflicts, formatAccelerator, keyEventToAccelerator } from '../../utils/hotkeys';
+import './HotkeySettings.css';
+
+interface HotkeySettingsProps {
+  bindings: Record<HotkeyAction, string | null>;
+  onChange: (bindings: Record<HotkeyAction, string | null>) => void;
+  onUnavailableChange?: (actions: HotkeyAction[]) => void; // Shortcuts another application holds
+  disabled?: boolean;
+}
+
+// Rebind the global session shortcuts; a row records the next key combination pressed
+export const HotkeySettings: React.FC<HotkeySettingsProps> = ({
+  bindings,
+  onChange,
+  onUnavailableChange,
+  disabled = false
+}) => {
+  const [recording, setRecording] = useState<HotkeyAction | null>(null);
+  const [unavailable, setUnavailable] = useState<HotkeyAction[]>([]);
+
+  const conflicts = findHotkeyConflicts(bindings);
+
+  useEffect(() => {
+    onUnavailableChange?.(unavailable);
+  }, [unavailable]);
+
+  const updateUnavailable = (action: HotkeyAction, isUnavailable: boolean) => {
+    setUnavailable(prev => {
+      const next = prev.filter(entry => entry !== action);
+      return isUnavailable ? [...next, action] : next;
+    });
+  };
+
+  const setBinding = async (action: HotkeyAction, accelerator: string | null) => {
+    onChange({ ...bindings, [action]: accelerator });
+    updateUnavailable(action, false);
+    if (!accelerator) return;
+
+    try {
+      const result = await window.electronAPI.hotkeys.check(accelerator);
+      if (result.success && result.data) {
+        updateUnavailable(action, !result.data.available);
+      }
+    } catch (error) {
+      console.error('Error checking hotkey:', error);
+    }
+  };
+
+  // The current shortcuts are released while recording, so any combination can be captured
+  useEffect(() => {
+    if (!recording) return;
+
+    window.electronAPI.hotkeys.setSuspended(true).catch(error => {
+      console.error('Error suspending hotkeys:', error);
+    });
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.code === 'Escape') {
+        setRecording(null);
+        return;
+      }
+
+      const accelerator = keyEventToAccelerator(event);
+      if (accelerator) {
+        setBinding(recording, accelerator);
+        setRecording(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.electronAPI.hotkeys.setSuspended(false).catch(error => {
+        console.error('Error resuming hotkeys:', error);
+      });
+    };
+  }, [recording]);
+
+  const handleRestoreDefaults = () => {
+    setRecording(null);
+    setUnavailable([]);
+    onChange({ ...DEFAULT_HOTKEYS });
+  };
+
+  return (
+    <div className="hotkey-settings">
+      <ul className="hotkey-list">
+        {HOTKEY_ACTIONS.map(({ value, label }) => {
+          const problem = conflicts[value] ||
+            (unavailable.includes(value) ? 'In use by another application' : null);
+          return (
+            <li key={value} className={`hotkey-row ${problem ? 'has-conflict' : ''}`}>
+              <span className="hotkey-label">{label}</span>
+              <button
+                className={`hotkey-binding ${recording === value ? 'recording' : ''}`}
+                onClick={() => setRecording(recording === value ? null : value)}
+                disabled={disabled}
+                title="Click, then press the new key combination (Esc cancels)"
+              >
+                {recording === value ? 'Press keys...' : formatAccelerator(bindings[value])}
+              </button>
+              <button
+                className="hotkey-clear"
+                onClick={() => setBinding(value, null)}
+                disabled={disabled || !bindings[value]}
+                title="Unbind"
+              >
+                Clear
+              </button>
+              {problem && <span className="hotkey-conflict">{problem}</span>}
+            </li>
+          );
+        })}
+      </ul>
+      <button className="hotkey-restore" onClick={handleRestoreDefaults} disabled={disabled}>
+        Restore Defaults
+      </button>
+    </div>
+  );
+};
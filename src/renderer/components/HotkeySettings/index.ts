@@ -0,0 +1 @@
+export { HotkeySettings } from "./HotkeySettings";
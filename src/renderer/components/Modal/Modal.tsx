@@ -59,7 +59,7 @@ interface ConfirmationModalProps {
 }
 
 const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ data }) => {
-  const { title, message, confirmText = 'Confirm', cancelText = 'Cancel', onConfirm, onClose, isDestructive = false } = data;
+  const { title, message, confirmText = 'Confirm', cancelText = 'Cancel', onConfirm, onCancel, onClose, isDestructive = false } = data;
 
   const handleBackdropClick = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
@@ -77,7 +77,7 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({ data }) => {
         <div className="modal-body">
           <p style={{ color: '#cdd6f4', marginBottom: '24px' }}>{message}</p>
           <div className="form-actions">
-            <button type="button" className="btn-secondary" onClick={onClose}>
+            <button type="button" className="btn-secondary" onClick={onCancel || onClose}>
               {cancelText}
             </button>
             <button 
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Item, OcrPreprocessing, OcrPreviewLine, UserPreferences } from '../../types';
+import { DEFAULT_OCR_PREPROCESSING, OCR_PREPROCESSING_LIMITS, OCR_PREVIEW_INTERVAL_MS } from '../../constants/ocr';
+import './OcrCalibration.css';
+
+interface OcrCalibrationProps {
+  region: NonNullable<UserPreferences['designated_ocr_region']>;
+  preprocessing: OcrPreprocessing;
+  preferredRegion: string;
+  onChange: (preprocessing: OcrPreprocessing) => void;
+  disabled?: boolean;
+}
+
+// Live preview of the OCR region plus a test recognition pass, used to tune preprocessing
+export const OcrCalibration: React.FC<OcrCalibrationProps> = ({
+  region,
+  preprocessing,
+  preferredRegion,
+  onChange,
+  disabled = false
+}) => {
+  const [preview, setPreview] = useState<{ image: string; processedImage: string } | null>(null);
+  const [showProcessed, setShowProcessed] = useState(true);
+  const [lines, setLines] = useState<OcrPreviewLine[] | null>(null);
+  const [testing, setTesting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [items, setItems] = useState<Item[] | null>(null);
+
+  // Latest settings for the preview timer, and a guard so captures never overlap
+  const settingsRef = useRef({ region, preprocessing });
+  const capturingRef = useRef(false);
+  settingsRef.current = { region, preprocessing };
+
+  // Live preview while the wizard is open
+  useEffect(() => {
+    let cancelled = false;
+
+    const capture = async () => {
+      if (capturingRef.current) return;
+      capturingRef.current = true;
+      try {
+        const result = await window.electronAPI.lootDetection.preview({
+          region: settingsRef.current.region,
+          preprocessing: settingsRef.current.preprocessing
+        });
+        if (cancelled) return;
+        if (result.success && result.data) {
+          setPreview({ image: result.data.image, processedImage: result.data.processedImage });
+          setError(null);
+        } else {
+          setError(result.error || 'Could not capture the region');
+        }
+      } catch (err) {
+        console.error('Error capturing OCR preview:', err);
+      } finally {
+        capturingRef.current = false;
+      }
+    };
+
+    capture();
+    const interval = setInterval(capture, OCR_PREVIEW_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const handleTestRecognition = async () => {
+    try {
+      setTesting(true);
+      setError(null);
+
+      // Match against every active item, since settings aren't tied to a location
+      let activeItems = items;
+      if (!activeItems) {
+        const itemsResult = await window.electronAPI.items.getActive();
+        activeItems = itemsResult.success && itemsResult.data ? itemsResult.data : [];
+        setItems(activeItems);
+      }
+
+      // Marketplace items exist once per region; keep one per BDO item like a
+      // session's loot table, or the copies tie with each other
+      const byBdoItemId = new Map<number, Item>();
+      activeItems.forEach(item => {
+        const current = byBdoItemId.get(item.bdo_item_id);
+        if (!current || (current.region !== preferredRegion && (item.region === preferredRegion || item.region === null))) {
+          byBdoItemId.set(item.bdo_item_id, item);
+        }
+      });
+      const matchItems = Array.from(byBdoItemId.values());
+
+      const result = await window.electronAPI.lootDetection.preview({
+        region,
+        preprocessing,
+        items: matchItems.map(item => ({ id: item.id, name: item.name, bdo_item_id: item.bdo_item_id })),
+        recognize: true
+      });
+
+      if (result.success && result.data) {
+        setPreview({ image: result.data.image, processedImage: result.data.processedImage });
+        setLines(result.data.lines || []);
+      } else {
+        setError(result.error || 'Test recognition failed');
+      }
+    } catch (err) {
+      console.error('Error running test recognition:', err);
+      setError('Test recognition failed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const update = (changes: Partial<OcrPreprocessing>) => {
+    onChange({ ...preprocessing, ...changes });
+  };
+
+  const describeMatch = (line: OcrPreviewLine): string => {
+    if (!line.match) return 'Not a loot line';
+    if (line.match.match) {
+      return `${line.match.match.itemName} ×${line.match.quantity} (${Math.round(line.match.match.score * 100)}%)`;
+    }
+    if (line.match.candidates.length === 0) return `No item like "${line.match.itemName}"`;
+    return `Unsure: ${line.match.candidates
+      .slice(0, 3)
+      .map(candidate => `${candidate.itemName} (${Math.round(candidate.score * 100)}%)`)
+      .join(', ')}`;
+  };
+
+  return (
+    <div className="ocr-calibration">
+      <div className="ocr-calibration-preview">
+        {preview ? (
+          <img
+            src={showProcessed ? preview.processedImage : preview.image}
+            alt={showProcessed ? 'Region as the text recognizer sees it' : 'Captured region'}
+          />
+        ) : (
+          <span className="ocr-calibration-placeholder">Capturing region...</span>
+        )}
+      </div>
+
+      <label className="ocr-calibration-toggle">
+        <input
+          type="checkbox"
+          checked={showProcessed}
+          onChange={(e) => setShowProcessed(e.target.checked)}
+        />
+        Show processed image
+      </label>
+
+      <div className="ocr-calibration-controls">
+        <label className="ocr-calibration-slider">
+          <span>Scale: {preprocessing.scale}×</span>
+          <input
+            type="range"
+            min={OCR_PREPROCESSING_LIMITS.scale.min}
+            max={OCR_PREPROCESSING_LIMITS.scale.max}
+            step={OCR_PREPROCESSING_LIMITS.scale.step}
+            value={preprocessing.scale}
+            onChange={(e) => update({ scale: parseFloat(e.target.value) })}
+            disabled={disabled}
+          />
+        </label>
+
+        <label className="ocr-calibration-slider">
+          <span>Contrast: {preprocessing.contrast.toFixed(1)}</span>
+          <input
+            type="range"
+            min={OCR_PREPROCESSING_LIMITS.contrast.min}
+            max={OCR_PREPROCESSING_LIMITS.contrast.max}
+            step={OCR_PREPROCESSING_LIMITS.contrast.step}
+            value={preprocessing.contrast}
+            onChange={(e) => update({ contrast: parseFloat(e.target.value) })}
+            disabled={disabled}
+          />
+        </label>
+
+        <label className="ocr-calibration-slider">
+          <span>
+            <input
+              type="checkbox"
+              checked={preprocessing.threshold !== null}
+              onChange={(e) =>
+                update({ threshold: e.target.checked ? OCR_PREPROCESSING_LIMITS.threshold.default : null })
+              }
+              disabled={disabled}
+            />
+            Threshold{preprocessing.threshold !== null ? `: ${preprocessing.threshold}` : ' (off)'}
+          </span>
+          <input
+            type="range"
+            min={OCR_PREPROCESSING_LIMITS.threshold.min}
+            max={OCR_PREPROCESSING_LIMITS.threshold.max}
+            step={OCR_PREPROCESSING_LIMITS.threshold.step}
+            value={preprocessing.threshold ?? OCR_PREPROCESSING_LIMITS.threshold.default}
+            onChange={(e) => update({ threshold: parseInt(e.target.value, 10) })}
+            disabled={disabled || preprocessing.threshold === null}
+          />
+        </label>
+      </div>
+
+      <div className="ocr-calibration-actions">
+        <button
+          className="select-region-button"
+          onClick={handleTestRecognition}
+          disabled={disabled || testing}
+        >
+          {testing ? 'Recognizing...' : 'Test Recognition'}
+        </button>
+        <button
+          className="clear-region-button"
+          onClick={() => onChange(DEFAULT_OCR_PREPROCESSING)}
+          disabled={disabled}
+        >
+          Reset to Defaults
+        </button>
+      </div>
+
+      {error && <p className="ocr-calibration-error">{error}</p>}
+
+      {lines && (
+        <div className="ocr-calibration-results">
+          {lines.length === 0 ? (
+            <p className="ocr-calibration-empty">No text recognized. Try a larger scale or a threshold.</p>
+          ) : (
+            <table>
+              <thead>
+                <tr>
+                  <th>Recognized line</th>
+                  <th>Read as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => (
+                  <tr key={index} className={line.match?.match ? 'matched' : line.match ? 'unsure' : ''}>
+                    <td>
+                      {line.text}
+                      <span className="ocr-line-confidence">{Math.round(line.confidence)}%</span>
+                    </td>
+                    <td>{describeMatch(line)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { OcrCalibration } from "./OcrCalibration";
@@ -0,0 +1,302 @@
+import React, { useState } from "react";
+import { OverlaySettings, OverlayWidget, OverlayWidgetType } from "../../types";
+import {
+  DEFAULT_OVERLAY_SETTINGS,
+  OVERLAY_CANVAS,
+  OVERLAY_FONTS,
+  OVERLAY_FONT_SIZE_LIMITS,
+  OVERLAY_MAX_LIST_ITEMS,
+  OVERLAY_WIDGET_TYPES,
+} from "../../constants/overlay";
+import { getActiveOverlayPreset, OverlayPreviewData } from "../../utils/overlayLayout";
+import { OverlayPreview } from "./OverlayPreview";
+import "./OverlayLayout.css";
+
+// Preview is drawn at this fraction of the real overlay size
+const PREVIEW_SCALE = 0.6;
+
+interface OverlayLayoutEditorProps {
+  settings: OverlaySettings;
+  previewData: OverlayPreviewData;
+  onSave: (settings: OverlaySettings) => Promise<{ success: boolean; error?: string }>;
+  onClose: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Edit the widgets of each overlay preset and pick which preset is live
+export const OverlayLayoutEditor: React.FC<OverlayLayoutEditorProps> = ({
+  settings,
+  previewData,
+  onSave,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<OverlaySettings>(settings);
+  const [selectedType, setSelectedType] = useState<OverlayWidgetType>(OVERLAY_WIDGET_TYPES[0].value);
+  const [newPresetName, setNewPresetName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activePreset = getActiveOverlayPreset(draft);
+  const selectedWidget = activePreset.widgets.find(widget => widget.type === selectedType);
+
+  const updateWidget = (type: OverlayWidgetType, changes: Partial<OverlayWidget>) => {
+    setDraft(prev => ({
+      ...prev,
+      presets: prev.presets.map(preset =>
+        preset.name === activePreset.name
+          ? {
+              ...preset,
+              widgets: preset.widgets.map(widget => (widget.type === type ? { ...widget, ...changes } : widget)),
+            }
+          : preset
+      ),
+    }));
+  };
+
+  const handleNumberChange = (field: "x" | "y" | "width", value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || !selectedWidget) return;
+    const max = field === "y" ? OVERLAY_CANVAS.height : OVERLAY_CANVAS.width;
+    updateWidget(selectedWidget.type, { [field]: clamp(parsed, 0, max) });
+  };
+
+  const handleSaveAsPreset = () => {
+    const name = newPresetName.trim();
+    if (!name) return;
+    if (draft.presets.some(preset => preset.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A preset named "${name}" already exists`);
+      return;
+    }
+
+    setError(null);
+    setDraft(prev => ({
+      active_preset: name,
+      presets: [...prev.presets, { name, widgets: activePreset.widgets }],
+    }));
+    setNewPresetName("");
+  };
+
+  const handleDeletePreset = () => {
+    if (draft.presets.length <= 1) return;
+    const remaining = draft.presets.filter(preset => preset.name !== activePreset.name);
+    setDraft({ active_preset: remaining[0].name, presets: remaining });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const result = await onSave(draft);
+      if (!result.success) {
+        setError(result.error || "Failed to save overlay layout");
+        return;
+      }
+      onClose();
+    } catch (err) {
+      console.error("Error saving overlay layout:", err);
+      setError("Failed to save overlay layout");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className='overlay-layout-editor'>
+      <div className='overlay-layout-controls'>
+        <div className='overlay-layout-section'>
+          <label className='overlay-layout-label' htmlFor='overlay-preset'>
+            Preset
+          </label>
+          <div className='overlay-layout-row'>
+            <select
+              id='overlay-preset'
+              value={activePreset.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, active_preset: e.target.value }))}
+            >
+              {draft.presets.map(preset => (
+                <option key={preset.name} value={preset.name}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleDeletePreset}
+              className='overlay-layout-button danger'
+              disabled={draft.presets.length <= 1}
+              title='Delete this preset'
+            >
+              Delete
+            </button>
+          </div>
+          <div className='overlay-layout-row'>
+            <input
+              type='text'
+              value={newPresetName}
+              onChange={(e) => setNewPresetName(e.target.value)}
+              placeholder='New preset name'
+              aria-label='New preset name'
+            />
+            <button
+              onClick={handleSaveAsPreset}
+              className='overlay-layout-button'
+              disabled={!newPresetName.trim()}
+              title='Copy this layout into a new preset'
+            >
+              Save As
+            </button>
+          </div>
+        </div>
+
+        <div className='overlay-layout-section'>
+          <span className='overlay-layout-label'>Widgets</span>
+          <ul className='overlay-widget-list'>
+            {OVERLAY_WIDGET_TYPES.map(({ value, label }) => {
+              const widget = activePreset.widgets.find(entry => entry.type === value);
+              if (!widget) return null;
+              return (
+                <li
+                  key={value}
+                  className={`overlay-widget-row ${selectedType === value ? "selected" : ""}`}
+                  onClick={() => setSelectedType(value)}
+                >
+                  <input
+                    type='checkbox'
+                    checked={widget.visible}
+                    onChange={(e) => updateWidget(value, { visible: e.target.checked })}
+                    onClick={(e) => e.stopPropagation()}
+                    aria-label={`Show ${label}`}
+                  />
+                  <span>{label}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+
+        {selectedWidget && (
+          <div className='overlay-layout-section overlay-widget-settings'>
+            <span className='overlay-layout-label'>
+              {OVERLAY_WIDGET_TYPES.find(type => type.value === selectedWidget.type)?.label}
+            </span>
+            <div className='overlay-layout-grid'>
+              <label>
+                X
+                <input type='number' value={selectedWidget.x} onChange={(e) => handleNumberChange("x", e.target.value)} />
+              </label>
+              <label>
+                Y
+                <input type='number' value={selectedWidget.y} onChange={(e) => handleNumberChange("y", e.target.value)} />
+              </label>
+              <label>
+                Width
+                <input
+                  type='number'
+                  value={selectedWidget.width}
+                  onChange={(e) => handleNumberChange("width", e.target.value)}
+                />
+              </label>
+              <label>
+                Font size
+                <input
+                  type='number'
+                  min={OVERLAY_FONT_SIZE_LIMITS.min}
+                  max={OVERLAY_FONT_SIZE_LIMITS.max}
+                  value={selectedWidget.font_size}
+                  onChange={(e) => {
+                    const size = parseInt(e.target.value, 10);
+                    if (!isNaN(size)) {
+                      updateWidget(selectedWidget.type, {
+                        font_size: clamp(size, OVERLAY_FONT_SIZE_LIMITS.min, OVERLAY_FONT_SIZE_LIMITS.max),
+                      });
+                    }
+                  }}
+                />
+              </label>
+              <label className='wide'>
+                Font
+                <select
+                  value={selectedWidget.font_family}
+                  onChange={(e) => updateWidget(selectedWidget.type, { font_family: e.target.value })}
+                >
+                  {OVERLAY_FONTS.map(font => (
+                    <option key={font.value} value={font.value}>
+                      {font.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Text color
+                <input
+                  type='color'
+                  value={selectedWidget.text_color}
+                  onChange={(e) => updateWidget(selectedWidget.type, { text_color: e.target.value })}
+                />
+              </label>
+              <label>
+                Background
+                <input
+                  type='text'
+                  value={selectedWidget.background_color}
+                  onChange={(e) => updateWidget(selectedWidget.type, { background_color: e.target.value })}
+                  placeholder='transparent'
+                  title='Any CSS color, e.g. rgba(0, 0, 0, 0.6) or transparent'
+                />
+              </label>
+              {(selectedWidget.type === "top_drops" || selectedWidget.type === "recent_drops") && (
+                <label>
+                  Items shown
+                  <input
+                    type='number'
+                    min={1}
+                    max={OVERLAY_MAX_LIST_ITEMS}
+                    value={selectedWidget.max_items || 5}
+                    onChange={(e) => {
+                      const count = parseInt(e.target.value, 10);
+                      if (!isNaN(count)) {
+                        updateWidget(selectedWidget.type, { max_items: clamp(count, 1, OVERLAY_MAX_LIST_ITEMS) });
+                      }
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        )}
+
+        {error && <div className='overlay-layout-error'>{error}</div>}
+
+        <div className='overlay-layout-actions'>
+          <button
+            onClick={() => setDraft(DEFAULT_OVERLAY_SETTINGS)}
+            className='overlay-layout-button'
+            disabled={saving}
+            title='Replace all presets with the built-in ones'
+          >
+            Restore Defaults
+          </button>
+          <div className='overlay-layout-actions-right'>
+            <button onClick={onClose} className='overlay-layout-button' disabled={saving}>
+              Cancel
+            </button>
+            <button onClick={handleSave} className='overlay-layout-button primary' disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className='overlay-layout-preview'>
+        <span className='overlay-layout-label'>Preview</span>
+        <OverlayPreview
+          widgets={activePreset.widgets}
+          data={previewData}
+          scale={PREVIEW_SCALE}
+          selectedType={selectedType}
+          onSelect={setSelectedType}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React from "react";
+import { OverlayWidget, OverlayWidgetType } from "../../types";
+import { OVERLAY_CANVAS } from "../../constants/overlay";
+import { formatDuration } from "../../utils/sessionUtils";
+import { getTopDrops, OverlayPreviewData } from "../../utils/overlayLayout";
+
+// Same labels the overlay window uses (overlay.js)
+const WIDGET_LABELS: Record<OverlayWidgetType, string> = {
+  timer: "Session",
+  total_silver: "Total Silver",
+  silver_per_hour: "Silver / Hour",
+  top_drops: "Top Drops",
+  recent_drops: "Recent Drops",
+  tax_breakdown: "Tax",
+};
+
+interface OverlayPreviewProps {
+  widgets: OverlayWidget[];
+  data: OverlayPreviewData;
+  scale?: number;
+  selectedType?: OverlayWidgetType | null;
+  onSelect?: (type: OverlayWidgetType) => void;
+}
+
+const WidgetList: React.FC<{ rows: [string, string][] }> = ({ rows }) =>
+  rows.length === 0 ? (
+    <div className='widget-empty'>No drops yet</div>
+  ) : (
+    <ul className='widget-list'>
+      {rows.map(([name, value], index) => (
+        <li key={index}>
+          <span className='widget-list-name'>{name}</span>
+          <span className='widget-list-value'>{value}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+const WidgetContent: React.FC<{ widget: OverlayWidget; data: OverlayPreviewData }> = ({ widget, data }) => {
+  const limit = widget.max_items || 5;
+
+  switch (widget.type) {
+    case "timer":
+      return (
+        <>
+          <div className={`widget-value ${data.paused ? "paused" : ""}`}>{formatDuration(data.activeSeconds)}</div>
+          <div className='widget-sub'>
+            {data.paused ? "Paused · " : ""}
+            {formatDuration(data.wallClockSeconds)} total
+          </div>
+        </>
+      );
+
+    case "total_silver":
+      return (
+        <>
+          <div className='widget-value'>{data.postTaxValue.toLocaleString()} silver</div>
+          <div className='widget-sub'>Gross {data.grossValue.toLocaleString()}</div>
+        </>
+      );
+
+    case "silver_per_hour":
+      return (
+        <>
+          <div className='widget-value'>{data.silverPerHour.toLocaleString()}</div>
+          <div className='widget-sub'>Last 10 min: {data.rollingSilverPerHour.toLocaleString()}</div>
+        </>
+      );
+
+    case "top_drops":
+      return (
+        <WidgetList
+          rows={getTopDrops(data.items, data.itemCounts, data.itemValues, limit).map(drop => [
+            `${drop.item.name} ×${drop.count}`,
+            drop.value.toLocaleString(),
+          ])}
+        />
+      );
+
+    case "recent_drops":
+      return (
+        <WidgetList
+          rows={data.recentDrops.slice(0, limit).map(drop => [
+            `+${drop.quantity} ${data.items.find(item => item.id === drop.item_id)?.name || `Item #${drop.item_id}`}`,
+            new Date(drop.at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+          ])}
+        />
+      );
+
+    case "tax_breakdown":
+      return (
+        <WidgetList
+          rows={[
+            ["Gross", data.grossValue.toLocaleString()],
+            ["Tax", `-${data.taxAmount.toLocaleString()} (${data.effectiveTaxRate.toFixed(1)}%)`],
+            ["Post-tax", data.postTaxValue.toLocaleString()],
+          ]}
+        />
+      );
+
+    default:
+      return null;
+  }
+};
+
+// The overlay as it will appear in the window or a browser source, scaled down
+export const OverlayPreview: React.FC<OverlayPreviewProps> = ({
+  widgets,
+  data,
+  scale = 1,
+  selectedType = null,
+  onSelect,
+}) => {
+  return (
+    <div
+      className='overlay-preview'
+      style={{ width: OVERLAY_CANVAS.width * scale, height: OVERLAY_CANVAS.height * scale }}
+    >
+      <div
+        className='overlay-preview-canvas'
+        style={{
+          width: OVERLAY_CANVAS.width,
+          height: OVERLAY_CANVAS.height,
+          transform: `scale(${scale})`,
+        }}
+      >
+        {widgets
+          .filter(widget => widget.visible)
+          .map(widget => (
+            <div
+              key={widget.type}
+              className={`overlay-widget widget-${widget.type} ${selectedType === widget.type ? "selected" : ""}`}
+              style={{
+                left: widget.x,
+                top: widget.y,
+                width: widget.width,
+                fontFamily: widget.font_family,
+                fontSize: widget.font_size,
+                color: widget.text_color,
+                background: widget.background_color,
+              }}
+              onClick={() => onSelect?.(widget.type)}
+            >
+              <div className='widget-label'>{WIDGET_LABELS[widget.type]}</div>
+              <WidgetContent widget={widget} data={data} />
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,2 @@
+export { OverlayLayoutEditor } from "./OverlayLayoutEditor";
+export { OverlayPreview } from "./OverlayPreview";
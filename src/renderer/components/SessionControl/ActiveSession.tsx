@@ -1,6 +1,18 @@
 import React, { useState, useEffect } from "react";
-import { Location, Item, TaxCalculations } from "../../types";
-import { calculatePostTaxValue } from "../../utils/taxCalculations";
+import { Location, TaxCalculations, PausedInterval, DetectionReview, LootEvent, OverlayServerStatus, OverlayWindowSettings } from "../../types";
+import { calculateLootValuation, ItemWithPrice } from "../../utils/lootValuation";
+import { formatTaxRate, getFamilyFameBonus } from "../../utils/taxCalculations";
+import { TAX_CONSTANTS } from "../../constants/taxes";
+import { formatDuration, calculateActiveSeconds } from "../../utils/sessionUtils";
+import { calculateSessionMetrics, ValueSample } from "../../utils/sessionMetrics";
+import { LootChange } from "../../utils/lootCounts";
+import { buildSessionExportRecord, getSessionExportFileName } from "../../utils/sessionExport";
+import { LootBreakdown } from "./LootBreakdown";
+import { LootTimeline } from "./LootTimeline";
+import { OverlayServerControls } from "./OverlayServerControls";
+import { OverlayWindowControls } from "./OverlayWindowControls";
+import { DetectionReviewQueue } from "./DetectionReviewQueue";
+import { SessionExportControls } from "../SessionExport";
 
 interface ActiveSessionProps {
   session: {
@@ -8,18 +20,32 @@ interface ActiveSessionProps {
     startTime?: Date;
     location?: Location;
     itemCounts: Map<number, number>;
+    pausedAt?: Date;
+    pausedIntervals: PausedInterval[];
+    lootHistory: LootChange[];
+    lootEvents: LootEvent[];
   };
   lootTableItems: ItemWithPrice[];
   taxSettings: TaxCalculations;
   userPreferences: any;
   streamingOverlayOpen: boolean;
+  overlayServer: OverlayServerStatus;
+  overlayWindow: OverlayWindowSettings;
+  onCloseStreamingOverlay: () => void;
   onStopSession: () => void;
+  onPauseSession: () => void;
+  onResumeSession: () => void;
+  valueSamples: ValueSample[];
+  targetHours: number;
+  onTargetHoursChange: (hours: number) => void;
   onOpenStreamingOverlay: () => void;
   onItemDetected: (event: any, data: any) => void;
-}
-
-interface ItemWithPrice extends Item {
-  calculatedPrice: number;
+  onAdjustLoot: (itemId: number, delta: number) => void;
+  onUndoLoot: () => void;
+  reviewQueue: DetectionReview[];
+  onAcceptReview: (review: DetectionReview, itemId: number) => void;
+  onRejectReview: (review: DetectionReview) => void;
+  onCustomizeOverlay: () => void;
 }
 
 export const ActiveSession: React.FC<ActiveSessionProps> = ({
@@ -28,9 +54,23 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
   taxSettings,
   userPreferences,
   streamingOverlayOpen,
+  overlayServer,
+  overlayWindow,
+  onCloseStreamingOverlay,
   onStopSession,
+  onPauseSession,
+  onResumeSession,
+  valueSamples,
+  targetHours,
+  onTargetHoursChange,
   onOpenStreamingOverlay,
   onItemDetected,
+  onAdjustLoot,
+  onUndoLoot,
+  reviewQueue,
+  onAcceptReview,
+  onRejectReview,
+  onCustomizeOverlay,
 }) => {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [showTaxBreakdown, setShowTaxBreakdown] = useState(false);
@@ -44,187 +84,68 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
     return () => clearInterval(timer);
   }, []);
 
-  const calculateTotalValue = (): number => {
-    let totalValue = 0;
-    lootTableItems.forEach(item => {
-      const count = session.itemCounts.get(item.id) || 0;
-      
-      // During active session, calculate the post-tax price for each item
-      let postTaxPrice = 0;
-      
-      if (item.type === "marketplace") {
-        // Use the raw price from calculatedPrice and apply tax
-        const preTaxPrice = item.calculatedPrice; // This is the raw price since we loaded with applyTaxCalculations=false
-        postTaxPrice = calculatePostTaxValue(
-          preTaxPrice,
-          taxSettings.value_pack,
-          taxSettings.rich_merchant_ring,
-          taxSettings.family_fame
-        );
-      } else if (item.type === "trash_loot") {
-        // Trash loot is not taxed, use calculatedPrice directly
-        postTaxPrice = item.calculatedPrice;
-      } else if (item.type === "conversion" && item.convertible_to_bdo_item_id && item.conversion_ratio) {
-        // For conversion items, the calculatedPrice is already the raw conversion value
-        // We need to apply tax to the target marketplace item and then divide by conversion ratio
-        const userRegion = userPreferences.preferred_region;
-        const targetItem = lootTableItems.find(i => 
-          i.bdo_item_id === item.convertible_to_bdo_item_id && 
-          i.region === userRegion && 
-          i.type === "marketplace"
-        );
-        
-        if (targetItem) {
-          // Use the target item's raw price and apply tax
-          const targetPostTaxPrice = calculatePostTaxValue(
-            targetItem.calculatedPrice, // Raw price of target marketplace item
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          postTaxPrice = targetPostTaxPrice / item.conversion_ratio;
-        } else {
-          // Fallback: use the conversion item's calculated price (raw) and apply estimated tax
-          const rawConversionPrice = item.calculatedPrice;
-          // Estimate the marketplace price this conversion represents
-          const estimatedMarketplacePrice = rawConversionPrice * item.conversion_ratio;
-          const taxedMarketplacePrice = calculatePostTaxValue(
-            estimatedMarketplacePrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          postTaxPrice = taxedMarketplacePrice / item.conversion_ratio;
-        }
-      }
-      
-      totalValue += count * Math.round(postTaxPrice);
-    });
-    return totalValue;
+  // Active time excludes pauses; wall-clock time is shown alongside for reference
+  const formatSessionDuration = (startTime: Date): string => {
+    return formatDuration(
+      calculateActiveSeconds(startTime, session.pausedIntervals, session.pausedAt, currentTime)
+    );
   };
 
-  const calculateGrossValue = (): number => {
-    let grossValue = 0;
-    
-    lootTableItems.forEach(item => {
-      const count = session.itemCounts.get(item.id) || 0;
-      // Use the raw calculatedPrice since it was loaded with applyTaxCalculations=false
-      const preTaxPrice = item.calculatedPrice;
-      grossValue += count * preTaxPrice;
-    });
-    
-    return grossValue;
+  const formatWallClockDuration = (startTime: Date): string => {
+    return formatDuration((currentTime.getTime() - startTime.getTime()) / 1000);
   };
 
-  const getTaxBreakdown = () => {
-    const userRegion = userPreferences.preferred_region;
-    let taxableGrossValue = 0;
-    let taxablePostTaxValue = 0;
-    let nonTaxableValue = 0;
-    
-    // Calculate taxable and non-taxable values separately
-    lootTableItems.forEach(item => {
-      const count = session.itemCounts.get(item.id) || 0;
-      
-      if (item.type === "trash_loot") {
-        // Trash loot is not taxed - use calculatedPrice directly
-        nonTaxableValue += count * item.calculatedPrice;
-      } else if (item.type === "marketplace") {
-        // Marketplace items are taxed - use calculatedPrice as pre-tax value
-        const preTaxPrice = item.calculatedPrice;
-        const postTaxPrice = calculatePostTaxValue(
-          preTaxPrice,
-          taxSettings.value_pack,
-          taxSettings.rich_merchant_ring,
-          taxSettings.family_fame
-        );
-        taxableGrossValue += count * preTaxPrice;
-        taxablePostTaxValue += count * postTaxPrice;
-      } else if (item.type === "conversion" && item.convertible_to_bdo_item_id && item.conversion_ratio) {
-        // Conversion items use the post-tax value of their target marketplace item
-        const targetItem = lootTableItems.find(i => 
-          i.bdo_item_id === item.convertible_to_bdo_item_id && 
-          i.region === userRegion && 
-          i.type === "marketplace"
-        );
-        
-        if (targetItem) {
-          // Use the target item's calculatedPrice as the pre-tax marketplace price
-          const targetPreTaxPrice = targetItem.calculatedPrice;
-          const targetPostTaxPrice = calculatePostTaxValue(
-            targetPreTaxPrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          
-          const conversionPreTaxPrice = targetPreTaxPrice / item.conversion_ratio;
-          const conversionPostTaxPrice = targetPostTaxPrice / item.conversion_ratio;
-          
-          taxableGrossValue += count * conversionPreTaxPrice;
-          taxablePostTaxValue += count * conversionPostTaxPrice;
-        } else {
-          // Fallback: use the conversion item's calculatedPrice
-          const conversionPreTaxPrice = item.calculatedPrice;
-          
-          // Estimate the marketplace price this represents and apply tax
-          const estimatedMarketplacePrice = conversionPreTaxPrice * item.conversion_ratio;
-          const taxedMarketplacePrice = calculatePostTaxValue(
-            estimatedMarketplacePrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          const conversionPostTaxPrice = taxedMarketplacePrice / item.conversion_ratio;
-          
-          taxableGrossValue += count * conversionPreTaxPrice;
-          taxablePostTaxValue += count * conversionPostTaxPrice;
-        }
-      }
-    });
-    
-    const totalGrossValue = taxableGrossValue + nonTaxableValue;
-    const totalPostTaxValue = taxablePostTaxValue + nonTaxableValue;
-    const taxAmount = taxableGrossValue - taxablePostTaxValue;
-    const effectiveTaxRate = taxableGrossValue > 0 ? (taxAmount / taxableGrossValue) * 100 : 0;
-    
-    return {
-      grossValue: totalGrossValue,
-      postTaxValue: totalPostTaxValue,
-      taxableGrossValue,
-      taxablePostTaxValue,
-      nonTaxableValue,
-      taxAmount,
-      effectiveTaxRate,
-      bonuses: {
-        valuePack: taxSettings.value_pack,
-        richMerchantRing: taxSettings.rich_merchant_ring,
-        familyFame: taxSettings.family_fame
-      }
-    };
-  };
+  const isPaused = !!session.pausedAt;
 
-  const formatSessionDuration = (startTime: Date): string => {
-    const diff = currentTime.getTime() - startTime.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const seconds = Math.floor((diff % 60000) / 1000);
-    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
-  };
+  const lastChange = session.lootHistory[session.lootHistory.length - 1];
+  const lastChangeItemName = lastChange
+    ? lootTableItems.find(item => item.id === lastChange.itemId)?.name || 'item'
+    : '';
 
   if (!session.isActive || !session.startTime) {
     return null;
   }
 
+  const valuation = calculateLootValuation(
+    lootTableItems,
+    session.itemCounts,
+    userPreferences.preferred_region,
+    taxSettings
+  );
+
+  const activeSeconds = calculateActiveSeconds(
+    session.startTime,
+    session.pausedIntervals,
+    session.pausedAt,
+    currentTime
+  );
+
+  const metrics = calculateSessionMetrics(
+    activeSeconds,
+    valuation.postTaxValue,
+    session.itemCounts,
+    valueSamples,
+    targetHours * 3600
+  );
+
   return (
     <div className='session-control active'>
       <div className='session-header'>
         <div className='session-status'>
-          <div className='status-indicator active'></div>
-          <h3>Active Session</h3>
+          <div className={`status-indicator ${isPaused ? 'paused' : 'active'}`}></div>
+          <h3>{isPaused ? 'Session Paused' : 'Active Session'}</h3>
         </div>
         <div className='session-controls'>
-          <div className='session-duration'>
-            {formatSessionDuration(session.startTime)}
+          <div className='session-duration-group'>
+            <div
+              className={`session-duration ${isPaused ? 'paused' : ''}`}
+              title='Active time (excludes pauses)'
+            >
+              {formatSessionDuration(session.startTime)}
+            </div>
+            <div className='wall-clock-duration' title='Wall-clock time since start'>
+              {formatWallClockDuration(session.startTime)} total
+            </div>
           </div>
           {!streamingOverlayOpen && (
             <button 
@@ -253,7 +174,7 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
       <div className='session-stats'>
         <div className='stat'>
           <span className='stat-label'>Gross Value (Pre-Tax):</span>
-          <span className='stat-value'>{calculateGrossValue().toLocaleString()} silver</span>
+          <span className='stat-value'>{valuation.grossValue.toLocaleString()} silver</span>
         </div>
         <div className='stat' style={{ textAlign: 'right' }}>
           <span className='stat-label'>Location:</span>
@@ -262,7 +183,7 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
         <div className='stat tax-breakdown-stat'>
           <div className='tax-stat-header' onClick={() => setShowTaxBreakdown(!showTaxBreakdown)}>
             <span className='stat-label'>Post-Tax Value:</span>
-            <span className='stat-value'>{calculateTotalValue().toLocaleString()} silver</span>
+            <span className='stat-value'>{valuation.postTaxValue.toLocaleString()} silver</span>
             <span className={`tax-accordion-icon ${showTaxBreakdown ? 'expanded' : ''}`}>
               ▼
             </span>
@@ -270,7 +191,10 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
           {showTaxBreakdown && (
             <div className='tax-breakdown-details'>
               {(() => {
-                const breakdown = getTaxBreakdown();
+                const breakdown = valuation;
+                // Bonuses are each applied to the amount left after base tax, not stacked
+                const afterBaseTax = breakdown.taxableGrossValue * (1 - TAX_CONSTANTS.BASE_TAX_RATE);
+                const familyFameBonus = getFamilyFameBonus(breakdown.bonuses.familyFame);
                 return (
                   <>
                     <div className='breakdown-row'>
@@ -296,34 +220,29 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
                           <span className='breakdown-value'>{breakdown.taxableGrossValue.toLocaleString()} silver</span>
                         </div>
                         <div className='breakdown-row tax-deduction'>
-                          <span className='breakdown-label'>  Base Tax (35%):</span>
-                          <span className='breakdown-value'>-{(breakdown.taxableGrossValue * 0.35).toLocaleString()} silver</span>
+                          <span className='breakdown-label'>  Base Tax ({formatTaxRate(TAX_CONSTANTS.BASE_TAX_RATE)}):</span>
+                          <span className='breakdown-value'>-{(breakdown.taxableGrossValue - afterBaseTax).toLocaleString()} silver</span>
                         </div>
                         <div className='breakdown-row base-after-tax'>
                           <span className='breakdown-label'>  After Base Tax:</span>
-                          <span className='breakdown-value'>{(breakdown.taxableGrossValue * 0.65).toLocaleString()} silver</span>
+                          <span className='breakdown-value'>{afterBaseTax.toLocaleString()} silver</span>
                         </div>
                         {breakdown.bonuses.valuePack && (
                           <div className='breakdown-row bonus'>
-                            <span className='breakdown-label'>  Value Pack (+30%):</span>
-                            <span className='breakdown-value'>+{(breakdown.taxableGrossValue * 0.65 * 0.30).toLocaleString()} silver</span>
+                            <span className='breakdown-label'>  Value Pack (+{formatTaxRate(TAX_CONSTANTS.VALUE_PACK_BONUS)}):</span>
+                            <span className='breakdown-value'>+{(afterBaseTax * TAX_CONSTANTS.VALUE_PACK_BONUS).toLocaleString()} silver</span>
                           </div>
                         )}
                         {breakdown.bonuses.richMerchantRing && (
                           <div className='breakdown-row bonus'>
-                            <span className='breakdown-label'>  Rich Merchant Ring (+5%):</span>
-                            <span className='breakdown-value'>+{(breakdown.taxableGrossValue * 0.65 * 0.05).toLocaleString()} silver</span>
+                            <span className='breakdown-label'>  Rich Merchant Ring (+{formatTaxRate(TAX_CONSTANTS.RICH_MERCHANT_RING_BONUS)}):</span>
+                            <span className='breakdown-value'>+{(afterBaseTax * TAX_CONSTANTS.RICH_MERCHANT_RING_BONUS).toLocaleString()} silver</span>
                           </div>
                         )}
                         {breakdown.bonuses.familyFame > 0 && (
                           <div className='breakdown-row bonus'>
                             <span className='breakdown-label'>  Family Fame ({breakdown.bonuses.familyFame.toLocaleString()}):</span>
-                            <span className='breakdown-value'>+{(() => {
-                              // Family Fame bonus is applied to the base post-tax amount (not after other bonuses)
-                              const basePostTax = breakdown.taxableGrossValue * 0.65;
-                              const familyFameBonus = basePostTax * (breakdown.bonuses.familyFame >= 7000 ? 0.015 : breakdown.bonuses.familyFame >= 4000 ? 0.01 : breakdown.bonuses.familyFame >= 1000 ? 0.005 : 0);
-                              return familyFameBonus.toLocaleString();
-                            })()} silver</span>
+                            <span className='breakdown-value'>+{(afterBaseTax * familyFameBonus).toLocaleString()} silver</span>
                           </div>
                         )}
                         {(breakdown.bonuses.valuePack || breakdown.bonuses.richMerchantRing || breakdown.bonuses.familyFame > 0) && (
@@ -334,7 +253,7 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
                             </div>
                             <div className='breakdown-row effective-rate'>
                               <span className='breakdown-label'>Tax Savings on Taxable Items:</span>
-                              <span className='breakdown-value'>{(65 - breakdown.effectiveTaxRate).toFixed(1)}%</span>
+                              <span className='breakdown-value'>{(TAX_CONSTANTS.BASE_TAX_RATE * 100 - breakdown.effectiveTaxRate).toFixed(1)}%</span>
                             </div>
                           </>
                         )}
@@ -360,91 +279,71 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
             </div>
           )}
         </div>
+        <div className='stat'>
+          <span className='stat-label'>Silver / Hour:</span>
+          <span className='stat-value'>{metrics.silverPerHour.toLocaleString()}</span>
+        </div>
+        <div className='stat' style={{ textAlign: 'right' }}>
+          <span className='stat-label'>Last 10 min:</span>
+          <span className='stat-value'>{metrics.rollingSilverPerHour.toLocaleString()} / hour</span>
+        </div>
+        <div className='stat projection-stat'>
+          <span className='stat-label'>
+            Projected at
+            <input
+              type='number'
+              min='0.5'
+              max='24'
+              step='0.5'
+              value={targetHours}
+              onChange={(e) => {
+                const hours = parseFloat(e.target.value);
+                if (!isNaN(hours) && hours > 0) {
+                  onTargetHoursChange(hours);
+                }
+              }}
+              className='projection-hours-input'
+              aria-label='Target session length in hours'
+            />
+            h:
+          </span>
+          <span className='stat-value'>{metrics.projectedTotal.toLocaleString()} silver</span>
+        </div>
       </div>
 
+      <DetectionReviewQueue
+        reviews={reviewQueue}
+        items={lootTableItems}
+        onAccept={onAcceptReview}
+        onReject={onRejectReview}
+      />
+
       {!streamingOverlayOpen && (
         <div className='active-loot-items'>
           <h4>Loot</h4>
-          <div className='active-items-grid'>
-            {lootTableItems.map(item => {
-              const count = session.itemCounts.get(item.id) || 0;
-              
-              // Calculate post-tax price for active session display
-              let postTaxPrice = 0;
-              
-              if (item.type === "marketplace") {
-                // Use calculatedPrice as the raw price and apply tax
-                const preTaxPrice = item.calculatedPrice;
-                postTaxPrice = calculatePostTaxValue(
-                  preTaxPrice,
-                  taxSettings.value_pack,
-                  taxSettings.rich_merchant_ring,
-                  taxSettings.family_fame
-                );
-              } else if (item.type === "trash_loot") {
-                // Trash loot is not taxed
-                postTaxPrice = item.calculatedPrice;
-              } else if (item.type === "conversion" && item.convertible_to_bdo_item_id && item.conversion_ratio) {
-                const userRegion = userPreferences.preferred_region;
-                const targetItem = lootTableItems.find(i => 
-                  i.bdo_item_id === item.convertible_to_bdo_item_id && 
-                  i.region === userRegion && 
-                  i.type === "marketplace"
-                );
-                
-                if (targetItem) {
-                  // Use target item's calculatedPrice as raw price and apply tax
-                  const targetPostTaxPrice = calculatePostTaxValue(
-                    targetItem.calculatedPrice,
-                    taxSettings.value_pack,
-                    taxSettings.rich_merchant_ring,
-                    taxSettings.family_fame
-                  );
-                  postTaxPrice = targetPostTaxPrice / item.conversion_ratio;
-                } else {
-                  // Fallback: estimate tax on the conversion item
-                  const rawConversionPrice = item.calculatedPrice;
-                  const estimatedMarketplacePrice = rawConversionPrice * item.conversion_ratio;
-                  const taxedMarketplacePrice = calculatePostTaxValue(
-                    estimatedMarketplacePrice,
-                    taxSettings.value_pack,
-                    taxSettings.rich_merchant_ring,
-                    taxSettings.family_fame
-                  );
-                  postTaxPrice = taxedMarketplacePrice / item.conversion_ratio;
-                }
-              }
-              
-              const totalValue = count * Math.round(postTaxPrice);
-              
-              return (
-                <div key={item.id} className='active-loot-item'>
-                  <div className='item-image-container'>
-                    {item.image_url ? (
-                      <img 
-                        src={item.image_url} 
-                        alt={item.name}
-                        className='item-image'
-                      />
-                    ) : (
-                      <div className='item-image-placeholder'>📦</div>
-                    )}
-                  </div>
-                  <div className='item-info'>
-                    <span className='item-name' title={item.name}>
-                      {item.name}
-                    </span>
-                    <div className='item-counter'>
-                      <span className='count'>{count}</span>
-                      <span className='value'>
-                        {totalValue.toLocaleString()} silver
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+          <LootBreakdown
+            entries={valuation.items.map(({ item, count, postTaxValue }) => ({
+              item,
+              count,
+              value: postTaxValue,
+              dropsPerHour: metrics.dropsPerHour[item.id] || 0,
+            }))}
+            onAdjust={onAdjustLoot}
+          />
+        </div>
+      )}
+
+      {!streamingOverlayOpen && (
+        <div className='active-loot-items'>
+          <h4>Timeline</h4>
+          <LootTimeline
+            events={session.lootEvents}
+            items={lootTableItems}
+            startTime={session.startTime}
+            pausedIntervals={session.pausedIntervals}
+            endActiveSeconds={activeSeconds}
+            live
+          />
         </div>
       )}
       
@@ -452,10 +351,30 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
         <div className='overlay-active-message'>
           <h4>Streaming Overlay Active</h4>
           <p>Loot tracking is displayed in the overlay window to save resources.</p>
+          <OverlayWindowControls settings={overlayWindow} onClose={onCloseStreamingOverlay} />
         </div>
       )}
 
+      <OverlayServerControls status={overlayServer} />
+
       <div className='session-actions'>
+        <button
+          onClick={isPaused ? onResumeSession : onPauseSession}
+          className={`pause-session-button ${isPaused ? 'paused' : ''}`}
+        >
+          {isPaused ? 'Resume Session' : 'Pause Session'}
+        </button>
+        <button
+          onClick={onUndoLoot}
+          className='undo-loot-button'
+          disabled={session.lootHistory.length === 0}
+          title={lastChange ? `Undo ${lastChange.delta > 0 ? '+' : ''}${lastChange.delta} ${lastChangeItemName}` : 'Nothing to undo'}
+        >
+          Undo
+        </button>
+        <button onClick={onCustomizeOverlay} className='configure-button secondary'>
+          Customize Overlay
+        </button>
         <button onClick={onStopSession} className='stop-session-button'>
           Stop Session
         </button>
@@ -482,6 +401,24 @@ export const ActiveSession: React.FC<ActiveSessionProps> = ({
           </button>
         )}
       </div>
+
+      <div className='session-export'>
+        <SessionExportControls
+          fileNameBase={getSessionExportFileName(session.location?.name || '', session.startTime.toISOString())}
+          getRecords={() => [
+            buildSessionExportRecord({
+              status: 'active',
+              location: session.location?.name || '',
+              region: userPreferences.preferred_region,
+              startTime: session.startTime!.toISOString(),
+              endTime: null,
+              durationSeconds: Math.floor((currentTime.getTime() - session.startTime!.getTime()) / 1000),
+              activeSeconds,
+              valuation,
+            }),
+          ]}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,112 @@
+import React, { useState } from "react";
+import { DetectionReview, Item } from "../../types";
+
+interface DetectionReviewQueueProps {
+  reviews: DetectionReview[];
+  items: Item[]; // Current loot table, for reassigning
+  onAccept: (review: DetectionReview, itemId: number) => void;
+  onReject: (review: DetectionReview) => void;
+}
+
+interface ReviewRowProps {
+  review: DetectionReview;
+  items: Item[];
+  onAccept: (review: DetectionReview, itemId: number) => void;
+  onReject: (review: DetectionReview) => void;
+}
+
+const ReviewRow: React.FC<ReviewRowProps> = ({ review, items, onAccept, onReject }) => {
+  const bestCandidate = review.candidates[0];
+  const [selectedItemId, setSelectedItemId] = useState<number | "">(bestCandidate?.itemId ?? "");
+
+  // Candidates first, then the rest of the loot table
+  const candidateIds = new Set(review.candidates.map(candidate => candidate.itemId));
+  const otherItems = items.filter(item => !candidateIds.has(item.id));
+
+  return (
+    <li className='detection-review'>
+      {review.image && (
+        <img src={review.image} alt={`Loot line: ${review.text}`} className='detection-review-image' />
+      )}
+      <div className='detection-review-details'>
+        <span className='detection-review-text'>
+          Read as "{review.itemName}" ×{review.quantity}
+        </span>
+        <span className='detection-review-time'>
+          {new Date(review.detectedAt).toLocaleTimeString()}
+        </span>
+      </div>
+      <div className='detection-review-actions'>
+        <select
+          value={selectedItemId}
+          onChange={(e) => setSelectedItemId(e.target.value === "" ? "" : Number(e.target.value))}
+          aria-label='Item for this detection'
+        >
+          <option value=''>Choose item...</option>
+          {review.candidates.length > 0 && (
+            <optgroup label='Likely items'>
+              {review.candidates.map(candidate => (
+                <option key={candidate.itemId} value={candidate.itemId}>
+                  {candidate.itemName} ({Math.round(candidate.score * 100)}%)
+                </option>
+              ))}
+            </optgroup>
+          )}
+          {otherItems.length > 0 && (
+            <optgroup label='Other loot'>
+              {otherItems.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button
+          onClick={() => selectedItemId !== "" && onAccept(review, selectedItemId)}
+          className='review-accept-button'
+          disabled={selectedItemId === ""}
+          title='Count this drop as the selected item'
+        >
+          {selectedItemId === "" || selectedItemId === bestCandidate?.itemId ? "Accept" : "Reassign"}
+        </button>
+        <button
+          onClick={() => onReject(review)}
+          className='review-reject-button'
+          title='Not a drop from this loot table'
+        >
+          Reject
+        </button>
+      </div>
+    </li>
+  );
+};
+
+// Detections the matcher wasn't sure about; nothing is counted until the user decides
+export const DetectionReviewQueue: React.FC<DetectionReviewQueueProps> = ({
+  reviews,
+  items,
+  onAccept,
+  onReject,
+}) => {
+  if (reviews.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className='detection-review-queue'>
+      <h4>Needs Review ({reviews.length})</h4>
+      <ul>
+        {reviews.map(review => (
+          <ReviewRow
+            key={review.id}
+            review={review}
+            items={items}
+            onAccept={onAccept}
+            onReject={onReject}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+};
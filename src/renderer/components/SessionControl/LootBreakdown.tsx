@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { Item } from "../../types";
+
+export interface LootBreakdownEntry {
+  item: Item;
+  count: number;
+  value: number; // Total post-tax value for this item
+  dropsPerHour?: number; // Only shown for live sessions
+}
+
+interface LootBreakdownProps {
+  entries: LootBreakdownEntry[];
+  onAdjust?: (itemId: number, delta: number) => void; // Enables manual entry controls
+}
+
+interface LootCountControlsProps {
+  itemId: number;
+  count: number;
+  onAdjust: (itemId: number, delta: number) => void;
+}
+
+// +/− buttons and an "add N" field for one item
+const LootCountControls: React.FC<LootCountControlsProps> = ({ itemId, count, onAdjust }) => {
+  const [bulkAmount, setBulkAmount] = useState("");
+
+  const handleBulkAdd = () => {
+    const amount = parseInt(bulkAmount, 10);
+    if (isNaN(amount) || amount === 0) return;
+    onAdjust(itemId, amount);
+    setBulkAmount("");
+  };
+
+  return (
+    <div className='loot-count-controls'>
+      <button
+        onClick={() => onAdjust(itemId, -1)}
+        className='loot-adjust-button'
+        disabled={count === 0}
+        title='Remove one'
+        aria-label='Remove one'
+      >
+        −
+      </button>
+      <button
+        onClick={() => onAdjust(itemId, 1)}
+        className='loot-adjust-button'
+        title='Add one'
+        aria-label='Add one'
+      >
+        +
+      </button>
+      <input
+        type='number'
+        value={bulkAmount}
+        onChange={(e) => setBulkAmount(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleBulkAdd();
+        }}
+        placeholder='N'
+        className='loot-bulk-input'
+        aria-label='Amount to add'
+      />
+      <button
+        onClick={handleBulkAdd}
+        className='loot-adjust-button bulk'
+        disabled={!bulkAmount}
+        title='Add N'
+      >
+        Add
+      </button>
+    </div>
+  );
+};
+
+// Per-item loot grid shared by the active session and session history views
+export const LootBreakdown: React.FC<LootBreakdownProps> = ({ entries, onAdjust }) => {
+  return (
+    <div className='active-items-grid'>
+      {entries.map(({ item, count, value, dropsPerHour }) => (
+        <div key={item.id} className='active-loot-item'>
+          <div className='item-image-container'>
+            {item.image_url ? (
+              <img
+                src={item.image_url}
+                alt={item.name}
+                className='item-image'
+              />
+            ) : (
+              <div className='item-image-placeholder'>📦</div>
+            )}
+          </div>
+          <div className='item-info'>
+            <span className='item-name' title={item.name}>
+              {item.name}
+            </span>
+            <div className='item-counter'>
+              <span className='count'>{count}</span>
+              <span className='value'>
+                {value.toLocaleString()} silver
+              </span>
+            </div>
+            {dropsPerHour !== undefined && (
+              <span className='drops-per-hour'>{dropsPerHour.toLocaleString()} / hour</span>
+            )}
+            {onAdjust && (
+              <LootCountControls itemId={item.id} count={count} onAdjust={onAdjust} />
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { Item, LootEvent, LootEventSource, PausedInterval } from "../../types";
+import { formatDuration } from "../../utils/sessionUtils";
+import { buildLootTimeline, summarizeDryStreaks } from "../../utils/lootTimeline";
+
+// Most recent events shown before "Show all"
+const COLLAPSED_EVENT_COUNT = 20;
+
+const SOURCE_LABELS: Record<LootEventSource, string> = {
+  manual: "Manual",
+  detected: "Detected",
+  review: "Reviewed",
+};
+
+interface LootTimelineProps {
+  events: LootEvent[];
+  items: Item[];
+  startTime: Date;
+  pausedIntervals: PausedInterval[];
+  endActiveSeconds: number; // Now for a live session, the recorded active time otherwise
+  live?: boolean; // Shows time since the last drop
+}
+
+// Every loot change in a session, newest first, with dry streaks called out
+export const LootTimeline: React.FC<LootTimelineProps> = ({
+  events,
+  items,
+  startTime,
+  pausedIntervals,
+  endActiveSeconds,
+  live = false,
+}) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const timeline = buildLootTimeline(events, startTime, pausedIntervals);
+  const dryStreaks = summarizeDryStreaks(timeline, endActiveSeconds);
+  const newestFirst = [...timeline].reverse();
+  const visible = showAll ? newestFirst : newestFirst.slice(0, COLLAPSED_EVENT_COUNT);
+
+  const getItemName = (itemId: number): string =>
+    items.find(item => item.id === itemId)?.name || `Item #${itemId}`;
+
+  return (
+    <div className='loot-timeline'>
+      <div className='loot-timeline-summary'>
+        <span>
+          {dryStreaks.drops.toLocaleString()} drop{dryStreaks.drops === 1 ? "" : "s"}
+        </span>
+        <span title='Longest stretch of active time without a drop'>
+          Longest dry streak: {formatDuration(dryStreaks.longestGapSeconds)}
+          {dryStreaks.longestGapEndSeconds === null && dryStreaks.drops > 0 && live ? " (ongoing)" : ""}
+        </span>
+        {live && (
+          <span title='Active time since the last drop'>
+            Since last drop: {formatDuration(dryStreaks.sinceLastDropSeconds)}
+          </span>
+        )}
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className='no-items'>No drops yet.</p>
+      ) : (
+        <>
+          <ul className='loot-timeline-events'>
+            {visible.map((entry, index) => (
+              <li
+                key={`${entry.at}-${entry.item_id}-${index}`}
+                className={`loot-timeline-event ${entry.quantity < 0 ? "correction" : ""}`}
+              >
+                <span className='loot-timeline-time' title={new Date(entry.at).toLocaleString()}>
+                  {formatDuration(entry.activeSeconds)}
+                </span>
+                <span className='loot-timeline-item'>{getItemName(entry.item_id)}</span>
+                <span className='loot-timeline-quantity'>
+                  {entry.quantity > 0 ? "+" : ""}
+                  {entry.quantity.toLocaleString()}
+                </span>
+                <span
+                  className={`loot-timeline-source ${entry.source}`}
+                  title={entry.confidence !== undefined ? "Detection match score" : undefined}
+                >
+                  {SOURCE_LABELS[entry.source]}
+                  {entry.confidence !== undefined && ` ${Math.round(entry.confidence * 100)}%`}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {newestFirst.length > COLLAPSED_EVENT_COUNT && (
+            <button onClick={() => setShowAll(prev => !prev)} className='loot-timeline-toggle'>
+              {showAll ? "Show recent only" : `Show all ${newestFirst.length} events`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
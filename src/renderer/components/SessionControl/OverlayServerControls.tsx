@@ -0,0 +1,69 @@
+import React, { useState } from "react";
+import { OverlayServerStatus } from "../../types";
+
+interface OverlayServerControlsProps {
+  status: OverlayServerStatus;
+}
+
+// Start/stop the local server that serves the overlay to OBS browser sources
+export const OverlayServerControls: React.FC<OverlayServerControlsProps> = ({ status }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleToggle = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = status.running
+        ? await window.electronAPI.overlayServer.stop()
+        : await window.electronAPI.overlayServer.start();
+      if (!result.success) {
+        setError(result.error || "Failed to update browser source");
+      }
+    } catch (err) {
+      console.error("Error toggling overlay server:", err);
+      setError("Failed to update browser source");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!status.url) return;
+    try {
+      await navigator.clipboard.writeText(status.url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy browser source URL:", err);
+    }
+  };
+
+  return (
+    <div className='overlay-server'>
+      <div className='overlay-server-header'>
+        <span className='overlay-server-title'>OBS Browser Source</span>
+        <button
+          onClick={handleToggle}
+          className={`overlay-server-toggle ${status.running ? "running" : ""}`}
+          disabled={busy}
+        >
+          {status.running ? "Stop" : "Start"}
+        </button>
+      </div>
+      {status.running && status.url && (
+        <div className='overlay-server-details'>
+          <input type='text' value={status.url} readOnly aria-label='Browser source URL' />
+          <button onClick={handleCopy} className='overlay-server-copy'>
+            {copied ? "Copied" : "Copy"}
+          </button>
+          <span className='overlay-server-clients'>
+            {status.clients} connected
+          </span>
+        </div>
+      )}
+      {error && <div className='overlay-server-error'>{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { OverlayWindowSettings } from "../../types";
+
+// Registered by the main process while the overlay ignores the mouse
+const INTERACTIVE_SHORTCUT_LABEL = "Ctrl+Shift+O";
+
+interface OverlayWindowControlsProps {
+  settings: OverlayWindowSettings;
+  onClose: () => void;
+}
+
+// Switch the open overlay window between interactive and click-through, and set its opacity
+export const OverlayWindowControls: React.FC<OverlayWindowControlsProps> = ({ settings, onClose }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyMode = async (changes: Partial<Pick<OverlayWindowSettings, "click_through" | "opacity">>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const result = await window.electronAPI.setStreamingOverlayMode(changes);
+      if (!result.success) {
+        setError(result.error || "Failed to update overlay window");
+      }
+    } catch (err) {
+      console.error("Error updating overlay window:", err);
+      setError("Failed to update overlay window");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className='overlay-window-controls'>
+      <label className='overlay-window-option'>
+        <input
+          type='checkbox'
+          checked={settings.click_through}
+          onChange={(e) => applyMode({ click_through: e.target.checked })}
+          disabled={busy}
+        />
+        Click-through (transparent, ignores the mouse)
+      </label>
+      <label className='overlay-window-option'>
+        Opacity
+        <input
+          type='range'
+          min={20}
+          max={100}
+          step={5}
+          value={Math.round(settings.opacity * 100)}
+          onChange={(e) => applyMode({ opacity: parseInt(e.target.value, 10) / 100 })}
+        />
+        <span className='overlay-window-opacity'>{Math.round(settings.opacity * 100)}%</span>
+      </label>
+      {settings.click_through && (
+        <p className='overlay-window-hint'>
+          Press {INTERACTIVE_SHORTCUT_LABEL} or untick click-through to move or resize the overlay again.
+        </p>
+      )}
+      {error && <div className='overlay-server-error'>{error}</div>}
+      <button onClick={onClose} className='overlay-window-close'>
+        Close Overlay
+      </button>
+    </div>
+  );
+};
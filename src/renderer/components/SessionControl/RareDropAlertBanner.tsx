@@ -0,0 +1,35 @@
+import React from "react";
+import { RareDropAlert } from "../../types";
+
+interface RareDropAlertBannerProps {
+  alert: RareDropAlert;
+  queued: number; // Alerts waiting behind this one
+  onDismiss: () => void;
+}
+
+// The rare drop alert at the front of the queue
+export const RareDropAlertBanner: React.FC<RareDropAlertBannerProps> = ({ alert, queued, onDismiss }) => {
+  return (
+    <div className='rare-drop-banner' role='alert'>
+      {alert.image_url ? (
+        <img src={alert.image_url} alt='' className='rare-drop-banner-image' />
+      ) : (
+        <div className='rare-drop-banner-image placeholder'>💎</div>
+      )}
+      <div className='rare-drop-banner-text'>
+        <span className='rare-drop-banner-title'>
+          Rare Drop!{alert.reason === "threshold" ? " (over your value threshold)" : ""}
+        </span>
+        <span className='rare-drop-banner-item'>
+          {alert.quantity > 1 ? `${alert.quantity}× ` : ""}
+          {alert.item_name}
+        </span>
+        <span className='rare-drop-banner-value'>{alert.value.toLocaleString()} silver</span>
+      </div>
+      {queued > 0 && <span className='rare-drop-banner-queued'>+{queued} more</span>}
+      <button onClick={onDismiss} className='rare-drop-banner-dismiss' aria-label='Dismiss alert'>
+        ×
+      </button>
+    </div>
+  );
+};
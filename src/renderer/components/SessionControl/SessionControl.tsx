@@ -1,12 +1,67 @@
-import React, { useState, useEffect } from "react";
-import { UserPreferences, Location, Item, LootTable, TaxCalculations } from "../../types";
+import React, { useState, useEffect, useRef } from "react";
+import {
+  UserPreferences,
+  Location,
+  LootTable,
+  TaxCalculations,
+  SessionCheckpoint,
+  PausedInterval,
+  PriceSnapshot,
+  DetectionReview,
+  LootEvent,
+  OverlayServerStatus,
+  OverlayWindowSettings,
+  OverlaySettings,
+  HotkeyAction,
+  RareDropAlert,
+} from "../../types";
 import { useModal } from "../../contexts/ModalContext";
 import { TAX_CONSTANTS } from "../../constants/taxes";
-import { calculatePostTaxValue } from "../../utils/taxCalculations";
+import {
+  calculateItemPrice,
+  calculateLootValuation,
+  createPriceSnapshot,
+  applyPriceSnapshot,
+  ItemWithPrice,
+  LootValuation,
+} from "../../utils/lootValuation";
+import { calculateActiveSeconds, calculatePausedMs } from "../../utils/sessionUtils";
+import {
+  calculateSessionMetrics,
+  SessionMetrics,
+  ValueSample,
+  ROLLING_WINDOW_SECONDS,
+} from "../../utils/sessionMetrics";
+import { lootCountsReducer, LootCountsAction, LootChange } from "../../utils/lootCounts";
+import { getRecentDrops } from "../../utils/lootTimeline";
+import {
+  resolveOverlaySettings,
+  getActiveOverlayPreset,
+  getSampleOverlayPreviewData,
+  OverlayPreviewData,
+} from "../../utils/overlayLayout";
+import { getHotkeyItemSlot, resolveHotkeys } from "../../utils/hotkeys";
+import { canLearnAlias } from "../../utils/itemAliases";
+import { getRareDropAlerts, playRareDropSound, resolveRareDropAlertSettings } from "../../utils/rareDrops";
+import { OVERLAY_MAX_LIST_ITEMS } from "../../constants/overlay";
+import { RARE_DROP_ALERT_DURATION_MS } from "../../constants/rareDrops";
+import Modal from "../Modal/Modal";
+import { OverlayLayoutEditor } from "../OverlayLayout";
 import { SearchableSelect } from "../SearchableSelect";
 import { ActiveSession } from "./ActiveSession";
+import { RareDropAlertBanner } from "./RareDropAlertBanner";
 import "./SessionControl.css";
 
+// How often the in-progress session is checkpointed to local storage
+const CHECKPOINT_INTERVAL_MS = 5000;
+
+// How often the session value is sampled for the rolling silver/hour
+const METRICS_SAMPLE_INTERVAL_MS = 10000;
+
+// Post-tax value per item, for the overlay's loot grid
+const getItemValues = (valuation: LootValuation): Record<number, number> =>
+  Object.fromEntries(valuation.items.map(({ item, postTaxValue }) => [item.id, postTaxValue]));
+
 interface SessionControlProps {
   userPreferences: UserPreferences;
   onOpenSettings: () => void;
@@ -17,10 +72,11 @@ interface SessionState {
   startTime?: Date;
   location?: Location;
   itemCounts: Map<number, number>; // item.id -> count
-}
-
-interface ItemWithPrice extends Item {
-  calculatedPrice: number;
+  pausedAt?: Date; // Set while the session is paused
+  pausedIntervals: PausedInterval[]; // Completed pauses, excluded from active time
+  lootHistory: LootChange[]; // Loot count changes available to undo
+  lootEvents: LootEvent[]; // Every loot change with its time and source
+  priceSnapshot?: PriceSnapshot; // Prices and tax settings frozen at start
 }
 
 export const SessionControl: React.FC<SessionControlProps> = ({
@@ -30,6 +86,9 @@ export const SessionControl: React.FC<SessionControlProps> = ({
   const [session, setSession] = useState<SessionState>({
     isActive: false,
     itemCounts: new Map(),
+    pausedIntervals: [],
+    lootHistory: [],
+    lootEvents: [],
   });
   const [locations, setLocations] = useState<Location[]>([]);
   const [selectedLocation, setSelectedLocation] = useState<Location | null>(
@@ -42,6 +101,22 @@ export const SessionControl: React.FC<SessionControlProps> = ({
   >(new Map());
   const [isOverlayFocused, setIsOverlayFocused] = useState(false);
   const [streamingOverlayOpen, setStreamingOverlayOpen] = useState(false);
+  const [overlayServer, setOverlayServer] = useState<OverlayServerStatus>({ running: false, clients: 0 });
+  const [overlayWindow, setOverlayWindow] = useState<OverlayWindowSettings>({ click_through: false, opacity: 1 });
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(() =>
+    resolveOverlaySettings(userPreferences.overlay_settings)
+  );
+  const [showOverlayEditor, setShowOverlayEditor] = useState(false);
+  const [rareItemIds, setRareItemIds] = useState<number[]>(userPreferences.rare_item_ids || []);
+  // Rare drop alerts waiting to be shown; the first one is on screen
+  const [rareDropQueue, setRareDropQueue] = useState<RareDropAlert[]>([]);
+  const [targetHours, setTargetHours] = useState(1);
+  // Uncertain detections; nothing is counted for them until the user decides
+  const [reviewQueue, setReviewQueue] = useState<DetectionReview[]>([]);
+
+  // Value samples for the rolling silver/hour; the tick re-renders on each sample
+  const valueSamplesRef = useRef<ValueSample[]>([]);
+  const [metricsTick, setMetricsTick] = useState(0);
   
   // Tax calculation state (local state, not saved until session starts)
   const [taxSettings, setTaxSettings] = useState<TaxCalculations>({
@@ -53,6 +128,26 @@ export const SessionControl: React.FC<SessionControlProps> = ({
   // Modal context for refresh warning
   const { showModal, hideModal } = useModal();
 
+  // Latest session/tax state for the checkpoint timer, plus a guard so a
+  // late tick can't re-create the checkpoint while the session is stopping
+  const sessionRef = useRef(session);
+  const taxSettingsRef = useRef(taxSettings);
+  const stoppingRef = useRef(false);
+  sessionRef.current = session;
+  taxSettingsRef.current = taxSettings;
+
+  // Loot events already checked for rare drops
+  const seenLootEventsRef = useRef(0);
+
+  // Hotkey events arrive through a listener registered once; this always holds the latest handler
+  const hotkeyHandlerRef = useRef<(action: HotkeyAction) => void>(() => {});
+
+  // Once started, a session is valued at the prices and tax settings frozen in its snapshot
+  const sessionItems: ItemWithPrice[] = session.priceSnapshot
+    ? applyPriceSnapshot(lootTableItems, session.priceSnapshot)
+    : lootTableItems;
+  const sessionTaxSettings = session.priceSnapshot?.tax_calculations || taxSettings;
+
   const hasOCRRegion =
     userPreferences.designated_ocr_region &&
     userPreferences.designated_ocr_region.width > 0 &&
@@ -85,7 +180,11 @@ export const SessionControl: React.FC<SessionControlProps> = ({
         ...prev,
         isActive: false,
         startTime: undefined,
-        itemCounts: new Map()
+        itemCounts: new Map(),
+        pausedAt: undefined,
+        pausedIntervals: [],
+        lootHistory: [],
+        lootEvents: []
       }));
     }
     
@@ -95,19 +194,44 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     }
   };
 
-  const handleItemDetected = (event: any, data: any) => {
-    if (!session.isActive) return;
+  // Every loot count change (manual entry, undo, detection) goes through the reducer
+  const dispatchLoot = (action: LootCountsAction) => {
+    setSession(prev => (prev.isActive ? lootCountsReducer(prev, action) : prev));
+  };
 
-    setSession(prev => {
-      const newItemCounts = new Map(prev.itemCounts);
-      const currentCount = newItemCounts.get(data.itemId) || 0;
-      newItemCounts.set(data.itemId, currentCount + 1);
+  const handleItemDetected = (event: any, data: any) => {
+    dispatchLoot({
+      type: 'adjust',
+      itemId: data.itemId,
+      delta: data.quantity ?? 1,
+      source: 'detected',
+      confidence: data.confidence,
+    });
+  };
 
-      return {
-        ...prev,
-        itemCounts: newItemCounts
-      };
+  const handleAcceptReview = (review: DetectionReview, itemId: number) => {
+    setReviewQueue(prev => prev.filter(entry => entry.id !== review.id));
+    // Timestamped with when it dropped, not when it was reviewed
+    dispatchLoot({
+      type: 'adjust',
+      itemId,
+      delta: review.quantity,
+      source: 'review',
+      at: review.detectedAt,
+      confidence: review.candidates.find(candidate => candidate.itemId === itemId)?.score,
     });
+
+    // Teach the matcher this reading so it's counted on its own next time
+    const item = lootTableItems.find(lootItem => lootItem.id === itemId);
+    if (item && canLearnAlias(review)) {
+      window.electronAPI.lootDetection.learnAlias({ bdoItemId: item.bdo_item_id, alias: review.itemName }).catch(error => {
+        console.error('Failed to save item alias:', error);
+      });
+    }
+  };
+
+  const handleRejectReview = (review: DetectionReview) => {
+    setReviewQueue(prev => prev.filter(entry => entry.id !== review.id));
   };
 
   // Load locations on component mount
@@ -115,6 +239,98 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     loadLocations();
   }, []);
 
+  // Offer to resume a session that was interrupted by a reload, crash or close
+  useEffect(() => {
+    const checkForCheckpoint = async () => {
+      try {
+        const result = await window.electronAPI.sessionCheckpoint.get(userPreferences.user_id);
+        if (!result.success || !result.data) return;
+
+        const checkpoint = result.data;
+        const modalId = 'resume-session';
+        const totalDrops = Object.values(checkpoint.item_counts).reduce((sum, count) => sum + count, 0);
+
+        showModal({
+          id: modalId,
+          type: 'confirmation',
+          title: 'Resume Session?',
+          message: `A ${checkpoint.location.name} session started ${new Date(checkpoint.start_time).toLocaleString()} was interrupted (${totalDrops} drops recorded, last saved ${new Date(checkpoint.saved_at).toLocaleTimeString()}). Do you want to resume it?`,
+          confirmText: 'Resume',
+          cancelText: 'Discard',
+          onConfirm: () => {
+            hideModal(modalId);
+            handleRestoreCheckpoint(checkpoint);
+          },
+          // Only an explicit Discard drops the checkpoint; dismissing keeps it for next launch
+          onCancel: () => {
+            hideModal(modalId);
+            window.electronAPI.sessionCheckpoint.clear().catch(error => {
+              console.error('Failed to discard session checkpoint:', error);
+            });
+          },
+          onClose: () => hideModal(modalId)
+        });
+      } catch (error) {
+        console.error('Failed to check for session checkpoint:', error);
+      }
+    };
+
+    checkForCheckpoint();
+  }, []);
+
+  // Checkpoint the active session every few seconds
+  useEffect(() => {
+    if (!session.isActive) return;
+
+    const saveCheckpoint = () => {
+      const current = sessionRef.current;
+      if (stoppingRef.current || !current.isActive || !current.startTime || !current.location) return;
+
+      window.electronAPI.sessionCheckpoint.save({
+        user_id: userPreferences.user_id,
+        location: current.location,
+        start_time: current.startTime.toISOString(),
+        item_counts: Object.fromEntries(current.itemCounts),
+        tax_calculations: current.priceSnapshot?.tax_calculations || taxSettingsRef.current,
+        paused_intervals: current.pausedIntervals,
+        loot_events: current.lootEvents,
+        paused_at: current.pausedAt?.toISOString() || null,
+        price_snapshot: current.priceSnapshot || null,
+        saved_at: new Date().toISOString(),
+      }).catch(error => {
+        console.error('Failed to checkpoint session:', error);
+      });
+    };
+
+    saveCheckpoint();
+    const timer = setInterval(saveCheckpoint, CHECKPOINT_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [session.isActive, userPreferences.user_id]);
+
+  // Drive periodic value sampling while the session is active
+  useEffect(() => {
+    if (!session.isActive) return;
+
+    const timer = setInterval(() => {
+      setMetricsTick(tick => tick + 1);
+    }, METRICS_SAMPLE_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [session.isActive]);
+
+  // Record a value sample, keeping only what the rolling window needs
+  useEffect(() => {
+    if (!session.isActive || !session.startTime || session.pausedAt) return;
+
+    const activeSeconds = calculateActiveSeconds(session.startTime, session.pausedIntervals);
+    const cutoff = activeSeconds - ROLLING_WINDOW_SECONDS - METRICS_SAMPLE_INTERVAL_MS / 1000;
+    valueSamplesRef.current = [
+      ...valueSamplesRef.current.filter(sample => sample.activeSeconds >= cutoff),
+      { activeSeconds, value: getLootValuation().postTaxValue },
+    ];
+  }, [metricsTick]);
+
   // Update tax settings when user preferences change (reset to saved values)
   useEffect(() => {
     setTaxSettings({
@@ -144,7 +360,29 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     window.electronAPI.onStreamingOverlayBlurred(() => {
       setIsOverlayFocused(false);
     });
+    window.electronAPI.overlayServer.onStatus(setOverlayServer);
+    window.electronAPI.onStreamingOverlayModeChanged(setOverlayWindow);
     window.electronAPI.onSessionCleanup(handleSessionCleanup);
+    window.electronAPI.onSessionEvent((data) => {
+      if (data.type === 'item-detected' && data.itemId) {
+        handleItemDetected(null, data);
+      } else if (data.type === 'detection-uncertain' && data.reviewId) {
+        const review: DetectionReview = {
+          id: data.reviewId,
+          text: data.text || '',
+          itemName: data.itemName || '',
+          truncated: !!data.truncated,
+          quantity: data.quantity ?? 1,
+          confidence: data.confidence ?? 0,
+          candidates: data.candidates || [],
+          image: data.image,
+          detectedAt: new Date().toISOString(),
+        };
+        setReviewQueue(prev => [...prev, review]);
+      } else if (data.type === 'hotkey' && data.action) {
+        hotkeyHandlerRef.current(data.action);
+      }
+    });
 
     // Check initial state on mount
     const checkInitialState = async () => {
@@ -153,6 +391,16 @@ export const SessionControl: React.FC<SessionControlProps> = ({
         if (result.success) {
           setStreamingOverlayOpen(result.isOpen);
         }
+
+        const serverResult = await window.electronAPI.overlayServer.getStatus();
+        if (serverResult.success && serverResult.data) {
+          setOverlayServer(serverResult.data);
+        }
+
+        const modeResult = await window.electronAPI.getStreamingOverlayMode();
+        if (modeResult.success && modeResult.data) {
+          setOverlayWindow(modeResult.data);
+        }
       } catch (error) {
         console.error('Failed to check initial overlay state:', error);
       }
@@ -165,6 +413,105 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     };
   }, []);
 
+  // Read loot from the OCR region while the session is running; detections
+  // come back as item-detected session events
+  const ocrRegion = hasOCRRegion ? userPreferences.designated_ocr_region : null;
+  const isPaused = !!session.pausedAt;
+  const detectionMode = userPreferences.detection_mode || 'ocr';
+  useEffect(() => {
+    if (!session.isActive || isPaused || !ocrRegion || lootTableItems.length === 0) return;
+
+    window.electronAPI.lootDetection
+      .start({
+        region: ocrRegion,
+        items: lootTableItems.map(item => ({
+          id: item.id,
+          name: item.name,
+          bdo_item_id: item.bdo_item_id,
+          image_url: item.image_url,
+        })),
+        mode: detectionMode,
+        preprocessing: userPreferences.ocr_preprocessing,
+        sessionKey: session.startTime?.toISOString()
+      })
+      .then(result => {
+        if (!result.success) {
+          console.error('Failed to start loot detection:', result.error);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to start loot detection:', error);
+      });
+
+    return () => {
+      window.electronAPI.lootDetection.stop().catch(error => {
+        console.error('Failed to stop loot detection:', error);
+      });
+    };
+  }, [session.isActive, session.startTime, isPaused, ocrRegion, detectionMode, userPreferences.ocr_preprocessing, lootTableItems]);
+
+  // Global shortcuts, so the session can be driven without leaving the game
+  useEffect(() => {
+    const registerHotkeys = async () => {
+      try {
+        const result = await window.electronAPI.hotkeys.register(resolveHotkeys(userPreferences.hotkeys));
+        if (!result.success) {
+          console.error('Failed to register hotkeys:', result.error);
+        } else if (result.data && result.data.failed.length > 0) {
+          console.error('Hotkeys unavailable (in use by another application):', result.data.failed.join(', '));
+        }
+      } catch (error) {
+        console.error('Error registering hotkeys:', error);
+      }
+    };
+
+    registerHotkeys();
+  }, [userPreferences.hotkeys]);
+
+  useEffect(() => {
+    setRareItemIds(userPreferences.rare_item_ids || []);
+  }, [userPreferences.rare_item_ids]);
+
+  // Raise rare drop alerts for loot added since the last check; undone loot just rewinds the count
+  useEffect(() => {
+    const newEvents = session.lootEvents.slice(seenLootEventsRef.current);
+    seenLootEventsRef.current = session.lootEvents.length;
+    if (!session.isActive || newEvents.length === 0) return;
+
+    const unitValues = Object.fromEntries(
+      getLootValuation().items.map(({ item, postTaxPrice }) => [item.id, postTaxPrice])
+    );
+    const alerts = getRareDropAlerts(
+      newEvents,
+      sessionItems,
+      unitValues,
+      resolveRareDropAlertSettings(userPreferences.rare_drop_alerts),
+      rareItemIds
+    );
+    if (alerts.length === 0) return;
+
+    setRareDropQueue(prev => [...prev, ...alerts]);
+    alerts.forEach(alert => {
+      window.electronAPI.showRareDropAlert(alert).catch(error => {
+        console.error('Failed to send rare drop alert to overlay:', error);
+      });
+    });
+  }, [session.lootEvents]);
+
+  // Show queued alerts one at a time
+  const currentRareDrop = rareDropQueue[0];
+  useEffect(() => {
+    if (!currentRareDrop) return;
+
+    if (currentRareDrop.sound) {
+      playRareDropSound();
+    }
+    const timeout = setTimeout(() => {
+      setRareDropQueue(prev => prev.slice(1));
+    }, RARE_DROP_ALERT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [currentRareDrop?.id]);
+
   // Prevent page refresh when session is active
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -185,7 +532,7 @@ export const SessionControl: React.FC<SessionControlProps> = ({
           type: 'confirmation',
           title: 'Refresh Warning',
           message: session.isActive 
-            ? 'You have an active grinding session. Refreshing will stop your session and all progress will be lost. Are you sure you want to continue?'
+            ? 'You have an active grinding session. Refreshing will stop your session; you will be offered to resume it after the reload. Are you sure you want to continue?'
             : 'You have a streaming overlay open. Refreshing will close the overlay. Are you sure you want to continue?',
           confirmText: 'Continue',
           cancelText: 'Cancel',
@@ -214,25 +561,15 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     };
   }, [session.isActive, streamingOverlayOpen, showModal, hideModal]);
 
-  // Update streaming overlay when session data changes
+  // Update streaming overlay (window and browser sources) when session data changes
   useEffect(() => {
-    if (streamingOverlayOpen && session.isActive) {
-      const overlayData = {
-        location: session.location,
-        items: lootTableItems,
-        itemCounts: Object.fromEntries(session.itemCounts),
-        sessionStartTime: session.startTime?.toISOString(),
-        grossValue: calculateGrossValue(),
-        postTaxValue: calculateTotalValue(),
-        taxBreakdown: getTaxBreakdown()
-      };
-      
+    if ((streamingOverlayOpen || overlayServer.running) && session.isActive) {
       // Update overlay directly
-      window.electronAPI.updateStreamingOverlay(overlayData).catch(error => {
+      window.electronAPI.updateStreamingOverlay(getOverlayData()).catch(error => {
         console.error('Failed to update streaming overlay:', error);
       });
     }
-  }, [streamingOverlayOpen, session.isActive, session.startTime, session.location, session.itemCounts, lootTableItems]);
+  }, [streamingOverlayOpen, overlayServer.running, session.isActive, session.startTime, session.location, session.itemCounts, session.pausedAt, session.pausedIntervals, lootTableItems, metricsTick, targetHours, overlaySettings]);
 
   const loadLocations = async () => {
     try {
@@ -304,7 +641,9 @@ export const SessionControl: React.FC<SessionControlProps> = ({
       const allItems = itemsResult.data || [];
       const lootItems = allItems
         .filter((item) => lootTable.item_ids.includes(item.id))
-        .map((item) => calculateItemPrice(item, allItems, false)) // false = don't apply tax calculations
+        .map((item) =>
+          calculateItemPrice(item, allItems, userPreferences.preferred_region, taxSettings, false) // false = don't apply tax calculations
+        )
         .filter((item) => item !== null) as ItemWithPrice[];
 
       setLootTableItems(lootItems);
@@ -314,113 +653,6 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     }
   };
 
-  const calculateItemPrice = (
-    item: Item,
-    allItems: Item[],
-    applyTaxCalculations: boolean = false
-  ): ItemWithPrice | null => {
-    let calculatedPrice = 0;
-    const userRegion = userPreferences.preferred_region;
-
-    if (item.type === "marketplace") {
-      // For marketplace items, find the item in the user's preferred region
-      const regionItem = allItems.find(
-        (i) =>
-          i.bdo_item_id === item.bdo_item_id &&
-          i.region === userRegion &&
-          i.type === "marketplace"
-      );
-
-      let preTaxPrice = 0;
-      if (regionItem) {
-        // COALESCE(last_sold_price, base_price) for the user's region
-        preTaxPrice = regionItem.last_sold_price || regionItem.base_price;
-      } else {
-        // Fallback to the current item if no region-specific item found
-        preTaxPrice = item.last_sold_price || item.base_price;
-      }
-
-      if (applyTaxCalculations) {
-        // Apply tax calculations for marketplace items
-        calculatedPrice = calculatePostTaxValue(
-          preTaxPrice,
-          taxSettings.value_pack,
-          taxSettings.rich_merchant_ring,
-          taxSettings.family_fame
-        );
-      } else {
-        // Use raw pre-tax price
-        calculatedPrice = preTaxPrice;
-      }
-    } else if (item.type === "trash_loot") {
-      // base_price for trash loot (region-independent, no tax)
-      calculatedPrice = item.base_price;
-    } else if (
-      item.type === "conversion" &&
-      item.convertible_to_bdo_item_id &&
-      item.conversion_ratio
-    ) {
-      // Find the target marketplace item in the user's preferred region
-      const targetItem = allItems.find(
-        (i) =>
-          i.bdo_item_id === item.convertible_to_bdo_item_id &&
-          i.region === userRegion &&
-          i.type === "marketplace"
-      );
-
-      if (targetItem) {
-        const targetPreTaxPrice = targetItem.last_sold_price || targetItem.base_price;
-        
-        if (applyTaxCalculations) {
-          // Calculate the post-tax value of the target marketplace item
-          const targetPostTaxPrice = calculatePostTaxValue(
-            targetPreTaxPrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          
-          // Use the post-tax price divided by conversion ratio
-          calculatedPrice = targetPostTaxPrice / item.conversion_ratio;
-        } else {
-          // Use the raw pre-tax price divided by conversion ratio
-          calculatedPrice = targetPreTaxPrice / item.conversion_ratio;
-        }
-      } else {
-        // Fallback: try to find any item with the convertible_to_bdo_item_id
-        const fallbackItem = allItems.find(
-          (i) => i.bdo_item_id === item.convertible_to_bdo_item_id
-        );
-        if (fallbackItem) {
-          const targetPreTaxPrice = fallbackItem.last_sold_price || fallbackItem.base_price;
-          
-          if (applyTaxCalculations) {
-            // Calculate the post-tax value of the target marketplace item
-            const targetPostTaxPrice = calculatePostTaxValue(
-              targetPreTaxPrice,
-              taxSettings.value_pack,
-              taxSettings.rich_merchant_ring,
-              taxSettings.family_fame
-            );
-            
-            // Use the post-tax price divided by conversion ratio
-            calculatedPrice = targetPostTaxPrice / item.conversion_ratio;
-          } else {
-            // Use the raw pre-tax price divided by conversion ratio
-            calculatedPrice = targetPreTaxPrice / item.conversion_ratio;
-          }
-        } else {
-          return null; // Skip if target item not found
-        }
-      }
-    }
-
-    return {
-      ...item,
-      calculatedPrice: Math.round(calculatedPrice),
-    };
-  };
-
   const handleStartSession = async () => {
     if (!selectedLocation) {
       console.error("No location selected");
@@ -428,6 +660,28 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     }
 
     try {
+      // The region's monitor may have been unplugged or rescaled since it was selected
+      if (ocrRegion) {
+        const validation = await window.electronAPI.validateOCRRegion(ocrRegion);
+        if (validation.success && validation.data && !validation.data.valid) {
+          const modalId = 'ocr-region-unavailable';
+          showModal({
+            id: modalId,
+            type: 'confirmation',
+            title: 'Loot Detection Region Unavailable',
+            message: validation.data.error || 'The loot detection region can no longer be captured.',
+            confirmText: 'Reconfigure Region',
+            cancelText: 'Cancel',
+            onConfirm: () => {
+              hideModal(modalId);
+              onOpenSettings();
+            },
+            onClose: () => hideModal(modalId),
+          });
+          return;
+        }
+      }
+
       // Save tax settings to database when starting session
       const result = await window.electronAPI.userPreferences.update(
         userPreferences.user_id,
@@ -439,11 +693,18 @@ export const SessionControl: React.FC<SessionControlProps> = ({
         // Continue with session start even if tax settings failed to save
       }
 
+      stoppingRef.current = false;
+      valueSamplesRef.current = [{ activeSeconds: 0, value: 0 }];
+      setReviewQueue([]);
       const newSession = {
         isActive: true,
         startTime: new Date(),
         location: selectedLocation,
         itemCounts: new Map(),
+        pausedIntervals: [],
+        lootHistory: [],
+        lootEvents: [],
+        priceSnapshot: createPriceSnapshot(lootTableItems, taxSettings),
       };
       
       setSession(newSession);
@@ -452,7 +713,68 @@ export const SessionControl: React.FC<SessionControlProps> = ({
     }
   };
 
+  const handleRestoreCheckpoint = (checkpoint: SessionCheckpoint) => {
+    stoppingRef.current = false;
+    // Restored drops already had their alerts
+    seenLootEventsRef.current = (checkpoint.loot_events || []).length;
+    // Samples aren't checkpointed, so the rolling rate rebuilds after a restore
+    valueSamplesRef.current = [];
+    setTaxSettings(checkpoint.tax_calculations);
+    setSelectedLocation(checkpoint.location);
+    // The time the app was down isn't active time. A session saved while paused
+    // keeps its open pause, which already covers the gap.
+    const pausedIntervals = [...(checkpoint.paused_intervals || [])];
+    if (!checkpoint.paused_at) {
+      pausedIntervals.push({ start: checkpoint.saved_at, end: new Date().toISOString() });
+    }
+    setSession({
+      isActive: true,
+      startTime: new Date(checkpoint.start_time),
+      location: checkpoint.location,
+      itemCounts: new Map(
+        Object.entries(checkpoint.item_counts).map(([itemId, count]) => [Number(itemId), count])
+      ),
+      pausedAt: checkpoint.paused_at ? new Date(checkpoint.paused_at) : undefined,
+      pausedIntervals,
+      lootHistory: [],
+      lootEvents: checkpoint.loot_events || [],
+      priceSnapshot: checkpoint.price_snapshot || undefined,
+    });
+  };
+
+  const handlePauseSession = () => {
+    setSession(prev => {
+      if (!prev.isActive || prev.pausedAt) return prev;
+      return { ...prev, pausedAt: new Date() };
+    });
+  };
+
+  const handleResumeSession = () => {
+    setSession(prev => {
+      if (!prev.isActive || !prev.pausedAt) return prev;
+      return {
+        ...prev,
+        pausedAt: undefined,
+        pausedIntervals: [
+          ...prev.pausedIntervals,
+          { start: prev.pausedAt.toISOString(), end: new Date().toISOString() },
+        ],
+      };
+    });
+  };
+
+  const handleCloseStreamingOverlay = async () => {
+    try {
+      await window.electronAPI.closeStreamingOverlay();
+      setStreamingOverlayOpen(false);
+    } catch (error) {
+      console.error('Failed to close streaming overlay:', error);
+    }
+  };
+
   const handleStopSession = async () => {
+    stoppingRef.current = true;
+
     // Close streaming overlay if it's open
     if (streamingOverlayOpen) {
       try {
@@ -462,11 +784,70 @@ export const SessionControl: React.FC<SessionControlProps> = ({
         console.error('Failed to close streaming overlay:', error);
       }
     }
-    
-    // Reset session state
-    setSession({ 
-      isActive: false, 
-      itemCounts: new Map() 
+
+    // Browser sources outlive the session; leave them showing the final totals
+    if (overlayServer.running && session.isActive) {
+      window.electronAPI.updateStreamingOverlay({ ...getOverlayData(), ended: true }).catch(error => {
+        console.error('Failed to update streaming overlay:', error);
+      });
+    }
+
+    // Persist the finished session before resetting local state
+    if (session.isActive && session.startTime && session.location) {
+      const endTime = new Date();
+      const valuation = getLootValuation();
+      // Close a pause that is still running when the session is stopped
+      const pausedIntervals = session.pausedAt
+        ? [...session.pausedIntervals, { start: session.pausedAt.toISOString(), end: endTime.toISOString() }]
+        : session.pausedIntervals;
+      try {
+        const result = await window.electronAPI.sessions.create(
+          userPreferences.user_id,
+          {
+            location_id: session.location.id,
+            region: userPreferences.preferred_region,
+            start_time: session.startTime.toISOString(),
+            end_time: endTime.toISOString(),
+            duration_seconds: Math.floor((endTime.getTime() - session.startTime.getTime()) / 1000),
+            active_seconds: calculateActiveSeconds(session.startTime, pausedIntervals, undefined, endTime),
+            paused_intervals: pausedIntervals,
+            loot_events: session.lootEvents,
+            tax_calculations: sessionTaxSettings,
+            price_snapshot: session.priceSnapshot || null,
+            gross_value: valuation.grossValue,
+            post_tax_value: valuation.postTaxValue,
+            item_counts: Object.fromEntries(session.itemCounts),
+          }
+        );
+
+        if (result.success) {
+          await window.electronAPI.sessionCheckpoint.clear();
+        } else {
+          // The checkpoint is kept so the session can be resumed and stopped again later
+          console.error('Failed to save grind session:', result.error);
+          showModal({
+            id: 'session-save-error',
+            type: 'status',
+            title: 'Session Not Saved',
+            content: `Your session could not be saved: ${result.error || 'Unknown error'}. It has been kept locally and you will be offered to resume it next time.`,
+            closable: true,
+            onClose: () => hideModal('session-save-error'),
+          });
+        }
+      } catch (error) {
+        console.error('Error saving grind session:', error);
+      }
+    }
+
+    // Reset session state; unreviewed detections are dropped with it
+    valueSamplesRef.current = [];
+    setReviewQueue([]);
+    setSession({
+      isActive: false,
+      itemCounts: new Map(),
+      pausedIntervals: [],
+      lootHistory: [],
+      lootEvents: [],
     });
   };
 
@@ -478,13 +859,9 @@ export const SessionControl: React.FC<SessionControlProps> = ({
 
     try {
       const overlayData = {
+        ...getOverlayData(),
         location: session.location || selectedLocation || undefined, // Use selectedLocation if session hasn't started
-        items: lootTableItems,
-        itemCounts: Object.fromEntries(session.itemCounts),
         sessionStartTime: session.startTime?.toISOString() || new Date().toISOString(),
-        grossValue: session.isActive ? calculateGrossValue() : 0,
-        postTaxValue: session.isActive ? calculateTotalValue() : 0,
-        taxBreakdown: session.isActive ? getTaxBreakdown() : null
       };
       
       const result = await window.electronAPI.openStreamingOverlay(overlayData);
@@ -500,187 +877,207 @@ export const SessionControl: React.FC<SessionControlProps> = ({
 
 
 
-  const calculateTotalValue = (): number => {
-    let totalValue = 0;
-    lootTableItems.forEach(item => {
-      const count = session.itemCounts.get(item.id) || 0;
-      
-      // During active session, calculate the post-tax price for each item
-      let postTaxPrice = 0;
-      
-      if (item.type === "marketplace") {
-        // Use the raw price from calculatedPrice and apply tax
-        const preTaxPrice = item.calculatedPrice; // This is the raw price since we loaded with applyTaxCalculations=false
-        postTaxPrice = calculatePostTaxValue(
-          preTaxPrice,
-          taxSettings.value_pack,
-          taxSettings.rich_merchant_ring,
-          taxSettings.family_fame
-        );
-      } else if (item.type === "trash_loot") {
-        // Trash loot is not taxed, use calculatedPrice directly
-        postTaxPrice = item.calculatedPrice;
-      } else if (item.type === "conversion" && item.convertible_to_bdo_item_id && item.conversion_ratio) {
-        // For conversion items, the calculatedPrice is already the raw conversion value
-        // We need to apply tax to the target marketplace item and then divide by conversion ratio
-        const userRegion = userPreferences.preferred_region;
-        const targetItem = lootTableItems.find(i => 
-          i.bdo_item_id === item.convertible_to_bdo_item_id && 
-          i.region === userRegion && 
-          i.type === "marketplace"
-        );
-        
-        if (targetItem) {
-          // Use the target item's raw price and apply tax
-          const targetPostTaxPrice = calculatePostTaxValue(
-            targetItem.calculatedPrice, // Raw price of target marketplace item
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          postTaxPrice = targetPostTaxPrice / item.conversion_ratio;
-        } else {
-          // Fallback: use the conversion item's calculated price (raw) and apply estimated tax
-          const rawConversionPrice = item.calculatedPrice;
-          // Estimate the marketplace price this conversion represents
-          const estimatedMarketplacePrice = rawConversionPrice * item.conversion_ratio;
-          const taxedMarketplacePrice = calculatePostTaxValue(
-            estimatedMarketplacePrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          postTaxPrice = taxedMarketplacePrice / item.conversion_ratio;
-        }
-      }
-      
-      totalValue += count * Math.round(postTaxPrice);
-    });
-    return totalValue;
+  const getOverlayData = () => {
+    const valuation = getLootValuation();
+    return {
+      location: session.location,
+      items: sessionItems,
+      itemCounts: Object.fromEntries(session.itemCounts),
+      sessionStartTime: session.startTime?.toISOString(),
+      pausedMs: calculatePausedMs(session.pausedIntervals),
+      pausedAt: session.pausedAt?.toISOString() || null,
+      itemValues: getItemValues(valuation),
+      grossValue: valuation.grossValue,
+      postTaxValue: valuation.postTaxValue,
+      taxBreakdown: valuation,
+      metrics: getSessionMetrics(),
+      widgets: getActiveOverlayPreset(overlaySettings).widgets,
+      recentDrops: getRecentDrops(session.lootEvents, OVERLAY_MAX_LIST_ITEMS)
+    };
   };
 
-  const calculateGrossValue = (): number => {
-    let grossValue = 0;
-    
-    lootTableItems.forEach(item => {
-      const count = session.itemCounts.get(item.id) || 0;
-      // Use the raw calculatedPrice since it was loaded with applyTaxCalculations=false
-      const preTaxPrice = item.calculatedPrice;
-      grossValue += count * preTaxPrice;
-    });
-    
-    return grossValue;
-  };
+  // Live numbers while a session runs, sample numbers otherwise
+  const getOverlayPreviewData = (): OverlayPreviewData => {
+    if (!session.isActive || !session.startTime) {
+      return getSampleOverlayPreviewData(sessionItems);
+    }
 
-  const getTaxBreakdown = () => {
-    const userRegion = userPreferences.preferred_region;
-    let taxableGrossValue = 0;
-    let taxablePostTaxValue = 0;
-    let nonTaxableValue = 0;
-    
-    // Calculate taxable and non-taxable values separately
-    lootTableItems.forEach(item => {
-      const count = session.itemCounts.get(item.id) || 0;
-      
-      if (item.type === "trash_loot") {
-        // Trash loot is not taxed - use calculatedPrice directly
-        nonTaxableValue += count * item.calculatedPrice;
-      } else if (item.type === "marketplace") {
-        // Marketplace items are taxed - use calculatedPrice as pre-tax value
-        const preTaxPrice = item.calculatedPrice;
-        const postTaxPrice = calculatePostTaxValue(
-          preTaxPrice,
-          taxSettings.value_pack,
-          taxSettings.rich_merchant_ring,
-          taxSettings.family_fame
-        );
-        taxableGrossValue += count * preTaxPrice;
-        taxablePostTaxValue += count * postTaxPrice;
-      } else if (item.type === "conversion" && item.convertible_to_bdo_item_id && item.conversion_ratio) {
-        // Conversion items use the post-tax value of their target marketplace item
-        const targetItem = lootTableItems.find(i => 
-          i.bdo_item_id === item.convertible_to_bdo_item_id && 
-          i.region === userRegion && 
-          i.type === "marketplace"
-        );
-        
-        if (targetItem) {
-          // Use the target item's calculatedPrice as the pre-tax marketplace price
-          const targetPreTaxPrice = targetItem.calculatedPrice;
-          const targetPostTaxPrice = calculatePostTaxValue(
-            targetPreTaxPrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          
-          const conversionPreTaxPrice = targetPreTaxPrice / item.conversion_ratio;
-          const conversionPostTaxPrice = targetPostTaxPrice / item.conversion_ratio;
-          
-          taxableGrossValue += count * conversionPreTaxPrice;
-          taxablePostTaxValue += count * conversionPostTaxPrice;
-        } else {
-          // Fallback: use the conversion item's calculatedPrice
-          const conversionPreTaxPrice = item.calculatedPrice;
-          
-          // Estimate the marketplace price this represents and apply tax
-          const estimatedMarketplacePrice = conversionPreTaxPrice * item.conversion_ratio;
-          const taxedMarketplacePrice = calculatePostTaxValue(
-            estimatedMarketplacePrice,
-            taxSettings.value_pack,
-            taxSettings.rich_merchant_ring,
-            taxSettings.family_fame
-          );
-          const conversionPostTaxPrice = taxedMarketplacePrice / item.conversion_ratio;
-          
-          taxableGrossValue += count * conversionPreTaxPrice;
-          taxablePostTaxValue += count * conversionPostTaxPrice;
-        }
-      }
-    });
-    
-    const totalGrossValue = taxableGrossValue + nonTaxableValue;
-    const totalPostTaxValue = taxablePostTaxValue + nonTaxableValue;
-    const taxAmount = taxableGrossValue - taxablePostTaxValue;
-    const effectiveTaxRate = taxableGrossValue > 0 ? (taxAmount / taxableGrossValue) * 100 : 0;
-    
+    const valuation = getLootValuation();
+    const metrics = getSessionMetrics();
     return {
-      grossValue: totalGrossValue,
-      postTaxValue: totalPostTaxValue,
-      taxableGrossValue,
-      taxablePostTaxValue,
-      nonTaxableValue,
-      taxAmount,
-      effectiveTaxRate,
-      bonuses: {
-        valuePack: taxSettings.value_pack,
-        richMerchantRing: taxSettings.rich_merchant_ring,
-        familyFame: taxSettings.family_fame
-      }
+      items: sessionItems,
+      itemCounts: Object.fromEntries(session.itemCounts),
+      itemValues: getItemValues(valuation),
+      grossValue: valuation.grossValue,
+      postTaxValue: valuation.postTaxValue,
+      taxAmount: valuation.taxAmount,
+      effectiveTaxRate: valuation.effectiveTaxRate,
+      silverPerHour: metrics?.silverPerHour || 0,
+      rollingSilverPerHour: metrics?.rollingSilverPerHour || 0,
+      activeSeconds: calculateActiveSeconds(session.startTime, session.pausedIntervals, session.pausedAt),
+      wallClockSeconds: Math.floor((Date.now() - session.startTime.getTime()) / 1000),
+      paused: !!session.pausedAt,
+      recentDrops: getRecentDrops(session.lootEvents, OVERLAY_MAX_LIST_ITEMS),
     };
   };
 
-  const formatSessionDuration = (startTime: Date): string => {
-    const currentTime = new Date();
-    const diff = currentTime.getTime() - startTime.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const seconds = Math.floor((diff % 60000) / 1000);
-    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  const handleToggleRareItem = async (itemId: number) => {
+    const previous = rareItemIds;
+    const next = previous.includes(itemId)
+      ? previous.filter(id => id !== itemId)
+      : [...previous, itemId];
+    setRareItemIds(next);
+
+    try {
+      const result = await window.electronAPI.userPreferences.update(
+        userPreferences.user_id,
+        { rare_item_ids: next }
+      );
+      if (!result.success) {
+        console.error("Failed to save rare items:", result.error);
+        setRareItemIds(previous);
+      }
+    } catch (error) {
+      console.error("Error saving rare items:", error);
+      setRareItemIds(previous);
+    }
+  };
+
+  const handleSaveOverlaySettings = async (settings: OverlaySettings) => {
+    const result = await window.electronAPI.userPreferences.update(
+      userPreferences.user_id,
+      { overlay_settings: settings }
+    );
+    if (result.success) {
+      setOverlaySettings(settings);
+    } else {
+      console.error("Failed to save overlay settings:", result.error);
+    }
+    return result;
   };
 
+  const overlayEditor = (
+    <Modal
+      isOpen={showOverlayEditor}
+      onClose={() => setShowOverlayEditor(false)}
+      title='Customize Overlay'
+      width='900px'
+    >
+      <OverlayLayoutEditor
+        settings={overlaySettings}
+        previewData={getOverlayPreviewData()}
+        onSave={handleSaveOverlaySettings}
+        onClose={() => setShowOverlayEditor(false)}
+      />
+    </Modal>
+  );
+
+  const rareDropBanner = currentRareDrop && (
+    <RareDropAlertBanner
+      key={currentRareDrop.id}
+      alert={currentRareDrop}
+      queued={rareDropQueue.length - 1}
+      onDismiss={() => setRareDropQueue(prev => prev.slice(1))}
+    />
+  );
+
+  const getLootValuation = (): LootValuation =>
+    calculateLootValuation(
+      sessionItems,
+      session.itemCounts,
+      userPreferences.preferred_region,
+      sessionTaxSettings
+    );
+
+  // Live rates for the overlay; ActiveSession computes its own on every timer tick
+  const getSessionMetrics = (): SessionMetrics | null => {
+    if (!session.isActive || !session.startTime) return null;
+
+    return calculateSessionMetrics(
+      calculateActiveSeconds(session.startTime, session.pausedIntervals, session.pausedAt),
+      getLootValuation().postTaxValue,
+      session.itemCounts,
+      valueSamplesRef.current,
+      targetHours * 3600
+    );
+  };
+
+  const handleHotkey = (action: HotkeyAction) => {
+    const itemSlot = getHotkeyItemSlot(action);
+    if (itemSlot !== null) {
+      // Loot can only change while a session is running
+      if (!session.isActive) return;
+      const item = sessionItems[itemSlot];
+      if (item) {
+        dispatchLoot({ type: 'adjust', itemId: item.id, delta: 1 });
+      }
+      return;
+    }
+
+    switch (action) {
+      case 'start_stop':
+        if (session.isActive) {
+          // A second press while the session is being saved would save it twice
+          if (!stoppingRef.current) {
+            handleStopSession();
+          }
+        } else if (selectedLocation && lootTableItems.length > 0) {
+          handleStartSession();
+        }
+        break;
+      case 'pause_resume':
+        if (isPaused) {
+          handleResumeSession();
+        } else {
+          handlePauseSession();
+        }
+        break;
+      case 'toggle_overlay':
+        if (streamingOverlayOpen) {
+          handleCloseStreamingOverlay();
+        } else {
+          handleOpenStreamingOverlay();
+        }
+        break;
+      case 'undo_last_drop':
+        if (!session.isActive) return;
+        dispatchLoot({ type: 'undo' });
+        break;
+    }
+  };
+  hotkeyHandlerRef.current = handleHotkey;
+
   // If session is active, render the ActiveSession component
   if (session.isActive && session.startTime) {
     return (
-      <ActiveSession
-        session={session}
-        lootTableItems={lootTableItems}
-        taxSettings={taxSettings}
-        userPreferences={userPreferences}
-        streamingOverlayOpen={streamingOverlayOpen}
-        onStopSession={handleStopSession}
-        onOpenStreamingOverlay={handleOpenStreamingOverlay}
-        onItemDetected={handleItemDetected}
-      />
+      <>
+        <ActiveSession
+          session={session}
+          lootTableItems={sessionItems}
+          taxSettings={sessionTaxSettings}
+          userPreferences={userPreferences}
+          streamingOverlayOpen={streamingOverlayOpen}
+          overlayServer={overlayServer}
+          overlayWindow={overlayWindow}
+          onCloseStreamingOverlay={handleCloseStreamingOverlay}
+          onStopSession={handleStopSession}
+          onPauseSession={handlePauseSession}
+          onResumeSession={handleResumeSession}
+          valueSamples={valueSamplesRef.current}
+          targetHours={targetHours}
+          onTargetHoursChange={setTargetHours}
+          onOpenStreamingOverlay={handleOpenStreamingOverlay}
+          onItemDetected={handleItemDetected}
+          onAdjustLoot={(itemId, delta) => dispatchLoot({ type: 'adjust', itemId, delta })}
+          onUndoLoot={() => dispatchLoot({ type: 'undo' })}
+          reviewQueue={reviewQueue}
+          onAcceptReview={handleAcceptReview}
+          onRejectReview={handleRejectReview}
+          onCustomizeOverlay={() => setShowOverlayEditor(true)}
+        />
+        {overlayEditor}
+        {rareDropBanner}
+      </>
     );
   }
 
@@ -797,6 +1194,15 @@ export const SessionControl: React.FC<SessionControlProps> = ({
                   <div className='loot-items-compact'>
                     {lootTableItems.map((item) => (
                       <div key={item.id} className='loot-item-compact'>
+                        <button
+                          onClick={() => handleToggleRareItem(item.id)}
+                          className={`rare-flag-button ${rareItemIds.includes(item.id) ? 'flagged' : ''}`}
+                          title={rareItemIds.includes(item.id) ? 'Rare: alerts when it drops' : 'Mark as rare to get an alert when it drops'}
+                          aria-label={`Mark ${item.name} as rare`}
+                          aria-pressed={rareItemIds.includes(item.id)}
+                        >
+                          ★
+                        </button>
                         <div className='item-image-container'>
                           {item.image_url ? (
                             <img
@@ -859,6 +1265,12 @@ export const SessionControl: React.FC<SessionControlProps> = ({
             >
               Reconfigure Region
             </button>
+            <button
+              onClick={() => setShowOverlayEditor(true)}
+              className='configure-button secondary'
+            >
+              Customize Overlay
+            </button>
           </div>
         </div>
       ) : (
@@ -889,6 +1301,9 @@ export const SessionControl: React.FC<SessionControlProps> = ({
           </div>
         </div>
       )}
+
+      {overlayEditor}
+      {rareDropBanner}
     </div>
   );
 };
@@ -1,2 +1,8 @@
 export { SessionControl } from "./SessionControl";
 export { ActiveSession } from "./ActiveSession";
+export { LootBreakdown } from "./LootBreakdown";
+export { LootTimeline } from "./LootTimeline";
+export { DetectionReviewQueue } from "./DetectionReviewQueue";
+export { OverlayServerControls } from "./OverlayServerControls";
+export { OverlayWindowControls } from "./OverlayWindowControls";
+export { RareDropAlertBanner } from "./RareDropAlertBanner";
@@ -0,0 +1,118 @@
+import React, { useState } from "react";
+import { ExportFormat } from "../../types";
+import {
+  SessionExportRecord,
+  formatSessionExport,
+  formatSessionsAsMarkdown,
+  EXPORT_FILE_EXTENSIONS,
+} from "../../utils/sessionExport";
+import "./SessionExportControls.css";
+
+interface SessionExportControlsProps {
+  getRecords: () => SessionExportRecord[] | Promise<SessionExportRecord[]>; // Throw to report a failed load
+  fileNameBase: string; // Without extension
+  disabled?: boolean;
+}
+
+// Format picker plus save/copy actions, shared by the active session and session history
+export const SessionExportControls: React.FC<SessionExportControlsProps> = ({
+  getRecords,
+  fileNameBase,
+  disabled = false,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const loadRecords = async (): Promise<SessionExportRecord[] | null> => {
+    let records: SessionExportRecord[];
+    try {
+      records = await getRecords();
+    } catch (err) {
+      console.error("Error loading sessions to export:", err);
+      setStatus(err instanceof Error ? err.message : "Could not load sessions");
+      return null;
+    }
+
+    if (records.length === 0) {
+      setStatus("Nothing to export");
+      return null;
+    }
+    return records;
+  };
+
+  const handleSave = async () => {
+    try {
+      setBusy(true);
+      setStatus(null);
+      const records = await loadRecords();
+      if (!records) return;
+
+      const result = await window.electronAPI.export.saveFile({
+        content: formatSessionExport(records, format),
+        defaultFileName: `${fileNameBase}.${EXPORT_FILE_EXTENSIONS[format]}`,
+        format,
+      });
+
+      if (!result.success) {
+        setStatus(result.error || "Export failed");
+      } else if (!result.data?.canceled) {
+        setStatus(`Exported ${records.length} session${records.length === 1 ? "" : "s"}`);
+      }
+    } catch (err) {
+      console.error("Error exporting sessions:", err);
+      setStatus("Export failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyMarkdown = async () => {
+    try {
+      setBusy(true);
+      setStatus(null);
+      const records = await loadRecords();
+      if (!records) return;
+
+      const result = await window.electronAPI.export.copyToClipboard(formatSessionsAsMarkdown(records));
+      setStatus(result.success ? "Summary copied" : result.error || "Copy failed");
+    } catch (err) {
+      console.error("Error copying session summary:", err);
+      setStatus("Copy failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className='session-export-controls'>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        className='export-format-select'
+        disabled={disabled || busy}
+        aria-label='Export format'
+      >
+        <option value='csv'>CSV</option>
+        <option value='json'>JSON</option>
+        <option value='markdown'>Markdown</option>
+      </select>
+      <button
+        onClick={handleSave}
+        className='configure-button secondary export-button'
+        disabled={disabled || busy}
+      >
+        Export
+      </button>
+      <button
+        onClick={handleCopyMarkdown}
+        className='configure-button secondary export-button'
+        disabled={disabled || busy}
+        title='Copy a Markdown summary for Discord'
+      >
+        Copy Summary
+      </button>
+      {status && <span className='export-status'>{status}</span>}
+    </div>
+  );
+};
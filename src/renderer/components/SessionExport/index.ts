@@ -0,0 +1 @@
+export { SessionExportControls } from "./SessionExportControls";
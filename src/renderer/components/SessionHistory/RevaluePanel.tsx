@@ -0,0 +1,100 @@
+import React from "react";
+import { LootValuation } from "../../utils/lootValuation";
+
+interface RevaluePanelProps {
+  stored: LootValuation; // Valued at the session's price snapshot
+  current: LootValuation; // Valued at today's prices
+  snapshotDate?: string | null;
+  saving: boolean;
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+const formatDiff = (diff: number): string =>
+  `${diff > 0 ? "+" : ""}${diff.toLocaleString()}`;
+
+const diffClassName = (diff: number): string =>
+  diff > 0 ? "revalue-diff positive" : diff < 0 ? "revalue-diff negative" : "revalue-diff";
+
+// Side-by-side comparison of a stored session's value against current prices
+export const RevaluePanel: React.FC<RevaluePanelProps> = ({
+  stored,
+  current,
+  snapshotDate,
+  saving,
+  onApply,
+  onDismiss,
+}) => {
+  const changedItems = current.items.filter((entry) => {
+    const storedEntry = stored.items.find((s) => s.item.id === entry.item.id);
+    return !storedEntry || storedEntry.postTaxPrice !== entry.postTaxPrice;
+  });
+  const postTaxDiff = current.postTaxValue - stored.postTaxValue;
+
+  return (
+    <div className='revalue-panel'>
+      <h4>Revalued at Current Prices</h4>
+      <p className='revalue-note'>
+        {snapshotDate
+          ? `Recorded values use prices frozen on ${new Date(snapshotDate).toLocaleString()}.`
+          : "This session was recorded before price snapshots; recorded values are shown as saved."}
+      </p>
+
+      <table className='revalue-table'>
+        <thead>
+          <tr>
+            <th></th>
+            <th>Recorded</th>
+            <th>Current</th>
+            <th>Difference</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td>Gross</td>
+            <td>{stored.grossValue.toLocaleString()}</td>
+            <td>{current.grossValue.toLocaleString()}</td>
+            <td className={diffClassName(current.grossValue - stored.grossValue)}>
+              {formatDiff(current.grossValue - stored.grossValue)}
+            </td>
+          </tr>
+          <tr>
+            <td>Post-Tax</td>
+            <td>{stored.postTaxValue.toLocaleString()}</td>
+            <td>{current.postTaxValue.toLocaleString()}</td>
+            <td className={diffClassName(postTaxDiff)}>{formatDiff(postTaxDiff)}</td>
+          </tr>
+          {changedItems.map((entry) => {
+            const storedEntry = stored.items.find((s) => s.item.id === entry.item.id);
+            const storedValue = storedEntry?.postTaxValue || 0;
+            return (
+              <tr key={entry.item.id} className='revalue-item-row'>
+                <td title={`${entry.count} × ${(storedEntry?.postTaxPrice || 0).toLocaleString()} → ${entry.postTaxPrice.toLocaleString()}`}>
+                  {entry.item.name}
+                </td>
+                <td>{storedValue.toLocaleString()}</td>
+                <td>{entry.postTaxValue.toLocaleString()}</td>
+                <td className={diffClassName(entry.postTaxValue - storedValue)}>
+                  {formatDiff(entry.postTaxValue - storedValue)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div className='revalue-actions'>
+        <button onClick={onDismiss} className='configure-button secondary' disabled={saving}>
+          Keep Recorded Values
+        </button>
+        <button
+          onClick={onApply}
+          className='configure-button revalue-apply-button'
+          disabled={saving || (postTaxDiff === 0 && current.grossValue === stored.grossValue)}
+        >
+          {saving ? "Saving..." : "Save Current Values"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,521 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  UserPreferences,
+  Location,
+  Item,
+  GrindSession,
+  GrindSessionWithLoot,
+  GrindSessionFilters,
+} from "../../types";
+import { useModal } from "../../contexts/ModalContext";
+import { useConfirmation } from "../../utils/modalHelpers";
+import {
+  calculateLootValuation,
+  applyPriceSnapshot,
+  createPriceSnapshot,
+  LootValuation,
+} from "../../utils/lootValuation";
+import { formatDuration, calculateSilverPerHour } from "../../utils/sessionUtils";
+import { SearchableSelect } from "../SearchableSelect";
+import { LootBreakdown, LootBreakdownEntry } from "../SessionControl/LootBreakdown";
+import { LootTimeline } from "../SessionControl/LootTimeline";
+import {
+  buildSessionExportRecord,
+  getSessionExportFileName,
+  SessionExportRecord,
+} from "../../utils/sessionExport";
+import { SessionExportControls } from "../SessionExport";
+import { RevaluePanel } from "./RevaluePanel";
+import { SessionImportModal } from "./SessionImportModal";
+import "./SessionHistory.css";
+
+interface SessionHistoryProps {
+  userPreferences: UserPreferences;
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({
+  userPreferences,
+}) => {
+  const [sessions, setSessions] = useState<GrindSession[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [locationFilter, setLocationFilter] = useState<Location | null>(null);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Drill-down
+  const [selectedSession, setSelectedSession] = useState<GrindSessionWithLoot | null>(null);
+  const [loadingDetail, setLoadingDetail] = useState(false);
+  const [revaluation, setRevaluation] = useState<LootValuation | null>(null);
+  const [revaluing, setRevaluing] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  const { showModal, hideModal } = useModal();
+  const showConfirmation = useConfirmation(showModal, hideModal);
+
+  // Locations and items are needed to label sessions, including archived ones
+  useEffect(() => {
+    const loadReferenceData = async () => {
+      try {
+        const [locationsResult, itemsResult] = await Promise.all([
+          window.electronAPI.locations.getAll(),
+          window.electronAPI.items.getAll(),
+        ]);
+
+        if (locationsResult.success && locationsResult.data) {
+          setLocations(locationsResult.data);
+        }
+        if (itemsResult.success && itemsResult.data) {
+          setItems(itemsResult.data);
+        }
+      } catch (err) {
+        console.error("Error loading session history reference data:", err);
+      }
+    };
+
+    loadReferenceData();
+  }, []);
+
+  const getFilters = useCallback((): GrindSessionFilters => {
+    const filters: GrindSessionFilters = {};
+    if (locationFilter) {
+      filters.location_id = locationFilter.id;
+    }
+    if (fromDate) {
+      filters.from = new Date(`${fromDate}T00:00:00`).toISOString();
+    }
+    if (toDate) {
+      filters.to = new Date(`${toDate}T23:59:59.999`).toISOString();
+    }
+    return filters;
+  }, [locationFilter, fromDate, toDate]);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const result = await window.electronAPI.sessions.getByUser(
+        userPreferences.user_id,
+        getFilters()
+      );
+
+      if (result.success && result.data) {
+        setSessions(result.data);
+      } else {
+        setError(result.error || "Failed to load sessions");
+      }
+    } catch (err) {
+      console.error("Error loading sessions:", err);
+      setError("Failed to load sessions");
+    } finally {
+      setLoading(false);
+    }
+  }, [userPreferences.user_id, getFilters]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // Sessions recorded before pausing existed only have wall-clock duration
+  const getActiveSeconds = (session: GrindSession): number => {
+    return session.active_seconds ?? session.duration_seconds;
+  };
+
+  const getLocationName = (locationId: number): string => {
+    return locations.find((l) => l.id === locationId)?.name || `Location #${locationId}`;
+  };
+
+  const handleSelectSession = async (sessionId: number) => {
+    try {
+      setLoadingDetail(true);
+      const result = await window.electronAPI.sessions.getById(sessionId);
+      if (result.success && result.data) {
+        setRevaluation(null);
+        setSelectedSession(result.data);
+      } else {
+        console.error("Failed to load session:", result.error);
+      }
+    } catch (err) {
+      console.error("Error loading session:", err);
+    } finally {
+      setLoadingDetail(false);
+    }
+  };
+
+  const handleDeleteSession = async (session: GrindSession) => {
+    const confirmed = await showConfirmation({
+      title: "Delete Session",
+      message: `Delete the ${getLocationName(session.location_id)} session from ${new Date(
+        session.start_time
+      ).toLocaleString()}? This cannot be undone.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      isDestructive: true,
+      onConfirm: () => {},
+    });
+
+    if (!confirmed) return;
+
+    try {
+      const result = await window.electronAPI.sessions.delete(session.id);
+      if (result.success) {
+        setSelectedSession(null);
+        loadSessions();
+      } else {
+        console.error("Failed to delete session:", result.error);
+      }
+    } catch (err) {
+      console.error("Error deleting session:", err);
+    }
+  };
+
+  const handleClearFilters = () => {
+    setLocationFilter(null);
+    setFromDate("");
+    setToDate("");
+  };
+
+  // Value a session's loot; without a snapshot, items are priced from `itemSource` for the session's region
+  const valueSession = (
+    session: GrindSessionWithLoot,
+    itemSource: Item[],
+    useSnapshot: boolean
+  ): LootValuation => {
+    const lootItems = session.loot
+      .map((loot) => itemSource.find((i) => i.id === loot.item_id))
+      .filter((item): item is Item => !!item);
+    const counts = Object.fromEntries(session.loot.map((loot) => [loot.item_id, loot.quantity]));
+    const snapshot = useSnapshot ? session.price_snapshot : null;
+
+    return calculateLootValuation(
+      snapshot ? applyPriceSnapshot(lootItems, snapshot) : lootItems,
+      counts,
+      session.region,
+      snapshot?.tax_calculations || session.tax_calculations,
+      itemSource
+    );
+  };
+
+  // What the session was recorded as: snapshot prices per item, saved totals overall
+  const getRecordedValuation = (session: GrindSessionWithLoot): LootValuation => ({
+    ...valueSession(session, items, true),
+    grossValue: session.gross_value,
+    postTaxValue: session.post_tax_value,
+  });
+
+  const getLootEntries = (session: GrindSessionWithLoot): LootBreakdownEntry[] => {
+    return valueSession(session, items, true).items.map(({ item, count, postTaxValue }) => ({
+      item,
+      count,
+      value: postTaxValue,
+    }));
+  };
+
+  const getExportRecord = (session: GrindSessionWithLoot): SessionExportRecord =>
+    buildSessionExportRecord({
+      status: "completed",
+      location: getLocationName(session.location_id),
+      region: session.region,
+      startTime: session.start_time,
+      endTime: session.end_time,
+      durationSeconds: session.duration_seconds,
+      activeSeconds: getActiveSeconds(session),
+      valuation: valueSession(session, items, true),
+      grossValue: session.gross_value,
+      postTaxValue: session.post_tax_value,
+    });
+
+  // Export every session matching the current filters; a failed load throws so
+  // the export controls don't mistake it for an empty range
+  const getFilteredExportRecords = async (): Promise<SessionExportRecord[]> => {
+    const result = await window.electronAPI.sessions.getByUserWithLoot(
+      userPreferences.user_id,
+      getFilters()
+    );
+    if (!result.success || !result.data) {
+      console.error("Failed to load sessions for export:", result.error);
+      throw new Error(`Could not load sessions: ${result.error || "Unknown error"}`);
+    }
+    return result.data.map(getExportRecord);
+  };
+
+  const getRangeExportFileName = (): string =>
+    `bdo-sessions-${fromDate || "start"}-to-${toDate || new Date().toISOString().slice(0, 10)}`;
+
+  const handleRevalue = async (session: GrindSessionWithLoot) => {
+    try {
+      setRevaluing(true);
+      // Fetch fresh prices rather than the ones loaded with the page
+      const result = await window.electronAPI.items.getAll();
+      if (!result.success || !result.data) {
+        console.error("Failed to load current prices:", result.error);
+        return;
+      }
+      setItems(result.data);
+      setRevaluation(valueSession(session, result.data, false));
+    } catch (err) {
+      console.error("Error revaluing session:", err);
+    } finally {
+      setRevaluing(false);
+    }
+  };
+
+  const handleApplyRevaluation = async (session: GrindSessionWithLoot, valuation: LootValuation) => {
+    try {
+      setRevaluing(true);
+      const result = await window.electronAPI.sessions.update(session.id, {
+        gross_value: valuation.grossValue,
+        post_tax_value: valuation.postTaxValue,
+        price_snapshot: createPriceSnapshot(
+          valuation.items.map(({ item, preTaxPrice }) => ({ ...item, calculatedPrice: preTaxPrice })),
+          session.tax_calculations
+        ),
+      });
+
+      if (result.success && result.data) {
+        setSelectedSession({ ...session, ...result.data });
+        setRevaluation(null);
+        loadSessions();
+      } else {
+        console.error("Failed to save revalued session:", result.error);
+      }
+    } catch (err) {
+      console.error("Error saving revalued session:", err);
+    } finally {
+      setRevaluing(false);
+    }
+  };
+
+  if (selectedSession) {
+    return (
+      <div className='session-history'>
+        <div className='session-header'>
+          <div className='session-status'>
+            <button
+              onClick={() => {
+                setSelectedSession(null);
+                setRevaluation(null);
+              }}
+              className='history-back-button'
+              title='Back to history'
+            >
+              ←
+            </button>
+            <h3>{getLocationName(selectedSession.location_id)}</h3>
+          </div>
+          <div className='session-duration-group'>
+            <div className='session-duration' title='Active time (excludes pauses)'>
+              {formatDuration(getActiveSeconds(selectedSession))}
+            </div>
+            <div className='wall-clock-duration' title='Wall-clock time from start to stop'>
+              {formatDuration(selectedSession.duration_seconds)} total
+            </div>
+          </div>
+        </div>
+
+        <div className='session-stats'>
+          <div className='stat'>
+            <span className='stat-label'>Gross Value (Pre-Tax):</span>
+            <span className='stat-value'>{selectedSession.gross_value.toLocaleString()} silver</span>
+          </div>
+          <div className='stat' style={{ textAlign: 'right' }}>
+            <span className='stat-label'>Started:</span>
+            <span className='stat-value'>{new Date(selectedSession.start_time).toLocaleString()}</span>
+          </div>
+          <div className='stat'>
+            <span className='stat-label'>Post-Tax Value:</span>
+            <span className='stat-value'>{selectedSession.post_tax_value.toLocaleString()} silver</span>
+          </div>
+          <div className='stat' style={{ textAlign: 'right' }}>
+            <span className='stat-label'>Silver / Hour:</span>
+            <span className='stat-value'>
+              {calculateSilverPerHour(selectedSession.post_tax_value, getActiveSeconds(selectedSession)).toLocaleString()}
+            </span>
+          </div>
+        </div>
+
+        {revaluation && (
+          <RevaluePanel
+            stored={getRecordedValuation(selectedSession)}
+            current={revaluation}
+            snapshotDate={selectedSession.price_snapshot?.captured_at}
+            saving={revaluing}
+            onApply={() => handleApplyRevaluation(selectedSession, revaluation)}
+            onDismiss={() => setRevaluation(null)}
+          />
+        )}
+
+        <div className='active-loot-items'>
+          <h4>Loot</h4>
+          {selectedSession.loot.length === 0 ? (
+            <p className='no-items'>No loot was recorded for this session.</p>
+          ) : (
+            <LootBreakdown entries={getLootEntries(selectedSession)} />
+          )}
+        </div>
+
+        <div className='active-loot-items'>
+          <h4>Timeline</h4>
+          {selectedSession.loot_events ? (
+            <LootTimeline
+              events={selectedSession.loot_events}
+              items={items}
+              startTime={new Date(selectedSession.start_time)}
+              pausedIntervals={selectedSession.paused_intervals || []}
+              endActiveSeconds={getActiveSeconds(selectedSession)}
+            />
+          ) : (
+            <p className='no-items'>No timeline was recorded for this session.</p>
+          )}
+        </div>
+
+        <div className='session-export'>
+          <SessionExportControls
+            fileNameBase={getSessionExportFileName(
+              getLocationName(selectedSession.location_id),
+              selectedSession.start_time
+            )}
+            getRecords={() => [getExportRecord(selectedSession)]}
+          />
+        </div>
+
+        <div className='session-actions'>
+          <button
+            onClick={() => handleRevalue(selectedSession)}
+            className='configure-button secondary'
+            disabled={revaluing || selectedSession.loot.length === 0}
+          >
+            {revaluing && !revaluation ? "Revaluing..." : "Revalue at Current Prices"}
+          </button>
+          <button
+            onClick={() => handleDeleteSession(selectedSession)}
+            className='stop-session-button'
+          >
+            Delete Session
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className='session-history'>
+      <div className='session-header'>
+        <div className='session-status'>
+          <h3>Session History</h3>
+        </div>
+      </div>
+
+      <div className='history-filters'>
+        <div className='history-filter location-filter'>
+          <label className='location-label'>Location</label>
+          <SearchableSelect
+            options={locations}
+            value={locationFilter}
+            onChange={setLocationFilter}
+            placeholder='All locations'
+            getOptionDisplay={(location) => ({ primary: location.name })}
+          />
+        </div>
+        <div className='history-filter'>
+          <label className='location-label' htmlFor='history-from'>From</label>
+          <input
+            id='history-from'
+            type='date'
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className='history-date-input'
+          />
+        </div>
+        <div className='history-filter'>
+          <label className='location-label' htmlFor='history-to'>To</label>
+          <input
+            id='history-to'
+            type='date'
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className='history-date-input'
+          />
+        </div>
+        <button
+          onClick={handleClearFilters}
+          className='configure-button secondary'
+          disabled={!locationFilter && !fromDate && !toDate}
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className='history-export'>
+        <button
+          onClick={() => setShowImport(true)}
+          className='configure-button secondary export-button'
+        >
+          Import
+        </button>
+        <SessionExportControls
+          fileNameBase={getRangeExportFileName()}
+          getRecords={getFilteredExportRecords}
+          disabled={loading || sessions.length === 0}
+        />
+      </div>
+
+      <SessionImportModal
+        isOpen={showImport}
+        userPreferences={userPreferences}
+        items={items}
+        locations={locations}
+        onClose={() => setShowImport(false)}
+        onImported={loadSessions}
+      />
+
+      {loading ? (
+        <p className='no-items'>Loading sessions...</p>
+      ) : error ? (
+        <p className='no-items'>{error}</p>
+      ) : sessions.length === 0 ? (
+        <p className='no-items'>No sessions found.</p>
+      ) : (
+        <div className='history-table-container'>
+          <table className='history-table'>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Location</th>
+                <th>Active</th>
+                <th>Wall Clock</th>
+                <th>Gross</th>
+                <th>Post-Tax</th>
+                <th>Silver / Hour</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr
+                  key={session.id}
+                  onClick={() => !loadingDetail && handleSelectSession(session.id)}
+                  className='history-row'
+                >
+                  <td>{new Date(session.start_time).toLocaleString()}</td>
+                  <td>{getLocationName(session.location_id)}</td>
+                  <td>{formatDuration(getActiveSeconds(session))}</td>
+                  <td>{formatDuration(session.duration_seconds)}</td>
+                  <td>{session.gross_value.toLocaleString()}</td>
+                  <td>{session.post_tax_value.toLocaleString()}</td>
+                  <td>{calculateSilverPerHour(session.post_tax_value, getActiveSeconds(session)).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState } from "react";
+import { UserPreferences, Location, Item, TaxCalculations } from "../../types";
+import {
+  parseSessionFile,
+  resolveImportedSessions,
+  toNewGrindSession,
+  ImportPreview,
+  ResolvedImportSession,
+} from "../../utils/sessionImport";
+import { groupAliasesByBdoItemId } from "../../utils/itemAliases";
+import Modal from "../Modal/Modal";
+
+interface SessionImportModalProps {
+  isOpen: boolean;
+  userPreferences: UserPreferences;
+  items: Item[];
+  locations: Location[];
+  onClose: () => void;
+  onImported: () => void;
+}
+
+interface LoadedFile {
+  fileName: string;
+  errors: string[];
+  preview: ImportPreview;
+  existingKeys: Set<string>; // location_id|start_time of sessions already stored
+}
+
+const sessionKey = (locationId: number, startTime: string): string =>
+  `${locationId}|${new Date(startTime).toISOString()}`;
+
+export const SessionImportModal: React.FC<SessionImportModalProps> = ({
+  isOpen,
+  userPreferences,
+  items,
+  locations,
+  onClose,
+  onImported,
+}) => {
+  const [loadedFile, setLoadedFile] = useState<LoadedFile | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const taxSettings: TaxCalculations = {
+    value_pack: userPreferences.tax_calculations?.value_pack ?? false,
+    rich_merchant_ring: userPreferences.tax_calculations?.rich_merchant_ring ?? false,
+    family_fame: userPreferences.tax_calculations?.family_fame ?? 0,
+  };
+
+  const isDuplicate = (file: LoadedFile, session: ResolvedImportSession): boolean =>
+    !!session.location &&
+    file.existingKeys.has(sessionKey(session.location.id, session.imported.start_time));
+
+  const getImportable = (file: LoadedFile): ResolvedImportSession[] =>
+    file.preview.sessions.filter((session) => session.location && !isDuplicate(file, session));
+
+  const handleClose = () => {
+    setLoadedFile(null);
+    setStatus(null);
+    onClose();
+  };
+
+  const handleChooseFile = async () => {
+    try {
+      setBusy(true);
+      setStatus(null);
+
+      const result = await window.electronAPI.import.openFile();
+      if (!result.success) {
+        setStatus(result.error || "Could not open the file");
+        return;
+      }
+      if (!result.data || result.data.canceled || !result.data.content) return;
+
+      const { sessions, errors } = parseSessionFile(result.data.content, result.data.format || "csv");
+      // Files from other client languages name items by their aliases
+      const aliasesResult = await window.electronAPI.itemAliases.getAll();
+      const preview = resolveImportedSessions(
+        sessions,
+        items,
+        locations,
+        userPreferences.preferred_region,
+        groupAliasesByBdoItemId(aliasesResult.data || [])
+      );
+
+      // Re-importing the same file shouldn't create copies
+      const existingResult = await window.electronAPI.sessions.getByUser(userPreferences.user_id);
+      if (!existingResult.success || !existingResult.data) {
+        // Without them duplicates can't be detected, so nothing is imported
+        console.error("Failed to load existing sessions for import:", existingResult.error);
+        setStatus(`Could not load your existing sessions: ${existingResult.error || "Unknown error"}`);
+        return;
+      }
+      const existingKeys = new Set(
+        existingResult.data.map((session) => sessionKey(session.location_id, session.start_time))
+      );
+
+      setLoadedFile({ fileName: result.data.fileName || "file", errors, preview, existingKeys });
+    } catch (err) {
+      console.error("Error reading import file:", err);
+      setStatus("Could not read the file");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!loadedFile) return;
+
+    const importable = getImportable(loadedFile);
+    let imported = 0;
+    const failures: string[] = [];
+
+    try {
+      setBusy(true);
+      for (const resolved of importable) {
+        setStatus(`Importing ${imported + failures.length + 1} of ${importable.length}...`);
+        const newSession = toNewGrindSession(
+          resolved,
+          items,
+          taxSettings,
+          `Imported from ${loadedFile.fileName}`
+        );
+        if (!newSession) continue;
+
+        const result = await window.electronAPI.sessions.create(userPreferences.user_id, newSession);
+        if (result.success) {
+          imported++;
+        } else {
+          failures.push(`${resolved.imported.source}: ${result.error || "Unknown error"}`);
+        }
+      }
+
+      setStatus(
+        failures.length === 0
+          ? `Imported ${imported} session${imported === 1 ? "" : "s"}.`
+          : `Imported ${imported} session${imported === 1 ? "" : "s"}; ${failures.length} failed: ${failures.join("; ")}`
+      );
+      setLoadedFile(null);
+      if (imported > 0) onImported();
+    } catch (err) {
+      console.error("Error importing sessions:", err);
+      setStatus("Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const renderPreview = (file: LoadedFile) => {
+    const importable = getImportable(file);
+
+    return (
+      <div className='import-preview'>
+        <p className='import-summary'>
+          <strong>{file.fileName}</strong>: {file.preview.sessions.length} session
+          {file.preview.sessions.length === 1 ? "" : "s"} found, {importable.length} ready to import.
+        </p>
+
+        {file.errors.length > 0 && (
+          <div className='import-issues'>
+            <h5>Skipped rows</h5>
+            <ul>
+              {file.errors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {file.preview.unmatchedLocations.length > 0 && (
+          <div className='import-issues'>
+            <h5>Unknown locations (their sessions are skipped)</h5>
+            <ul>
+              {file.preview.unmatchedLocations.map((name) => (
+                <li key={name}>{name}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {file.preview.unmatchedItems.length > 0 && (
+          <div className='import-issues'>
+            <h5>Unknown items (these entries are skipped)</h5>
+            <ul>
+              {file.preview.unmatchedItems.map((name) => (
+                <li key={name}>{name}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {file.preview.sessions.length > 0 && (
+          <div className='history-table-container import-table-container'>
+            <table className='history-table'>
+              <thead>
+                <tr>
+                  <th>Date</th>
+                  <th>Location</th>
+                  <th>Items</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {file.preview.sessions.map((session) => {
+                  const matchedCount = session.imported.loot.length - session.unmatchedLoot.length;
+                  const statusText = !session.location
+                    ? "Unknown location"
+                    : isDuplicate(file, session)
+                      ? "Already imported"
+                      : "Ready";
+                  return (
+                    <tr key={session.imported.source}>
+                      <td>{new Date(session.imported.start_time).toLocaleString()}</td>
+                      <td>{session.imported.location}</td>
+                      <td>
+                        {matchedCount} / {session.imported.loot.length}
+                      </td>
+                      <td className={statusText === "Ready" ? "import-ready" : "import-skipped"}>
+                        {statusText}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title='Import Sessions' width='720px'>
+      <p className='import-help'>
+        Choose a CSV or JSON file. CSV files need one row per item with a start time, location,
+        item name or BDO item ID, and count; the CSV and JSON exports can be imported as-is.
+      </p>
+
+      {loadedFile && renderPreview(loadedFile)}
+      {status && <p className='import-status'>{status}</p>}
+
+      <div className='form-actions'>
+        <button type='button' className='btn-secondary' onClick={handleChooseFile} disabled={busy}>
+          {loadedFile ? "Choose Another File" : "Choose File"}
+        </button>
+        <button
+          type='button'
+          className='btn-primary'
+          onClick={handleImport}
+          disabled={busy || !loadedFile || getImportable(loadedFile).length === 0}
+        >
+          Import {loadedFile ? getImportable(loadedFile).length : ""} Sessions
+        </button>
+      </div>
+    </Modal>
+  );
+};
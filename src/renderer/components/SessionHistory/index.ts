@@ -0,0 +1 @@
+export { SessionHistory } from "./SessionHistory";
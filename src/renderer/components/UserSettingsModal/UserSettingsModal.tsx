@@ -1,18 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { UserPreferences, TaxCalculations } from '../../types';
+import { UserPreferences, TaxCalculations, DetectionMode, OcrPreprocessing, HotkeyAction, RareDropAlertSettings } from '../../types';
 import { BDO_REGIONS } from '../../constants/regions';
 import { TAX_CONSTANTS } from '../../constants/taxes';
+import { DEFAULT_OCR_PREPROCESSING } from '../../constants/ocr';
 import { formatTaxRate } from '../../utils/taxCalculations';
+import { findHotkeyConflicts, resolveHotkeys } from '../../utils/hotkeys';
+import { resolveRareDropAlertSettings } from '../../utils/rareDrops';
 import Modal from '../Modal/Modal';
+import { OcrCalibration } from '../OcrCalibration';
+import { HotkeySettings } from '../HotkeySettings';
 import './UserSettingsModal.css';
 
-interface OCRRegion {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  display?: string;
-}
+type OCRRegion = NonNullable<UserPreferences['designated_ocr_region']>;
 
 interface UserSettingsModalProps {
   isOpen: boolean;
@@ -36,24 +35,45 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
   const [ocrRegion, setOcrRegion] = useState<OCRRegion | null>(
     currentPreferences.designated_ocr_region || null
   );
+  const [detectionMode, setDetectionMode] = useState<DetectionMode>(
+    currentPreferences.detection_mode || 'ocr'
+  );
+  const [ocrPreprocessing, setOcrPreprocessing] = useState<OcrPreprocessing>(
+    currentPreferences.ocr_preprocessing || DEFAULT_OCR_PREPROCESSING
+  );
+  const [calibrating, setCalibrating] = useState(false);
   const [taxCalculations, setTaxCalculations] = useState<TaxCalculations>({
     value_pack: currentPreferences.tax_calculations?.value_pack || false,
     rich_merchant_ring: currentPreferences.tax_calculations?.rich_merchant_ring || false,
     family_fame: currentPreferences.tax_calculations?.family_fame || 0
   });
+  const [hotkeys, setHotkeys] = useState<Record<HotkeyAction, string | null>>(
+    resolveHotkeys(currentPreferences.hotkeys)
+  );
+  const [unavailableHotkeys, setUnavailableHotkeys] = useState<HotkeyAction[]>([]);
+  const [rareDropAlerts, setRareDropAlerts] = useState<RareDropAlertSettings>(
+    resolveRareDropAlertSettings(currentPreferences.rare_drop_alerts)
+  );
   const [saving, setSaving] = useState(false);
   const [selectingRegion, setSelectingRegion] = useState(false);
 
+  const hasHotkeyConflicts =
+    Object.keys(findHotkeyConflicts(hotkeys)).length > 0 || unavailableHotkeys.length > 0;
+
   // Update local state when preferences change
   useEffect(() => {
     setPreferredRegion(currentPreferences.preferred_region);
     setDisplayRegions(currentPreferences.display_regions);
     setOcrRegion(currentPreferences.designated_ocr_region || null);
+    setDetectionMode(currentPreferences.detection_mode || 'ocr');
+    setOcrPreprocessing(currentPreferences.ocr_preprocessing || DEFAULT_OCR_PREPROCESSING);
     setTaxCalculations({
       value_pack: currentPreferences.tax_calculations?.value_pack || false,
       rich_merchant_ring: currentPreferences.tax_calculations?.rich_merchant_ring || false,
       family_fame: currentPreferences.tax_calculations?.family_fame || 0
     });
+    setHotkeys(resolveHotkeys(currentPreferences.hotkeys));
+    setRareDropAlerts(resolveRareDropAlertSettings(currentPreferences.rare_drop_alerts));
   }, [currentPreferences]);
 
   // Focus on specific section when modal opens
@@ -139,6 +159,7 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
 
   const handleClearRegion = () => {
     setOcrRegion(null);
+    setCalibrating(false);
   };
 
   const handleTaxCalculationChange = (field: keyof TaxCalculations, value: boolean | number) => {
@@ -168,11 +189,20 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
     
     return `Region: ${region.width}×${region.height} at (${region.x}, ${region.y})${
       region.display ? ` on ${region.display}` : ''
-    }`;
+    }${region.scale_factor && region.scale_factor !== 1 ? ` (${Math.round(region.scale_factor * 100)}% scaling)` : ''}`;
+  };
+
+  const handleRareDropThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Digits only, so locale thousands separators in the displayed value are dropped
+    const digits = e.target.value.replace(/\D/g, '');
+    setRareDropAlerts(prev => ({
+      ...prev,
+      silver_threshold: digits === '' ? null : parseInt(digits, 10) // Empty means rare items only
+    }));
   };
 
   const handleSave = async () => {
-    if (saving) return;
+    if (saving || hasHotkeyConflicts) return;
     
     try {
       setSaving(true);
@@ -184,9 +214,14 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
         preferred_region: preferredRegion,
         display_regions: finalDisplayRegions,
         designated_ocr_region: ocrRegion,
-        tax_calculations: taxCalculations
+        detection_mode: detectionMode,
+        ocr_preprocessing: ocrPreprocessing,
+        tax_calculations: taxCalculations,
+        hotkeys,
+        rare_drop_alerts: rareDropAlerts
       });
       
+      setCalibrating(false);
       onClose();
     } catch (error) {
       console.error('Error saving preferences:', error);
@@ -200,11 +235,16 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
     setPreferredRegion(currentPreferences.preferred_region);
     setDisplayRegions(currentPreferences.display_regions);
     setOcrRegion(currentPreferences.designated_ocr_region || null);
+    setDetectionMode(currentPreferences.detection_mode || 'ocr');
+    setOcrPreprocessing(currentPreferences.ocr_preprocessing || DEFAULT_OCR_PREPROCESSING);
     setTaxCalculations({
       value_pack: currentPreferences.tax_calculations?.value_pack || false,
       rich_merchant_ring: currentPreferences.tax_calculations?.rich_merchant_ring || false,
       family_fame: currentPreferences.tax_calculations?.family_fame || 0
     });
+    setHotkeys(resolveHotkeys(currentPreferences.hotkeys));
+    setRareDropAlerts(resolveRareDropAlertSettings(currentPreferences.rare_drop_alerts));
+    setCalibrating(false);
     onClose();
   };
 
@@ -367,6 +407,19 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
             Select the area of your screen where loot messages appear for automatic detection during grind sessions.
           </p>
           
+          <div className="dropdown-container detection-mode-container">
+            <select
+              value={detectionMode}
+              onChange={(e) => setDetectionMode(e.target.value as DetectionMode)}
+              disabled={isLoading || saving}
+              className="region-dropdown"
+              aria-label="Detection method"
+            >
+              <option value="ocr">Text recognition (reads "Obtained ..." messages)</option>
+              <option value="icon">Icon matching (for loot text too small to read)</option>
+            </select>
+          </div>
+          
           <div className="ocr-region-controls">
             <div className={`ocr-region-display ${ocrRegion ? 'has-region' : ''}`}>
               {formatRegionDisplay(ocrRegion)}
@@ -381,6 +434,14 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
                 {selectingRegion ? 'Selecting...' : 'Select Region'}
               </button>
               
+              <button
+                className="select-region-button"
+                onClick={() => setCalibrating(prev => !prev)}
+                disabled={!ocrRegion || saving || isLoading}
+              >
+                {calibrating ? 'Hide Calibration' : 'Calibrate'}
+              </button>
+              
               <button
                 className="clear-region-button"
                 onClick={handleClearRegion}
@@ -389,8 +450,100 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
                 Clear Region
               </button>
             </div>
+
+            {calibrating && ocrRegion && (
+              <OcrCalibration
+                region={ocrRegion}
+                preprocessing={ocrPreprocessing}
+                preferredRegion={preferredRegion}
+                onChange={setOcrPreprocessing}
+                disabled={saving || isLoading}
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Modern HR separator */}
+        <div className="settings-separator">
+          <hr />
+        </div>
+
+        <div className="settings-section">
+          <h3>Rare Drop Alerts</h3>
+          <p className="setting-description">
+            Show and sound an alert in the app and on the overlay when a valuable item drops. Items can also be marked rare with the ★ on the loot table.
+          </p>
+
+          <div className="user-settings-tax-grid">
+            <div className="tax-checkboxes">
+              <div className="tax-card">
+                <label className="checkbox-item modern-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={rareDropAlerts.enabled}
+                    onChange={(e) => setRareDropAlerts(prev => ({ ...prev, enabled: e.target.checked }))}
+                    disabled={isLoading || saving}
+                  />
+                  <span className="checkbox-text">
+                    <span className="checkbox-label">Enable alerts</span>
+                    <span className="checkbox-sublabel">For rare items and drops over the threshold</span>
+                  </span>
+                </label>
+              </div>
+
+              <div className="tax-card">
+                <label className="checkbox-item modern-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={rareDropAlerts.sound}
+                    onChange={(e) => setRareDropAlerts(prev => ({ ...prev, sound: e.target.checked }))}
+                    disabled={isLoading || saving || !rareDropAlerts.enabled}
+                  />
+                  <span className="checkbox-text">
+                    <span className="checkbox-label">Play sound</span>
+                    <span className="checkbox-sublabel">Also heard through OBS browser sources</span>
+                  </span>
+                </label>
+              </div>
+            </div>
+
+            <div className="tax-card family-fame-card">
+              <label className="input-label">
+                <div className="input-info">
+                  <span className="input-title">Value Threshold</span>
+                  <span className="input-description">Post-tax silver for a single drop; leave empty to alert on rare items only</span>
+                </div>
+                <input
+                  type="text"
+                  value={rareDropAlerts.silver_threshold === null ? '' : rareDropAlerts.silver_threshold.toLocaleString()}
+                  onChange={handleRareDropThresholdChange}
+                  disabled={isLoading || saving || !rareDropAlerts.enabled}
+                  placeholder="Rare items only"
+                  className="fame-input"
+                />
+              </label>
+            </div>
           </div>
         </div>
+
+        {/* Modern HR separator */}
+        <div className="settings-separator">
+          <hr />
+        </div>
+
+        <div className="settings-section">
+          <h3>Hotkeys</h3>
+          <p className="setting-description">
+            Global shortcuts that work while the game has focus. "+1 Loot Item" keys count the first items of the current loot table.
+          </p>
+
+          <HotkeySettings
+            bindings={hotkeys}
+            onChange={setHotkeys}
+            onUnavailableChange={setUnavailableHotkeys}
+            disabled={isLoading || saving}
+          />
+        </div>
         </div>
 
         {/* Sticky action buttons at bottom */}
@@ -405,7 +558,8 @@ export const UserSettingsModal: React.FC<UserSettingsModalProps> = ({
           <button 
             className="save-button" 
             onClick={handleSave}
-            disabled={saving || isLoading}
+            disabled={saving || isLoading || hasHotkeyConflicts}
+            title={hasHotkeyConflicts ? 'Resolve the hotkey conflicts first' : undefined}
           >
             {saving ? 'Saving...' : 'Save Settings'}
           </button>
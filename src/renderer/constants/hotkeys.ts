@@ -0,0 +1,34 @@
+import { HotkeyAction } from '../types';
+
+// How many of the loot table's first items get an increment hotkey
+export const HOTKEY_ITEM_SLOTS = 5;
+
+// Actions in the order the settings list them
+export const HOTKEY_ACTIONS: { value: HotkeyAction; label: string }[] = [
+  { value: 'start_stop', label: 'Start / Stop Session' },
+  { value: 'pause_resume', label: 'Pause / Resume' },
+  { value: 'toggle_overlay', label: 'Open / Close Overlay' },
+  { value: 'undo_last_drop', label: 'Undo Last Drop' },
+  { value: 'increment_item_1', label: '+1 Loot Item 1' },
+  { value: 'increment_item_2', label: '+1 Loot Item 2' },
+  { value: 'increment_item_3', label: '+1 Loot Item 3' },
+  { value: 'increment_item_4', label: '+1 Loot Item 4' },
+  { value: 'increment_item_5', label: '+1 Loot Item 5' },
+];
+
+export const DEFAULT_HOTKEYS: Record<HotkeyAction, string | null> = {
+  start_stop: 'Alt+Shift+S',
+  pause_resume: 'Alt+Shift+P',
+  toggle_overlay: 'Alt+Shift+O',
+  undo_last_drop: 'Alt+Shift+Z',
+  increment_item_1: 'Alt+Shift+1',
+  increment_item_2: 'Alt+Shift+2',
+  increment_item_3: 'Alt+Shift+3',
+  increment_item_4: 'Alt+Shift+4',
+  increment_item_5: 'Alt+Shift+5',
+};
+
+// Global shortcuts the app registers on its own (see streamingOverlayAPI)
+export const RESERVED_HOTKEYS: { accelerator: string; label: string }[] = [
+  { accelerator: 'CommandOrControl+Shift+O', label: 'Restore interactive overlay' },
+];
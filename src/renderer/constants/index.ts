@@ -1,6 +1,11 @@
 // Export all constants
 export * from './regions';
 export * from './taxes';
+export * from './ocr';
+export * from './languages';
+export * from './overlay';
 
 // Re-export utils for convenience
 export * from '../utils/taxCalculations';
+export * from './hotkeys';
+export * from './rareDrops';
@@ -0,0 +1,23 @@
+// BDO client languages, for tagging item aliases
+export const ITEM_ALIAS_LANGUAGES = [
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'German' },
+  { value: 'fr', label: 'French' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'ru', label: 'Russian' },
+  { value: 'tr', label: 'Turkish' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'zh-TW', label: 'Traditional Chinese' },
+  { value: 'th', label: 'Thai' },
+  { value: 'id', label: 'Indonesian' },
+] as const;
+
+export const DEFAULT_ALIAS_LANGUAGE = 'en';
+
+// Helper function to get language display name
+export const getLanguageLabel = (language: string): string => {
+  const languageData = ITEM_ALIAS_LANGUAGES.find(l => l.value === language);
+  return languageData ? languageData.label : language;
+};
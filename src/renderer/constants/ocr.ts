@@ -0,0 +1,23 @@
+import { OcrPreprocessing } from '../types';
+
+// Same defaults the main process uses when nothing has been calibrated
+export const DEFAULT_OCR_PREPROCESSING: OcrPreprocessing = {
+  scale: 2,
+  contrast: 1,
+  threshold: null,
+};
+
+// Slider ranges in the calibration wizard
+export const OCR_PREPROCESSING_LIMITS = {
+  scale: { min: 1, max: 4, step: 0.5 },
+  contrast: { min: 0.5, max: 3, step: 0.1 },
+  threshold: { min: 0, max: 255, step: 1, default: 128 },
+};
+
+// How often the calibration preview re-captures the region
+export const OCR_PREVIEW_INTERVAL_MS = 1000;
+
+// Review queue readings shorter than this (letters and digits) aren't learned as aliases
+export const MIN_LEARNED_ALIAS_LENGTH = 4;
+// Candidates within this score of the best make a reading too ambiguous to learn from
+export const LEARNED_ALIAS_AMBIGUITY_MARGIN = 0.05;
@@ -0,0 +1,68 @@
+import { OverlayPreset, OverlaySettings, OverlayWidget, OverlayWidgetType } from '../types';
+
+// Size of the overlay window; browser sources should use the same dimensions
+export const OVERLAY_CANVAS = { width: 400, height: 600 };
+
+// Widgets in the order the editor lists them
+export const OVERLAY_WIDGET_TYPES: { value: OverlayWidgetType; label: string }[] = [
+  { value: 'timer', label: 'Timer' },
+  { value: 'total_silver', label: 'Total Silver' },
+  { value: 'silver_per_hour', label: 'Silver / Hour' },
+  { value: 'top_drops', label: 'Top Drops' },
+  { value: 'recent_drops', label: 'Recent Drops' },
+  { value: 'tax_breakdown', label: 'Tax Breakdown' },
+];
+
+export const OVERLAY_FONTS = [
+  { value: 'Segoe UI, Roboto, sans-serif', label: 'Sans Serif' },
+  { value: 'Georgia, serif', label: 'Serif' },
+  { value: 'Courier New, monospace', label: 'Monospace' },
+  { value: 'Impact, Haettenschweiler, sans-serif', label: 'Impact' },
+];
+
+export const OVERLAY_FONT_SIZE_LIMITS = { min: 8, max: 48 };
+export const OVERLAY_MAX_LIST_ITEMS = 10; // Upper bound for top/recent drops
+
+const widget = (type: OverlayWidgetType, overrides: Partial<OverlayWidget>): OverlayWidget => ({
+  type,
+  visible: true,
+  x: 20,
+  y: 20,
+  width: 360,
+  font_family: OVERLAY_FONTS[0].value,
+  font_size: 14,
+  text_color: '#ffffff',
+  background_color: 'rgba(30, 30, 46, 0.85)',
+  ...overrides,
+});
+
+// Everything on screen, roughly the layout the overlay always had
+export const FULL_DETAIL_PRESET: OverlayPreset = {
+  name: 'Full Detail',
+  widgets: [
+    widget('timer', { y: 20 }),
+    widget('total_silver', { y: 90 }),
+    widget('silver_per_hour', { y: 160 }),
+    widget('tax_breakdown', { y: 230, font_size: 12 }),
+    widget('top_drops', { y: 320, max_items: 5 }),
+    widget('recent_drops', { y: 480, font_size: 12, max_items: 4 }),
+  ],
+};
+
+// Timer, totals and a few top drops in a small corner block
+export const COMPACT_STREAM_PRESET: OverlayPreset = {
+  name: 'Compact Stream',
+  widgets: [
+    widget('timer', { x: 10, y: 10, width: 150, font_size: 12 }),
+    widget('total_silver', { x: 170, y: 10, width: 220, font_size: 12 }),
+    widget('silver_per_hour', { x: 10, y: 70, width: 380, font_size: 12 }),
+    widget('top_drops', { x: 10, y: 130, width: 380, font_size: 12, max_items: 3 }),
+    widget('recent_drops', { visible: false, x: 10, y: 250, width: 380, font_size: 12, max_items: 3 }),
+    widget('tax_breakdown', { visible: false, x: 10, y: 350, width: 380, font_size: 12 }),
+  ],
+};
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  active_preset: FULL_DETAIL_PRESET.name,
+  presets: [FULL_DETAIL_PRESET, COMPACT_STREAM_PRESET],
+};
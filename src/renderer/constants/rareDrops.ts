@@ -0,0 +1,10 @@
+import { RareDropAlertSettings } from '../types';
+
+export const DEFAULT_RARE_DROP_ALERTS: RareDropAlertSettings = {
+  enabled: true,
+  silver_threshold: 1_000_000_000,
+  sound: true,
+};
+
+// How long each queued alert stays on screen
+export const RARE_DROP_ALERT_DURATION_MS = 6000;
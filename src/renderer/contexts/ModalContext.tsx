@@ -12,6 +12,8 @@ export interface ConfirmationModalData extends BaseModalProps {
   confirmText?: string;
   cancelText?: string;
   onConfirm: () => void;
+  // Called by the cancel button only; the backdrop and × still call onClose
+  onCancel?: () => void;
   isDestructive?: boolean;
 }
 
@@ -143,6 +143,20 @@ declare global {
           bdoItemId: number
         ) => Promise<{ success: boolean; data?: Item[]; error?: string }>;
       };
+      itemAliases: {
+        getAll: () => Promise<{ success: boolean; data?: ItemAlias[]; error?: string }>;
+        getByBdoItemId: (
+          bdoItemId: number
+        ) => Promise<{ success: boolean; data?: ItemAlias[]; error?: string }>;
+        create: (
+          alias: Pick<ItemAlias, "bdo_item_id" | "alias" | "language">
+        ) => Promise<{ success: boolean; data?: ItemAlias; error?: string }>;
+        update: (
+          id: number,
+          updates: Partial<Pick<ItemAlias, "alias" | "language">>
+        ) => Promise<{ success: boolean; data?: ItemAlias; error?: string }>;
+        delete: (id: number) => Promise<{ success: boolean; error?: string }>;
+      };
       lootTables: {
         getAll: () => Promise<{
           success: boolean;
@@ -176,6 +190,57 @@ declare global {
           itemId: number
         ) => Promise<{ success: boolean; data?: LootTable; error?: string }>;
       };
+      sessions: {
+        create: (
+          userId: string,
+          session: NewGrindSession
+        ) => Promise<{ success: boolean; data?: GrindSessionWithLoot; error?: string }>;
+        getByUser: (
+          userId: string,
+          filters?: GrindSessionFilters
+        ) => Promise<{ success: boolean; data?: GrindSession[]; error?: string }>;
+        getByUserWithLoot: (
+          userId: string,
+          filters?: GrindSessionFilters
+        ) => Promise<{ success: boolean; data?: GrindSessionWithLoot[]; error?: string }>;
+        getById: (
+          id: number
+        ) => Promise<{ success: boolean; data?: GrindSessionWithLoot; error?: string }>;
+        update: (
+          id: number,
+          updates: Partial<Omit<GrindSession, "id" | "user_id" | "created" | "updated">>
+        ) => Promise<{ success: boolean; data?: GrindSession; error?: string }>;
+        delete: (id: number) => Promise<{ success: boolean; error?: string }>;
+      };
+      sessionCheckpoint: {
+        save: (
+          checkpoint: SessionCheckpoint
+        ) => Promise<{ success: boolean; error?: string }>;
+        get: (
+          userId: string
+        ) => Promise<{ success: boolean; data?: SessionCheckpoint | null; error?: string }>;
+        clear: () => Promise<{ success: boolean; error?: string }>;
+      };
+      export: {
+        saveFile: (options: {
+          content: string;
+          defaultFileName: string;
+          format: ExportFormat;
+        }) => Promise<{ success: boolean; data?: { filePath?: string; canceled: boolean }; error?: string }>;
+        copyToClipboard: (text: string) => Promise<{ success: boolean; error?: string }>;
+      };
+      import: {
+        openFile: () => Promise<{
+          success: boolean;
+          data?: {
+            canceled: boolean;
+            fileName?: string;
+            format?: "csv" | "json";
+            content?: string;
+          };
+          error?: string;
+        }>;
+      };
       user: {
         updateRegion: (
           discordId: string,
@@ -219,38 +284,102 @@ declare global {
       };
       selectOCRRegion: () => Promise<{
         success: boolean;
-        region?: {
-          x: number;
-          y: number;
-          width: number;
-          height: number;
-          display?: string;
-        };
+        region?: NonNullable<UserPreferences["designated_ocr_region"]>;
+        error?: string;
+      }>;
+      validateOCRRegion: (region: NonNullable<UserPreferences["designated_ocr_region"]>) => Promise<{
+        success: boolean;
+        data?: { valid: boolean; error?: string; displayLabel?: string };
         error?: string;
       }>;
+      lootDetection: {
+        start: (options: {
+          region: NonNullable<UserPreferences["designated_ocr_region"]>;
+          items: { id: number; name: string; bdo_item_id?: number; image_url?: string | null }[];
+          mode?: DetectionMode;
+          preprocessing?: OcrPreprocessing | null;
+          intervalMs?: number;
+          sessionKey?: string;
+        }) => Promise<{ success: boolean; error?: string }>;
+        stop: () => Promise<{ success: boolean; error?: string }>;
+        preview: (options: {
+          region: NonNullable<UserPreferences["designated_ocr_region"]>;
+          preprocessing?: OcrPreprocessing | null;
+          items?: { id: number; name: string; bdo_item_id?: number }[];
+          recognize?: boolean;
+        }) => Promise<{
+          success: boolean;
+          data?: { image: string; processedImage: string; lines?: OcrPreviewLine[] };
+          error?: string;
+        }>;
+        learnAlias: (options: { bdoItemId: number; alias: string }) => Promise<{ success: boolean; error?: string }>;
+      };
       openStreamingOverlay: (data: {
         location?: Location;
         items: any[];
         itemCounts: Record<number, number>;
+        itemValues?: Record<number, number>;
         sessionStartTime: string;
+        pausedMs?: number;
+        pausedAt?: string | null;
+        metrics?: {
+          silverPerHour: number;
+          rollingSilverPerHour: number;
+          projectedTotal: number;
+          targetSeconds: number;
+          dropsPerHour: Record<number, number>;
+        } | null;
+        widgets?: OverlayWidget[]; // Active preset's layout
+        recentDrops?: LootEvent[]; // Newest first
       }) => Promise<{ success: boolean; error?: string }>;
       updateStreamingOverlay: (data: {
         location?: Location;
         items: any[];
         itemCounts: Record<number, number>;
+        itemValues?: Record<number, number>;
         sessionStartTime?: string;
+        pausedMs?: number;
+        pausedAt?: string | null;
+        metrics?: {
+          silverPerHour: number;
+          rollingSilverPerHour: number;
+          projectedTotal: number;
+          targetSeconds: number;
+          dropsPerHour: Record<number, number>;
+        } | null;
+        widgets?: OverlayWidget[];
+        recentDrops?: LootEvent[];
+        ended?: boolean;
       }) => Promise<{ success: boolean; error?: string }>;
       closeStreamingOverlay: () => Promise<{ success: boolean; error?: string }>;
       isStreamingOverlayOpen: () => Promise<{ success: boolean; isOpen: boolean; error?: string }>;
+      showRareDropAlert: (alert: RareDropAlert) => Promise<{ success: boolean; error?: string }>;
+      getStreamingOverlayMode: () => Promise<{ success: boolean; data?: OverlayWindowSettings; error?: string }>;
+      setStreamingOverlayMode: (
+        changes: Partial<Pick<OverlayWindowSettings, "click_through" | "opacity">>
+      ) => Promise<{ success: boolean; data?: OverlayWindowSettings; error?: string }>;
+      overlayServer: {
+        start: (port?: number) => Promise<{ success: boolean; data?: OverlayServerStatus; error?: string }>;
+        stop: () => Promise<{ success: boolean; error?: string }>;
+        getStatus: () => Promise<{ success: boolean; data?: OverlayServerStatus; error?: string }>;
+        onStatus: (callback: (status: OverlayServerStatus) => void) => void;
+      };
+      hotkeys: {
+        register: (bindings: HotkeyBindings) => Promise<{ success: boolean; data?: { failed: HotkeyAction[] }; error?: string }>;
+        check: (accelerator: string) => Promise<{ success: boolean; data?: { available: boolean }; error?: string }>;
+        setSuspended: (suspended: boolean) => Promise<{ success: boolean; error?: string }>;
+      };
       onOverlayData: (callback: (data: any) => void) => void;
       onStreamingOverlayOpened: (callback: () => void) => void;
       onStreamingOverlayClosed: (callback: () => void) => void;
       onStreamingOverlayFocused: (callback: () => void) => void;
       onStreamingOverlayBlurred: (callback: () => void) => void;
+      onStreamingOverlayModeChanged: (callback: (settings: OverlayWindowSettings) => void) => void;
       onSessionCleanup: (callback: (data: {
         reason: string;
         timestamp: string;
       }) => void) => void;
+      onSessionEvent: (callback: (data: SessionEvent) => void) => void;
     };
   }
 }
@@ -272,6 +401,102 @@ export interface TaxCalculations {
   family_fame: number;
 }
 
+export type DetectionMode = "ocr" | "icon";
+
+export interface OcrPreprocessing {
+  scale: number; // Enlargement before recognition
+  contrast: number; // 1 = unchanged
+  threshold: number | null; // 0-255, null = no binarization
+}
+
+export interface OcrMatchCandidate {
+  itemId: number;
+  itemName: string;
+  score: number;
+}
+
+export interface OcrPreviewLine {
+  text: string;
+  confidence: number; // Tesseract's 0-100
+  match: {
+    itemName: string;
+    quantity: number;
+    match: OcrMatchCandidate | null;
+    confidence: number;
+    candidates: OcrMatchCandidate[];
+  } | null;
+}
+
+// Building blocks of the streaming overlay
+export type OverlayWidgetType =
+  | "total_silver"
+  | "silver_per_hour"
+  | "timer"
+  | "top_drops"
+  | "recent_drops"
+  | "tax_breakdown";
+
+// One widget's placement and look; positions are overlay pixels from the top-left corner
+export interface OverlayWidget {
+  type: OverlayWidgetType;
+  visible: boolean;
+  x: number;
+  y: number;
+  width: number;
+  font_family: string;
+  font_size: number; // px
+  text_color: string; // CSS color
+  background_color: string; // CSS color, may be transparent
+  max_items?: number; // top_drops and recent_drops only
+}
+
+export interface OverlayPreset {
+  name: string;
+  widgets: OverlayWidget[];
+}
+
+// Saved overlay presets; the active one drives the overlay window and browser sources
+export interface OverlaySettings {
+  active_preset: string;
+  presets: OverlayPreset[];
+}
+
+// Session actions that can be bound to a global shortcut
+// increment_item_N adds one of the Nth item in the loot table
+export type HotkeyAction =
+  | "start_stop"
+  | "pause_resume"
+  | "toggle_overlay"
+  | "undo_last_drop"
+  | "increment_item_1"
+  | "increment_item_2"
+  | "increment_item_3"
+  | "increment_item_4"
+  | "increment_item_5";
+
+// Electron accelerator per action (e.g. "CommandOrControl+Alt+S"); null leaves it unbound
+export type HotkeyBindings = Partial<Record<HotkeyAction, string | null>>;
+
+// When a drop raises a rare drop alert, besides items flagged in rare_item_ids
+export interface RareDropAlertSettings {
+  enabled: boolean;
+  silver_threshold: number | null; // Post-tax value of a single drop; null alerts on flagged items only
+  sound: boolean;
+}
+
+// One alert, shown in the main window and pushed to the overlay and browser sources
+export interface RareDropAlert {
+  id: string;
+  item_id: number;
+  item_name: string;
+  image_url?: string | null;
+  quantity: number;
+  value: number; // Post-tax value of this drop
+  reason: "flagged" | "threshold";
+  at: string; // ISO timestamp of the drop
+  sound: boolean; // Play the alert chime
+}
+
 export interface UserPreferences {
   user_id: string;
   preferred_region: string; // Default region for loot tables
@@ -281,9 +506,17 @@ export interface UserPreferences {
     y: number;
     width: number;
     height: number;
-    display?: string;
+    display?: string; // Display label
+    display_id?: number; // Set for regions in physical pixels on that display; older regions are DIPs on the primary display
+    scale_factor?: number;
   } | null; // OCR region for loot detection
+  detection_mode?: DetectionMode | null; // Defaults to "ocr"
+  ocr_preprocessing?: OcrPreprocessing | null; // Calibrated for designated_ocr_region
   tax_calculations?: TaxCalculations | null; // Tax calculation settings
+  overlay_settings?: OverlaySettings | null; // Defaults to the built-in presets
+  hotkeys?: HotkeyBindings | null; // Missing actions use the default shortcuts
+  rare_drop_alerts?: RareDropAlertSettings | null; // Defaults to DEFAULT_RARE_DROP_ALERTS
+  rare_item_ids?: number[] | null; // Items that always alert when they drop
   created: string;
   updated: string;
 }
@@ -326,6 +559,16 @@ export interface Item {
   conversion_ratio?: number;
 }
 
+// Another name an item goes by: a client language's name or a player abbreviation
+export interface ItemAlias {
+  id: number;
+  bdo_item_id: number;
+  alias: string;
+  language: string; // e.g. "en", "de", "ko"
+  created: string;
+  updated: string;
+}
+
 export interface LootTable {
   id: number;
   location_id: number;
@@ -334,15 +577,47 @@ export interface LootTable {
   updated: string;
 }
 
+// A closed pause within a session (ISO timestamps)
+export interface PausedInterval {
+  start: string;
+  end: string;
+}
+
+// How a loot change was entered: by hand, by the loot detector, or from the detection review queue
+export type LootEventSource = "manual" | "detected" | "review";
+
+// One loot change in a session, in the order it happened (quantity is the signed delta actually applied)
+export interface LootEvent {
+  item_id: number;
+  quantity: number;
+  source: LootEventSource;
+  at: string; // ISO timestamp
+  confidence?: number; // Match score (0-1) for detected and reviewed drops
+}
+
+// Prices and tax settings frozen when a session starts, so later price syncs don't change it
+export interface PriceSnapshot {
+  prices: Record<number, number>; // item.id -> pre-tax unit price
+  tax_calculations: TaxCalculations;
+  captured_at: string;
+}
+
 export interface GrindSession {
   id: number;
-  user_id: number;
+  user_id: string;
   location_id: number;
+  region: string;
   start_time: string;
-  end_time?: string;
-  duration_minutes?: number;
-  total_value?: number;
-  notes?: string;
+  end_time: string;
+  duration_seconds: number; // Wall-clock time from start to end
+  active_seconds?: number | null; // Wall-clock time minus pauses (null for sessions recorded before pausing existed)
+  paused_intervals?: PausedInterval[] | null;
+  loot_events?: LootEvent[] | null; // null for sessions recorded before the timeline existed
+  tax_calculations: TaxCalculations;
+  price_snapshot?: PriceSnapshot | null; // null for sessions recorded before snapshots existed
+  gross_value: number;
+  post_tax_value: number;
+  notes?: string | null;
   created: string;
   updated: string;
 }
@@ -352,8 +627,90 @@ export interface SessionLoot {
   session_id: number;
   item_id: number;
   quantity: number;
-  estimated_value?: number;
-  timestamp: string;
+  created: string;
+}
+
+export interface GrindSessionWithLoot extends GrindSession {
+  loot: SessionLoot[];
+}
+
+// Payload used when persisting a finished session; item_counts maps item.id -> count
+export interface NewGrindSession
+  extends Omit<GrindSession, "id" | "user_id" | "created" | "updated"> {
+  item_counts: Record<number, number>;
+}
+
+export interface GrindSessionFilters {
+  location_id?: number;
+  from?: string; // ISO timestamp, inclusive lower bound on start_time
+  to?: string; // ISO timestamp, inclusive upper bound on start_time
+}
+
+// Broadcast through broadcast-session-event, by the loot detector and by global hotkeys
+export interface SessionEvent {
+  type: "session-started" | "session-stopped" | "session-updated" | "item-detected" | "detection-uncertain" | "hotkey";
+  sessionData?: {
+    isActive: boolean;
+    startTime?: string;
+    location?: any;
+    itemsDetected: number;
+    itemCounts: Record<number, number>;
+    items?: any[];
+  };
+  itemId?: number;
+  itemName?: string;
+  quantity?: number;
+  text?: string;
+  confidence?: number;
+  reviewId?: string; // detection-uncertain only
+  truncated?: boolean;
+  candidates?: OcrMatchCandidate[];
+  image?: string;
+  action?: HotkeyAction; // hotkey only
+}
+
+// An uncertain detection waiting in the review queue
+export interface DetectionReview {
+  id: string;
+  text: string;
+  itemName: string; // As read from the loot log
+  truncated: boolean; // itemName was cut off by the loot log
+  quantity: number;
+  confidence: number;
+  candidates: OcrMatchCandidate[]; // Best first
+  image?: string; // Data URL of the cropped line
+  detectedAt: string;
+}
+
+// Local server that serves the streaming overlay to OBS browser sources
+export interface OverlayServerStatus {
+  running: boolean;
+  port?: number;
+  url?: string;
+  clients: number; // Connected browser sources
+}
+
+// How the overlay window itself is shown; stored per machine by the main process
+export interface OverlayWindowSettings {
+  click_through: boolean; // Frameless, transparent and ignores the mouse
+  opacity: number; // 0.2 - 1
+  bounds?: { x: number; y: number; width: number; height: number } | null;
+}
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+// Locally persisted snapshot of the in-progress session (survives reloads and crashes)
+export interface SessionCheckpoint {
+  user_id: string;
+  location: Location;
+  start_time: string;
+  item_counts: Record<number, number>;
+  tax_calculations: TaxCalculations;
+  paused_intervals: PausedInterval[];
+  loot_events?: LootEvent[]; // Missing in checkpoints saved before the timeline existed
+  paused_at?: string | null; // Set when the session was paused at checkpoint time
+  price_snapshot?: PriceSnapshot | null;
+  saved_at: string;
 }
 
 export {}; // This makes the file a module
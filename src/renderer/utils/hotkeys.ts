@@ -0,0 +1,164 @@
+import { HotkeyAction, HotkeyBindings } from '../types';
+import { DEFAULT_HOTKEYS, HOTKEY_ACTIONS, RESERVED_HOTKEYS } from '../constants/hotkeys';
+
+const MODIFIER_ORDER = ['commandorcontrol', 'alt', 'shift', 'super'];
+
+// Spellings Electron accepts for the same modifier
+const MODIFIER_ALIASES: Record<string, string> = {
+  commandorcontrol: 'commandorcontrol',
+  cmdorctrl: 'commandorcontrol',
+  control: 'commandorcontrol',
+  ctrl: 'commandorcontrol',
+  command: 'commandorcontrol',
+  cmd: 'commandorcontrol',
+  alt: 'alt',
+  option: 'alt',
+  altgr: 'alt',
+  shift: 'shift',
+  super: 'super',
+  meta: 'super',
+};
+
+// KeyboardEvent.code values that don't map to their own name
+const KEY_CODE_NAMES: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Insert: 'Insert',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  NumpadAdd: 'numadd',
+  NumpadSubtract: 'numsub',
+  NumpadMultiply: 'nummult',
+  NumpadDivide: 'numdiv',
+  NumpadDecimal: 'numdec',
+};
+
+/**
+ * Saved bindings with the defaults filled in; an action saved as null stays unbound
+ */
+export function resolveHotkeys(saved?: HotkeyBindings | null): Record<HotkeyAction, string | null> {
+  const resolved = { ...DEFAULT_HOTKEYS };
+  HOTKEY_ACTIONS.forEach(({ value }) => {
+    if (saved && saved[value] !== undefined) {
+      resolved[value] = saved[value] || null;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Comparable form of an accelerator: lower case, modifier aliases merged, modifiers sorted
+ */
+export function normalizeAccelerator(accelerator: string): string {
+  const parts = accelerator.split('+').filter(Boolean).map(part => part.trim().toLowerCase());
+  const modifiers = parts
+    .filter(part => MODIFIER_ALIASES[part])
+    .map(part => MODIFIER_ALIASES[part])
+    .sort((a, b) => MODIFIER_ORDER.indexOf(a) - MODIFIER_ORDER.indexOf(b));
+  const keys = parts.filter(part => !MODIFIER_ALIASES[part]);
+  return [...new Set(modifiers), ...keys].join('+');
+}
+
+/**
+ * Electron accelerator for a key press, or null while only modifiers are held
+ * Bare keys other than F1-F24 need a modifier, since a global shortcut swallows the key everywhere.
+ */
+export function keyEventToAccelerator(event: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null {
+  const { code } = event;
+  let key: string | null = null;
+
+  if (/^Key[A-Z]$/.test(code)) {
+    key = code.slice(3);
+  } else if (/^Digit\d$/.test(code)) {
+    key = code.slice(5);
+  } else if (/^Numpad\d$/.test(code)) {
+    key = `num${code.slice(6)}`;
+  } else if (/^F\d{1,2}$/.test(code)) {
+    key = code;
+  } else {
+    key = KEY_CODE_NAMES[code] || null;
+  }
+  if (!key) return null;
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey || event.metaKey) modifiers.push('CommandOrControl');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+
+  if (modifiers.length === 0 && !/^F\d{1,2}$/.test(key)) return null;
+  return [...modifiers, key].join('+');
+}
+
+/**
+ * Accelerator as shown to the user, e.g. "Ctrl+Alt+S"
+ */
+export function formatAccelerator(accelerator: string | null | undefined): string {
+  if (!accelerator) return 'Not set';
+  const isMac = navigator.platform.toUpperCase().includes('MAC');
+  return accelerator
+    .split('+')
+    .map(part => {
+      const alias = MODIFIER_ALIASES[part.toLowerCase()];
+      if (alias === 'commandorcontrol') return isMac ? 'Cmd' : 'Ctrl';
+      if (alias === 'alt') return isMac ? 'Option' : 'Alt';
+      if (/^num/.test(part)) return `Num ${part.slice(3)}`;
+      return part;
+    })
+    .join('+');
+}
+
+/**
+ * Why each action's shortcut can't be used: bound twice, or taken by one of the app's own shortcuts
+ */
+export function findHotkeyConflicts(bindings: Record<HotkeyAction, string | null>): Partial<Record<HotkeyAction, string>> {
+  const conflicts: Partial<Record<HotkeyAction, string>> = {};
+
+  HOTKEY_ACTIONS.forEach(({ value }) => {
+    const accelerator = bindings[value];
+    if (!accelerator) return;
+    const normalized = normalizeAccelerator(accelerator);
+
+    const reserved = RESERVED_HOTKEYS.find(entry => normalizeAccelerator(entry.accelerator) === normalized);
+    if (reserved) {
+      conflicts[value] = `Reserved for ${reserved.label}`;
+      return;
+    }
+
+    const other = HOTKEY_ACTIONS.find(
+      action => action.value !== value && bindings[action.value] && normalizeAccelerator(bindings[action.value]!) === normalized
+    );
+    if (other) {
+      conflicts[value] = `Also bound to ${other.label}`;
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Zero-based loot table position an increment hotkey adds to, or null for other actions
+ */
+export function getHotkeyItemSlot(action: HotkeyAction): number | null {
+  const match = /^increment_item_(\d+)$/.exec(action);
+  return match ? parseInt(match[1], 10) - 1 : null;
+}
@@ -1,5 +1,16 @@
 // Export all utility functions
 export * from './taxCalculations';
+export * from './lootValuation';
+export * from './sessionUtils';
+export * from './sessionMetrics';
+export * from './lootCounts';
+export * from './lootTimeline';
+export * from './overlayLayout';
+export * from './hotkeys';
+export * from './rareDrops';
+export * from './sessionExport';
+export * from './sessionImport';
+export * from './itemAliases';
 export * from './avatarUtils';
 export * from './imageUtils';
 export * from './modalHelpers';
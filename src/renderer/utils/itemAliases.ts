@@ -0,0 +1,56 @@
+import { DetectionReview, Item, ItemAlias } from "../types";
+import { LEARNED_ALIAS_AMBIGUITY_MARGIN, MIN_LEARNED_ALIAS_LENGTH } from "../constants/ocr";
+
+// bdo_item_id -> alias names
+export type AliasesByBdoItemId = Map<number, string[]>;
+
+export const normalizeItemName = (name: string): string =>
+  name.trim().toLowerCase().replace(/\s+/g, " ");
+
+export function groupAliasesByBdoItemId(aliases: ItemAlias[]): AliasesByBdoItemId {
+  const grouped: AliasesByBdoItemId = new Map();
+  aliases.forEach((alias) => {
+    grouped.set(alias.bdo_item_id, [...(grouped.get(alias.bdo_item_id) || []), alias.alias]);
+  });
+  return grouped;
+}
+
+/**
+ * Whether a name refers to the item, by its own name or one of its aliases
+ */
+export function itemHasName(item: Item, name: string, aliases: AliasesByBdoItemId = new Map()): boolean {
+  const normalized = normalizeItemName(name);
+  return [item.name, ...(aliases.get(item.bdo_item_id) || [])].some(
+    (itemName) => normalizeItemName(itemName) === normalized
+  );
+}
+
+/**
+ * Item search by name, alias or BDO item ID
+ */
+export function itemMatchesSearch(item: Item, query: string, aliases: AliasesByBdoItemId = new Map()): boolean {
+  const term = query.trim().toLowerCase();
+  if (!term) return true;
+
+  return (
+    item.name.toLowerCase().includes(term) ||
+    item.bdo_item_id.toString().includes(term) ||
+    (aliases.get(item.bdo_item_id) || []).some((alias) => alias.toLowerCase().includes(term))
+  );
+}
+
+/**
+ * Whether an accepted review reading is safe to remember as an alias
+ * Cut-off names, very short readings and readings that scored about the same
+ * for several items would teach the matcher the wrong thing.
+ */
+export function canLearnAlias(review: DetectionReview): boolean {
+  if (review.truncated) return false;
+  if (review.itemName.replace(/[^\p{L}\p{N}]/gu, "").length < MIN_LEARNED_ALIAS_LENGTH) return false;
+
+  const best = review.candidates[0];
+  const closeCandidates = review.candidates.filter(
+    (candidate) => best && best.score - candidate.score < LEARNED_ALIAS_AMBIGUITY_MARGIN
+  );
+  return closeCandidates.length <= 1;
+}
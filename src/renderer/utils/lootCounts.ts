@@ -0,0 +1,80 @@
+import { LootEvent, LootEventSource } from '../types';
+
+// Oldest undo entries are dropped past this length
+export const MAX_LOOT_HISTORY = 100;
+
+// One applied change to a single item's count, as recorded for undo
+export interface LootChange {
+  itemId: number;
+  delta: number;
+}
+
+export interface LootCountsState {
+  itemCounts: Map<number, number>; // item.id -> count
+  lootHistory: LootChange[]; // Applied changes, most recent last
+  lootEvents: LootEvent[]; // Full timestamped timeline, never trimmed
+}
+
+export type LootCountsAction =
+  | { type: 'adjust'; itemId: number; delta: number; source?: LootEventSource; at?: string; confidence?: number }
+  | { type: 'undo' };
+
+/**
+ * Single entry point for every loot count change in an active session
+ * - adjust: add (or remove, with a negative delta) drops; counts never go below zero
+ * - undo: reverse the most recent adjustment
+ * Only the delta that was actually applied is recorded, so undo is exact.
+ * Every applied change also lands on the timeline (source defaults to manual, time to now);
+ * undo removes the change from the timeline too, as if it never happened.
+ */
+export function lootCountsReducer<T extends LootCountsState>(state: T, action: LootCountsAction): T {
+  switch (action.type) {
+    case 'adjust': {
+      const currentCount = state.itemCounts.get(action.itemId) || 0;
+      const newCount = Math.max(0, currentCount + Math.trunc(action.delta));
+      const appliedDelta = newCount - currentCount;
+      if (appliedDelta === 0) return state;
+
+      const itemCounts = new Map(state.itemCounts);
+      itemCounts.set(action.itemId, newCount);
+
+      return {
+        ...state,
+        itemCounts,
+        lootHistory: [...state.lootHistory, { itemId: action.itemId, delta: appliedDelta }].slice(
+          -MAX_LOOT_HISTORY
+        ),
+        lootEvents: [
+          ...state.lootEvents,
+          {
+            item_id: action.itemId,
+            quantity: appliedDelta,
+            source: action.source || 'manual',
+            at: action.at || new Date().toISOString(),
+            ...(action.confidence !== undefined && { confidence: action.confidence }),
+          },
+        ],
+      };
+    }
+
+    case 'undo': {
+      const lastChange = state.lootHistory[state.lootHistory.length - 1];
+      if (!lastChange) return state;
+
+      const itemCounts = new Map(state.itemCounts);
+      const currentCount = itemCounts.get(lastChange.itemId) || 0;
+      itemCounts.set(lastChange.itemId, Math.max(0, currentCount - lastChange.delta));
+
+      return {
+        ...state,
+        itemCounts,
+        lootHistory: state.lootHistory.slice(0, -1),
+        // The last history entry is always the last event, since both are appended together
+        lootEvents: state.lootEvents.slice(0, -1),
+      };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -0,0 +1,94 @@
+import { LootEvent, PausedInterval } from '../types';
+
+// A loot event placed on the session's active-time axis
+export interface LootTimelineEntry extends LootEvent {
+  activeSeconds: number; // Active time into the session when it happened
+}
+
+export interface DryStreakSummary {
+  drops: number; // Events that added loot (corrections are not drops)
+  longestGapSeconds: number; // Longest stretch of active time without a drop
+  longestGapEndSeconds: number | null; // Active time at which that stretch ended (null if still running)
+  sinceLastDropSeconds: number; // Active time since the last drop (or since start)
+}
+
+/**
+ * Active seconds between the session start and `at`, skipping the parts of
+ * any pauses that fall before `at`
+ */
+export function calculateActiveSecondsAt(
+  startTime: Date,
+  pausedIntervals: PausedInterval[],
+  at: Date
+): number {
+  const atMs = at.getTime();
+  const pausedMs = pausedIntervals.reduce((total, interval) => {
+    const start = new Date(interval.start).getTime();
+    const end = Math.min(new Date(interval.end).getTime(), atMs);
+    return total + Math.max(0, end - start);
+  }, 0);
+  return Math.max(0, Math.floor((atMs - startTime.getTime() - pausedMs) / 1000));
+}
+
+/**
+ * Loot events in the order they happened, each with its active-time offset
+ */
+export function buildLootTimeline(
+  events: LootEvent[],
+  startTime: Date,
+  pausedIntervals: PausedInterval[]
+): LootTimelineEntry[] {
+  return events
+    .map(event => ({
+      ...event,
+      activeSeconds: calculateActiveSecondsAt(startTime, pausedIntervals, new Date(event.at)),
+    }))
+    .sort((a, b) => a.activeSeconds - b.activeSeconds);
+}
+
+/**
+ * Gaps between drops in active time, up to `endActiveSeconds` (now for a live
+ * session, the recorded active time for a finished one)
+ * The stretch before the first drop and after the last one both count.
+ */
+export function summarizeDryStreaks(
+  timeline: LootTimelineEntry[],
+  endActiveSeconds: number
+): DryStreakSummary {
+  const drops = timeline.filter(entry => entry.quantity > 0);
+
+  let longestGapSeconds = 0;
+  let longestGapEndSeconds: number | null = null;
+  let previousSeconds = 0;
+  for (const drop of drops) {
+    const gap = drop.activeSeconds - previousSeconds;
+    if (gap > longestGapSeconds) {
+      longestGapSeconds = gap;
+      longestGapEndSeconds = drop.activeSeconds;
+    }
+    previousSeconds = drop.activeSeconds;
+  }
+
+  const sinceLastDropSeconds = Math.max(0, endActiveSeconds - previousSeconds);
+  if (sinceLastDropSeconds > longestGapSeconds) {
+    longestGapSeconds = sinceLastDropSeconds;
+    longestGapEndSeconds = null;
+  }
+
+  return {
+    drops: drops.length,
+    longestGapSeconds,
+    longestGapEndSeconds,
+    sinceLastDropSeconds,
+  };
+}
+
+/**
+ * The latest drops, newest first (corrections are left out)
+ */
+export function getRecentDrops(events: LootEvent[], limit: number): LootEvent[] {
+  return events
+    .filter(event => event.quantity > 0)
+    .slice(-limit)
+    .reverse();
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { Item, TaxCalculations } from '../types';
+import {
+  calculateItemPrice,
+  calculateLootValuation,
+  calculatePostTaxPrice,
+  resolvePreTaxPrice,
+} from './lootValuation';
+
+const NO_BONUSES: TaxCalculations = { value_pack: false, rich_merchant_ring: false, family_fame: 0 };
+const ALL_BONUSES: TaxCalculations = { value_pack: true, rich_merchant_ring: true, family_fame: 7000 };
+
+const makeItem = (overrides: Partial<Item>): Item => ({
+  id: 1,
+  name: 'Item',
+  bdo_item_id: 100,
+  base_price: 0,
+  last_sold_price: 0,
+  loot_table_ids: [],
+  region: 'NA',
+  created: '2024-01-01T00:00:00.000Z',
+  updated: '2024-01-01T00:00:00.000Z',
+  type: 'marketplace',
+  ...overrides,
+});
+
+const marketplaceNA = makeItem({ id: 1, bdo_item_id: 100, region: 'NA', base_price: 900_000, last_sold_price: 1_000_000 });
+const marketplaceEU = makeItem({ id: 2, bdo_item_id: 100, region: 'EU', base_price: 800_000, last_sold_price: 1_200_000 });
+const trash = makeItem({ id: 3, bdo_item_id: 200, type: 'trash_loot', region: null, base_price: 10_000 });
+const conversion = makeItem({
+  id: 4,
+  bdo_item_id: 300,
+  type: 'conversion',
+  region: null,
+  convertible_to_bdo_item_id: 100,
+  conversion_ratio: 10,
+});
+const allItems = [marketplaceNA, marketplaceEU, trash, conversion];
+
+describe('resolvePreTaxPrice', () => {
+  describe('marketplace items', () => {
+    it('uses the last sold price of the listing for the region', () => {
+      expect(resolvePreTaxPrice(marketplaceNA, allItems, 'EU')).toBe(1_200_000);
+    });
+
+    it('falls back to the base price when the item has not sold', () => {
+      const unsold = makeItem({ ...marketplaceNA, last_sold_price: 0 });
+      expect(resolvePreTaxPrice(unsold, [unsold], 'NA')).toBe(900_000);
+    });
+
+    it('prices the item itself when the region has no listing', () => {
+      expect(resolvePreTaxPrice(marketplaceNA, allItems, 'SEA')).toBe(1_000_000);
+    });
+  });
+
+  describe('trash loot', () => {
+    it('uses the base price in every region', () => {
+      expect(resolvePreTaxPrice(trash, allItems, 'NA')).toBe(10_000);
+      expect(resolvePreTaxPrice(trash, allItems, 'EU')).toBe(10_000);
+    });
+  });
+
+  describe('conversion items', () => {
+    it('divides the region price of the target item by the conversion ratio', () => {
+      expect(resolvePreTaxPrice(conversion, allItems, 'NA')).toBe(100_000);
+      expect(resolvePreTaxPrice(conversion, allItems, 'EU')).toBe(120_000);
+    });
+
+    it('falls back to any item with the target BDO id', () => {
+      expect(resolvePreTaxPrice(conversion, allItems, 'SEA')).toBe(100_000);
+    });
+
+    it('returns null when the target item is missing', () => {
+      expect(resolvePreTaxPrice(conversion, [conversion], 'NA')).toBeNull();
+    });
+
+    it('returns null without a conversion ratio', () => {
+      const noRatio = makeItem({ ...conversion, conversion_ratio: undefined });
+      expect(resolvePreTaxPrice(noRatio, allItems, 'NA')).toBeNull();
+    });
+  });
+});
+
+describe('calculatePostTaxPrice', () => {
+  it('applies the base tax to marketplace items', () => {
+    expect(calculatePostTaxPrice(marketplaceNA, 1_000_000, NO_BONUSES)).toBe(650_000);
+  });
+
+  it('adds each bonus to the amount left after base tax', () => {
+    expect(calculatePostTaxPrice(marketplaceNA, 1_000_000, { ...NO_BONUSES, value_pack: true })).toBe(845_000);
+    // 650,000 × (1 + 0.30 + 0.05 + 0.015)
+    expect(calculatePostTaxPrice(marketplaceNA, 1_000_000, ALL_BONUSES)).toBe(887_250);
+  });
+
+  it('never taxes trash loot', () => {
+    expect(calculatePostTaxPrice(trash, 10_000, ALL_BONUSES)).toBe(10_000);
+  });
+
+  it('taxes conversion items as the marketplace item they turn into', () => {
+    expect(calculatePostTaxPrice(conversion, 100_000, NO_BONUSES)).toBe(65_000);
+    expect(calculatePostTaxPrice(conversion, 100_000, ALL_BONUSES)).toBe(88_725);
+  });
+});
+
+describe('calculateItemPrice', () => {
+  it('returns the rounded pre-tax price by default', () => {
+    const fractional = makeItem({ ...conversion, conversion_ratio: 3 });
+    expect(calculateItemPrice(fractional, allItems, 'NA', NO_BONUSES)?.calculatedPrice).toBe(333_333);
+  });
+
+  it('returns the post-tax price when asked to apply tax', () => {
+    expect(calculateItemPrice(marketplaceNA, allItems, 'NA', NO_BONUSES, true)?.calculatedPrice).toBe(650_000);
+    expect(calculateItemPrice(trash, allItems, 'NA', ALL_BONUSES, true)?.calculatedPrice).toBe(10_000);
+    expect(calculateItemPrice(conversion, allItems, 'NA', NO_BONUSES, true)?.calculatedPrice).toBe(65_000);
+  });
+
+  it('keeps the item fields alongside the price', () => {
+    expect(calculateItemPrice(trash, allItems, 'NA', NO_BONUSES)).toMatchObject({ id: 3, name: 'Item' });
+  });
+
+  it('returns null for items that cannot be priced', () => {
+    expect(calculateItemPrice(conversion, [conversion], 'NA', NO_BONUSES)).toBeNull();
+  });
+});
+
+describe('calculateLootValuation', () => {
+  const items = [marketplaceNA, trash, conversion];
+  const counts = { [marketplaceNA.id]: 2, [trash.id]: 5, [conversion.id]: 3 };
+
+  it('splits taxable and tax-free loot', () => {
+    const valuation = calculateLootValuation(items, counts, 'NA', NO_BONUSES, allItems);
+
+    expect(valuation.taxableGrossValue).toBe(2_300_000);
+    expect(valuation.taxablePostTaxValue).toBe(1_495_000);
+    expect(valuation.nonTaxableValue).toBe(50_000);
+    expect(valuation.grossValue).toBe(2_350_000);
+    expect(valuation.postTaxValue).toBe(1_545_000);
+    expect(valuation.taxAmount).toBe(805_000);
+    expect(valuation.effectiveTaxRate).toBeCloseTo(35);
+  });
+
+  it('values each item per unit and in total', () => {
+    const valuation = calculateLootValuation(items, counts, 'NA', NO_BONUSES, allItems);
+    const conversionValuation = valuation.items.find(entry => entry.item.id === conversion.id);
+
+    expect(conversionValuation).toMatchObject({
+      count: 3,
+      preTaxPrice: 100_000,
+      postTaxPrice: 65_000,
+      grossValue: 300_000,
+      postTaxValue: 195_000,
+      taxable: true,
+    });
+    expect(valuation.items.find(entry => entry.item.id === trash.id)?.taxable).toBe(false);
+  });
+
+  it('accepts counts as a Map', () => {
+    const fromMap = calculateLootValuation(items, new Map(Object.entries(counts).map(([id, count]) => [Number(id), count])), 'NA', NO_BONUSES, allItems);
+    expect(fromMap.postTaxValue).toBe(1_545_000);
+  });
+
+  it('reports the tax bonuses used', () => {
+    const valuation = calculateLootValuation(items, counts, 'NA', ALL_BONUSES, allItems);
+
+    expect(valuation.bonuses).toEqual({ valuePack: true, richMerchantRing: true, familyFame: 7000 });
+    expect(valuation.effectiveTaxRate).toBeCloseTo(11.275);
+  });
+
+  it('prefers a calculatedPrice over the live price', () => {
+    const edited = { ...marketplaceNA, calculatedPrice: 2_000_000 };
+    const valuation = calculateLootValuation([edited], { [edited.id]: 1 }, 'NA', NO_BONUSES, allItems);
+
+    expect(valuation.grossValue).toBe(2_000_000);
+    expect(valuation.postTaxValue).toBe(1_300_000);
+  });
+
+  it('counts unpriceable items as zero', () => {
+    const valuation = calculateLootValuation([conversion], { [conversion.id]: 4 }, 'NA', NO_BONUSES, [conversion]);
+
+    expect(valuation.grossValue).toBe(0);
+    expect(valuation.items[0]).toMatchObject({ count: 4, preTaxPrice: 0, postTaxValue: 0 });
+  });
+
+  it('is empty when nothing has dropped', () => {
+    const valuation = calculateLootValuation(items, {}, 'NA', NO_BONUSES, allItems);
+
+    expect(valuation.postTaxValue).toBe(0);
+    expect(valuation.effectiveTaxRate).toBe(0);
+  });
+});
@@ -0,0 +1,223 @@
+import { Item, PriceSnapshot, TaxCalculations } from '../types';
+import { calculatePostTaxValue } from './taxCalculations';
+
+export interface ItemWithPrice extends Item {
+  calculatedPrice: number;
+}
+
+// item.id -> count, as a Map (live sessions) or a plain record (stored sessions, IPC payloads)
+export type ItemCounts = Map<number, number> | Record<number, number>;
+
+export interface ItemValuation {
+  item: Item;
+  count: number;
+  preTaxPrice: number; // Per unit
+  postTaxPrice: number; // Per unit
+  grossValue: number;
+  postTaxValue: number;
+  taxable: boolean;
+}
+
+export interface LootValuation {
+  items: ItemValuation[];
+  grossValue: number;
+  postTaxValue: number;
+  taxableGrossValue: number;
+  taxablePostTaxValue: number;
+  nonTaxableValue: number;
+  taxAmount: number;
+  effectiveTaxRate: number; // Percentage of the taxable gross value lost to tax
+  bonuses: {
+    valuePack: boolean;
+    richMerchantRing: boolean;
+    familyFame: number;
+  };
+}
+
+const getCount = (itemCounts: ItemCounts, itemId: number): number =>
+  (itemCounts instanceof Map ? itemCounts.get(itemId) : itemCounts[itemId]) || 0;
+
+const isConversion = (item: Item): boolean =>
+  item.type === "conversion" && !!item.convertible_to_bdo_item_id && !!item.conversion_ratio;
+
+/**
+ * Resolve the pre-tax per-unit price of a loot item for a region
+ * - marketplace: COALESCE(last_sold_price, base_price) of the region's listing
+ * - trash_loot: base_price (region-independent, never taxed)
+ * - conversion: price of the target marketplace item divided by the conversion ratio
+ * Returns null when the item can't be priced (e.g. a missing conversion target).
+ */
+export function resolvePreTaxPrice(item: Item, allItems: Item[], region: string): number | null {
+  if (item.type === "marketplace") {
+    // Fall back to the item itself if there is no listing for the region
+    const regionItem = allItems.find(
+      (i) =>
+        i.bdo_item_id === item.bdo_item_id &&
+        i.region === region &&
+        i.type === "marketplace"
+    );
+    const priceSource = regionItem || item;
+    return priceSource.last_sold_price || priceSource.base_price;
+  }
+
+  if (item.type === "trash_loot") {
+    return item.base_price;
+  }
+
+  if (isConversion(item)) {
+    // Prefer the region's marketplace listing, then any item with the target BDO id
+    const targetItem =
+      allItems.find(
+        (i) =>
+          i.bdo_item_id === item.convertible_to_bdo_item_id &&
+          i.region === region &&
+          i.type === "marketplace"
+      ) ||
+      allItems.find((i) => i.bdo_item_id === item.convertible_to_bdo_item_id);
+
+    if (!targetItem) return null;
+    return (targetItem.last_sold_price || targetItem.base_price) / item.conversion_ratio!;
+  }
+
+  return null;
+}
+
+/**
+ * Post-tax per-unit price for a pre-tax price
+ * Conversion items are taxed as the marketplace item they turn into, so tax
+ * is applied to the full converted price before dividing by the ratio.
+ */
+export function calculatePostTaxPrice(
+  item: Item,
+  preTaxPrice: number,
+  taxSettings: TaxCalculations
+): number {
+  const applyTax = (price: number): number =>
+    calculatePostTaxValue(
+      price,
+      taxSettings.value_pack,
+      taxSettings.rich_merchant_ring,
+      taxSettings.family_fame
+    );
+
+  if (item.type === "marketplace") {
+    return applyTax(preTaxPrice);
+  }
+  if (item.type === "trash_loot") {
+    return preTaxPrice;
+  }
+  if (isConversion(item)) {
+    return Math.round(applyTax(preTaxPrice * item.conversion_ratio!) / item.conversion_ratio!);
+  }
+  return 0;
+}
+
+/**
+ * Resolve an item's per-unit price for a region, optionally after tax
+ * Returns null when the item can't be priced.
+ */
+export function calculateItemPrice(
+  item: Item,
+  allItems: Item[],
+  region: string,
+  taxSettings: TaxCalculations,
+  applyTaxCalculations: boolean = false
+): ItemWithPrice | null {
+  const preTaxPrice = resolvePreTaxPrice(item, allItems, region);
+  if (preTaxPrice === null) return null;
+
+  return {
+    ...item,
+    calculatedPrice: applyTaxCalculations
+      ? calculatePostTaxPrice(item, preTaxPrice, taxSettings)
+      : Math.round(preTaxPrice),
+  };
+}
+
+/**
+ * Capture the current pre-tax prices of a session's loot table
+ */
+export function createPriceSnapshot(
+  items: ItemWithPrice[],
+  taxSettings: TaxCalculations,
+  capturedAt: Date = new Date()
+): PriceSnapshot {
+  return {
+    prices: Object.fromEntries(items.map((item) => [item.id, item.calculatedPrice])),
+    tax_calculations: { ...taxSettings },
+    captured_at: capturedAt.toISOString(),
+  };
+}
+
+/**
+ * Price items from a snapshot; items missing from it are returned unchanged
+ * (and so are priced live by calculateLootValuation)
+ */
+export function applyPriceSnapshot<T extends Item>(
+  items: T[],
+  snapshot: PriceSnapshot
+): Array<T | ItemWithPrice> {
+  return items.map((item) =>
+    snapshot.prices[item.id] !== undefined
+      ? { ...item, calculatedPrice: snapshot.prices[item.id] }
+      : item
+  );
+}
+
+/**
+ * Value a set of loot counts with a full tax breakdown
+ * Items that already carry a `calculatedPrice` (the session's loot table,
+ * including manual price edits) are valued at that pre-tax price; other
+ * items are priced for `region` from `allItems`. Unpriceable items count as 0.
+ */
+export function calculateLootValuation(
+  items: Array<Item | ItemWithPrice>,
+  itemCounts: ItemCounts,
+  region: string,
+  taxSettings: TaxCalculations,
+  allItems: Item[] = items
+): LootValuation {
+  let taxableGrossValue = 0;
+  let taxablePostTaxValue = 0;
+  let nonTaxableValue = 0;
+
+  const valuedItems = items.map((item): ItemValuation => {
+    const count = getCount(itemCounts, item.id);
+    const preTaxPrice =
+      'calculatedPrice' in item
+        ? item.calculatedPrice
+        : resolvePreTaxPrice(item, allItems, region) ?? 0;
+    const postTaxPrice = calculatePostTaxPrice(item, preTaxPrice, taxSettings);
+    const taxable = item.type !== "trash_loot";
+
+    const grossValue = count * preTaxPrice;
+    const postTaxValue = count * postTaxPrice;
+
+    if (taxable) {
+      taxableGrossValue += grossValue;
+      taxablePostTaxValue += postTaxValue;
+    } else {
+      nonTaxableValue += postTaxValue;
+    }
+
+    return { item, count, preTaxPrice, postTaxPrice, grossValue, postTaxValue, taxable };
+  });
+
+  const taxAmount = taxableGrossValue - taxablePostTaxValue;
+
+  return {
+    items: valuedItems,
+    grossValue: taxableGrossValue + nonTaxableValue,
+    postTaxValue: taxablePostTaxValue + nonTaxableValue,
+    taxableGrossValue,
+    taxablePostTaxValue,
+    nonTaxableValue,
+    taxAmount,
+    effectiveTaxRate: taxableGrossValue > 0 ? (taxAmount / taxableGrossValue) * 100 : 0,
+    bonuses: {
+      valuePack: taxSettings.value_pack,
+      richMerchantRing: taxSettings.rich_merchant_ring,
+      familyFame: taxSettings.family_fame,
+    },
+  };
+}
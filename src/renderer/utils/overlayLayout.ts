@@ -0,0 +1,118 @@
+import { Item, LootEvent, OverlayPreset, OverlaySettings, OverlayWidget } from '../types';
+import { DEFAULT_OVERLAY_SETTINGS, FULL_DETAIL_PRESET, OVERLAY_WIDGET_TYPES } from '../constants/overlay';
+
+// What the overlay preview shows; mirrors the data pushed to the overlay window
+export interface OverlayPreviewData {
+  items: Item[];
+  itemCounts: Record<number, number>;
+  itemValues: Record<number, number>; // item.id -> post-tax value
+  grossValue: number;
+  postTaxValue: number;
+  taxAmount: number;
+  effectiveTaxRate: number;
+  silverPerHour: number;
+  rollingSilverPerHour: number;
+  activeSeconds: number;
+  wallClockSeconds: number;
+  paused: boolean;
+  recentDrops: LootEvent[]; // Newest first
+}
+
+export interface OverlayDrop {
+  item: Item;
+  count: number;
+  value: number; // Post-tax value of all drops of this item
+}
+
+/**
+ * Every widget type, in editor order; types a saved preset doesn't have yet
+ * are added hidden, using the Full Detail placement
+ */
+function completeWidgets(widgets: OverlayWidget[]): OverlayWidget[] {
+  return OVERLAY_WIDGET_TYPES.map(({ value }) => {
+    const saved = widgets.find(widget => widget.type === value);
+    if (saved) return saved;
+
+    const fallback = FULL_DETAIL_PRESET.widgets.find(widget => widget.type === value)!;
+    return { ...fallback, visible: false };
+  });
+}
+
+/**
+ * The user's saved overlay settings, or the built-in presets when nothing usable is saved
+ */
+export function resolveOverlaySettings(saved?: OverlaySettings | null): OverlaySettings {
+  const presets = (saved?.presets || []).filter(preset => preset.name && Array.isArray(preset.widgets));
+  if (presets.length === 0) {
+    return DEFAULT_OVERLAY_SETTINGS;
+  }
+
+  const completed = presets.map(preset => ({ ...preset, widgets: completeWidgets(preset.widgets) }));
+  const activePreset = completed.some(preset => preset.name === saved?.active_preset)
+    ? saved!.active_preset
+    : completed[0].name;
+
+  return { active_preset: activePreset, presets: completed };
+}
+
+export function getActiveOverlayPreset(settings: OverlaySettings): OverlayPreset {
+  return settings.presets.find(preset => preset.name === settings.active_preset) || settings.presets[0];
+}
+
+/**
+ * Items that have dropped, most valuable first (count breaks ties)
+ */
+export function getTopDrops(
+  items: Item[],
+  itemCounts: Record<number, number>,
+  itemValues: Record<number, number>,
+  limit: number
+): OverlayDrop[] {
+  return items
+    .map(item => ({ item, count: itemCounts[item.id] || 0, value: itemValues[item.id] || 0 }))
+    .filter(drop => drop.count > 0)
+    .sort((a, b) => b.value - a.value || b.count - a.count)
+    .slice(0, limit);
+}
+
+/**
+ * Made-up session numbers so a layout can be previewed before any loot has dropped
+ */
+export function getSampleOverlayPreviewData(items: Item[]): OverlayPreviewData {
+  const sampleItems = items.length > 0
+    ? items.slice(0, 3)
+    : [1, 2, 3].map(id => ({ id, name: `Sample Item ${id}` } as Item));
+  const sampleCounts = [24, 6, 1];
+  const sampleValues = [4_800_000, 2_400_000, 12_000_000];
+
+  const itemCounts: Record<number, number> = {};
+  const itemValues: Record<number, number> = {};
+  sampleItems.forEach((item, index) => {
+    itemCounts[item.id] = sampleCounts[index];
+    itemValues[item.id] = sampleValues[index];
+  });
+
+  const postTaxValue = sampleValues.slice(0, sampleItems.length).reduce((total, value) => total + value, 0);
+  const now = Date.now();
+
+  return {
+    items: sampleItems,
+    itemCounts,
+    itemValues,
+    grossValue: Math.round(postTaxValue / 0.85),
+    postTaxValue,
+    taxAmount: Math.round(postTaxValue / 0.85) - postTaxValue,
+    effectiveTaxRate: 15,
+    silverPerHour: Math.round(postTaxValue / 1.25),
+    rollingSilverPerHour: Math.round(postTaxValue / 1.1),
+    activeSeconds: 4500,
+    wallClockSeconds: 4800,
+    paused: false,
+    recentDrops: sampleItems.map((item, index) => ({
+      item_id: item.id,
+      quantity: 1,
+      source: 'detected' as const,
+      at: new Date(now - (index + 1) * 90_000).toISOString(),
+    })),
+  };
+}
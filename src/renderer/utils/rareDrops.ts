@@ -0,0 +1,69 @@
+import { Item, LootEvent, RareDropAlert, RareDropAlertSettings } from '../types';
+import { DEFAULT_RARE_DROP_ALERTS } from '../constants/rareDrops';
+
+export function resolveRareDropAlertSettings(saved?: RareDropAlertSettings | null): RareDropAlertSettings {
+  return { ...DEFAULT_RARE_DROP_ALERTS, ...(saved || {}) };
+}
+
+/**
+ * Alerts for the drops among the given loot events
+ * A drop alerts when its item is flagged rare or its post-tax value reaches the threshold;
+ * removals and corrections (negative quantities) never alert.
+ */
+export function getRareDropAlerts(
+  events: LootEvent[],
+  items: Item[],
+  unitValues: Record<number, number>, // item.id -> post-tax price per unit
+  settings: RareDropAlertSettings,
+  rareItemIds: number[]
+): RareDropAlert[] {
+  if (!settings.enabled) return [];
+
+  return events.flatMap((event, index) => {
+    if (event.quantity <= 0) return [];
+
+    const value = Math.round((unitValues[event.item_id] || 0) * event.quantity);
+    const flagged = rareItemIds.includes(event.item_id);
+    const overThreshold = settings.silver_threshold !== null && settings.silver_threshold > 0 &&
+      value >= settings.silver_threshold;
+    if (!flagged && !overThreshold) return [];
+
+    const item = items.find(entry => entry.id === event.item_id);
+    return [{
+      id: `${event.at}-${event.item_id}-${index}`,
+      item_id: event.item_id,
+      item_name: item?.name || `Item #${event.item_id}`,
+      image_url: item?.image_url || null,
+      quantity: event.quantity,
+      value,
+      reason: flagged ? 'flagged' as const : 'threshold' as const,
+      at: event.at,
+      sound: settings.sound,
+    }];
+  });
+}
+
+/**
+ * Short rising chime, synthesized so no audio asset has to ship with the app
+ */
+export function playRareDropSound(): void {
+  try {
+    const context = new AudioContext();
+    [880, 1175, 1568].forEach((frequency, index) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      const start = context.currentTime + index * 0.12;
+      oscillator.type = 'triangle';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.45);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error('Error playing rare drop sound:', error);
+  }
+}
@@ -0,0 +1,207 @@
+import { ExportFormat } from "../types";
+import { LootValuation } from "./lootValuation";
+import { formatDuration, calculateSilverPerHour } from "./sessionUtils";
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  json: "json",
+  markdown: "md",
+};
+
+export interface SessionExportItem {
+  item_id: number;
+  bdo_item_id: number;
+  name: string;
+  type: string;
+  count: number;
+  unit_price: number; // Pre-tax
+  post_tax_unit_price: number;
+  gross_value: number;
+  post_tax_value: number;
+}
+
+export interface SessionExportRecord {
+  status: "active" | "completed";
+  location: string;
+  region: string;
+  start_time: string;
+  end_time: string | null; // null while the session is still running
+  duration_seconds: number; // Wall clock
+  active_seconds: number;
+  gross_value: number;
+  post_tax_value: number;
+  silver_per_hour: number;
+  items: SessionExportItem[];
+}
+
+/**
+ * Build an export record from a session's valuation
+ * Only items that actually dropped are included. Totals default to the
+ * valuation but can be overridden with a stored session's saved values.
+ */
+export function buildSessionExportRecord(params: {
+  status: "active" | "completed";
+  location: string;
+  region: string;
+  startTime: string;
+  endTime: string | null;
+  durationSeconds: number;
+  activeSeconds: number;
+  valuation: LootValuation;
+  grossValue?: number;
+  postTaxValue?: number;
+}): SessionExportRecord {
+  const postTaxValue = params.postTaxValue ?? params.valuation.postTaxValue;
+
+  return {
+    status: params.status,
+    location: params.location,
+    region: params.region,
+    start_time: params.startTime,
+    end_time: params.endTime,
+    duration_seconds: params.durationSeconds,
+    active_seconds: params.activeSeconds,
+    gross_value: params.grossValue ?? params.valuation.grossValue,
+    post_tax_value: postTaxValue,
+    silver_per_hour: calculateSilverPerHour(postTaxValue, params.activeSeconds),
+    items: params.valuation.items
+      .filter((entry) => entry.count > 0)
+      .map((entry) => ({
+        item_id: entry.item.id,
+        bdo_item_id: entry.item.bdo_item_id,
+        name: entry.item.name,
+        type: entry.item.type,
+        count: entry.count,
+        unit_price: entry.preTaxPrice,
+        post_tax_unit_price: entry.postTaxPrice,
+        gross_value: entry.grossValue,
+        post_tax_value: entry.postTaxValue,
+      })),
+  };
+}
+
+/**
+ * File name (without extension) like bdo-session-2024-05-01-polly-forest
+ */
+export function getSessionExportFileName(location: string, startTime: string): string {
+  const slug = location.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `bdo-session-${startTime.slice(0, 10)}${slug ? `-${slug}` : ""}`;
+}
+
+const CSV_COLUMNS = [
+  "session_start",
+  "session_end",
+  "status",
+  "location",
+  "region",
+  "duration_seconds",
+  "active_seconds",
+  "session_gross_value",
+  "session_post_tax_value",
+  "item_id",
+  "bdo_item_id",
+  "item_name",
+  "item_type",
+  "count",
+  "unit_price",
+  "post_tax_unit_price",
+  "gross_value",
+  "post_tax_value",
+];
+
+const escapeCsvField = (value: string | number | null): string => {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per session item; sessions without loot get a single row with empty item columns
+ */
+export function formatSessionsAsCsv(records: SessionExportRecord[]): string {
+  const rows = records.flatMap((record) => {
+    const sessionFields = [
+      record.start_time,
+      record.end_time,
+      record.status,
+      record.location,
+      record.region,
+      record.duration_seconds,
+      record.active_seconds,
+      record.gross_value,
+      record.post_tax_value,
+    ];
+
+    if (record.items.length === 0) {
+      return [[...sessionFields, ...Array(CSV_COLUMNS.length - sessionFields.length).fill(null)]];
+    }
+
+    return record.items.map((item) => [
+      ...sessionFields,
+      item.item_id,
+      item.bdo_item_id,
+      item.name,
+      item.type,
+      item.count,
+      item.unit_price,
+      item.post_tax_unit_price,
+      item.gross_value,
+      item.post_tax_value,
+    ]);
+  });
+
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function formatSessionsAsJson(records: SessionExportRecord[], exportedAt: Date = new Date()): string {
+  return JSON.stringify({ exported_at: exportedAt.toISOString(), sessions: records }, null, 2);
+}
+
+/**
+ * Discord-friendly summary (Discord doesn't render tables, so this sticks to lists)
+ */
+export function formatSessionsAsMarkdown(records: SessionExportRecord[]): string {
+  const lines: string[] = [];
+
+  if (records.length > 1) {
+    const totalPostTax = records.reduce((sum, record) => sum + record.post_tax_value, 0);
+    const totalActiveSeconds = records.reduce((sum, record) => sum + record.active_seconds, 0);
+    lines.push(
+      `## ${records.length} Grind Sessions`,
+      `**Total:** ${totalPostTax.toLocaleString()} silver post-tax over ${formatDuration(totalActiveSeconds)} (${calculateSilverPerHour(totalPostTax, totalActiveSeconds).toLocaleString()} silver/hour)`,
+      ""
+    );
+  }
+
+  records.forEach((record) => {
+    const heading = records.length > 1 ? "###" : "##";
+    const status = record.status === "active" ? " (in progress)" : "";
+    lines.push(
+      `${heading} ${record.location} — ${new Date(record.start_time).toLocaleString()}${status}`,
+      `**Active time:** ${formatDuration(record.active_seconds)} (${formatDuration(record.duration_seconds)} total)`,
+      `**Gross:** ${record.gross_value.toLocaleString()} silver · **Post-tax:** ${record.post_tax_value.toLocaleString()} silver`,
+      `**Silver/hour:** ${record.silver_per_hour.toLocaleString()}`
+    );
+
+    if (record.items.length > 0) {
+      lines.push("");
+      record.items.forEach((item) => {
+        lines.push(`- ${item.name} ×${item.count.toLocaleString()} — ${item.post_tax_value.toLocaleString()} silver`);
+      });
+    }
+    lines.push("");
+  });
+
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+export function formatSessionExport(records: SessionExportRecord[], format: ExportFormat): string {
+  switch (format) {
+    case "csv":
+      return formatSessionsAsCsv(records);
+    case "json":
+      return formatSessionsAsJson(records);
+    case "markdown":
+      return formatSessionsAsMarkdown(records);
+  }
+}
@@ -0,0 +1,408 @@
+import { Item, Location, NewGrindSession, TaxCalculations } from "../types";
+import { calculateLootValuation, createPriceSnapshot, ItemWithPrice } from "./lootValuation";
+import { AliasesByBdoItemId, itemHasName } from "./itemAliases";
+
+export type ImportFileFormat = "csv" | "json";
+
+export interface ImportedLootEntry {
+  name?: string;
+  bdo_item_id?: number;
+  count: number;
+  unit_price?: number; // Pre-tax, when the file recorded one
+}
+
+// A session as read from the file, before matching against the database
+export interface ImportedSession {
+  source: string; // Where it came from in the file, for error messages
+  location: string;
+  region?: string;
+  start_time: string;
+  end_time?: string;
+  duration_seconds?: number;
+  active_seconds?: number;
+  gross_value?: number;
+  post_tax_value?: number;
+  loot: ImportedLootEntry[];
+}
+
+export interface ResolvedImportSession {
+  imported: ImportedSession;
+  location: Location | null;
+  region: string;
+  itemCounts: Record<number, number>; // item.id -> count, matched entries only
+  matchedItems: Array<Item | ItemWithPrice>; // Priced from the file where it had unit prices
+  unmatchedLoot: ImportedLootEntry[];
+}
+
+export interface ImportPreview {
+  sessions: ResolvedImportSession[];
+  unmatchedItems: string[];
+  unmatchedLocations: string[];
+}
+
+// Header names accepted for each field (normalized: lower case, underscores)
+const COLUMN_ALIASES = {
+  start_time: ["session_start", "start_time", "start", "date", "started"],
+  end_time: ["session_end", "end_time", "end", "ended"],
+  location: ["location", "location_name", "spot", "grind_spot"],
+  region: ["region"],
+  duration_seconds: ["duration_seconds", "duration"],
+  duration_minutes: ["duration_minutes", "minutes"],
+  active_seconds: ["active_seconds"],
+  gross_value: ["session_gross_value"],
+  post_tax_value: ["session_post_tax_value"],
+  item_name: ["item_name", "item", "name"],
+  bdo_item_id: ["bdo_item_id", "item_id_bdo"],
+  count: ["count", "quantity", "qty", "amount"],
+  unit_price: ["unit_price", "price"],
+};
+
+type ColumnField = keyof typeof COLUMN_ALIASES;
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, " ");
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === "") return undefined;
+  const parsed = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const toIsoDate = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Read sessions from CSV with one row per item (as written by the CSV export)
+ * Rows sharing a start time and location are grouped into one session.
+ */
+function parseCsvSessions(content: string): { sessions: ImportedSession[]; errors: string[] } {
+  const [headerRow, ...dataRows] = parseCsv(content);
+  if (!headerRow) {
+    return { sessions: [], errors: ["The file is empty"] };
+  }
+
+  const headers = headerRow.map(normalizeHeader);
+  const columnIndex = (field: ColumnField): number =>
+    headers.findIndex((header) => COLUMN_ALIASES[field].includes(header));
+
+  const indexes = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as ColumnField[]).map((field) => [field, columnIndex(field)])
+  ) as Record<ColumnField, number>;
+
+  const errors: string[] = [];
+  if (indexes.start_time < 0) errors.push("Missing a start time column (e.g. session_start)");
+  if (indexes.location < 0) errors.push("Missing a location column");
+  if (indexes.item_name < 0 && indexes.bdo_item_id < 0) errors.push("Missing an item_name or bdo_item_id column");
+  if (errors.length > 0) {
+    return { sessions: [], errors };
+  }
+
+  const sessionsByKey = new Map<string, ImportedSession>();
+  dataRows.forEach((row, index) => {
+    const source = `row ${index + 2}`;
+    const cell = (field: ColumnField): string | undefined =>
+      indexes[field] >= 0 ? row[indexes[field]]?.trim() : undefined;
+
+    const startTime = toIsoDate(cell("start_time"));
+    const location = cell("location");
+    if (!startTime || !location) {
+      errors.push(`${source}: missing or invalid start time or location`);
+      return;
+    }
+
+    const key = `${startTime}|${normalizeName(location)}`;
+    let session = sessionsByKey.get(key);
+    if (!session) {
+      const durationMinutes = toNumber(cell("duration_minutes"));
+      session = {
+        source,
+        location,
+        region: cell("region") || undefined,
+        start_time: startTime,
+        end_time: toIsoDate(cell("end_time")) || undefined,
+        duration_seconds:
+          toNumber(cell("duration_seconds")) ??
+          (durationMinutes !== undefined ? durationMinutes * 60 : undefined),
+        active_seconds: toNumber(cell("active_seconds")),
+        gross_value: toNumber(cell("gross_value")),
+        post_tax_value: toNumber(cell("post_tax_value")),
+        loot: [],
+      };
+      sessionsByKey.set(key, session);
+    }
+
+    // Sessions without loot are exported as a row with empty item columns
+    const name = cell("item_name");
+    const bdoItemId = toNumber(cell("bdo_item_id"));
+    if (!name && bdoItemId === undefined) return;
+
+    const count = toNumber(cell("count"));
+    if (count === undefined || count < 0) {
+      errors.push(`${source}: missing or invalid count`);
+      return;
+    }
+
+    session.loot.push({ name, bdo_item_id: bdoItemId, count, unit_price: toNumber(cell("unit_price")) });
+  });
+
+  return { sessions: Array.from(sessionsByKey.values()), errors };
+}
+
+/**
+ * Read sessions from JSON: the JSON export's `{ sessions: [...] }` shape or a bare array
+ */
+function parseJsonSessions(content: string): { sessions: ImportedSession[]; errors: string[] } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { sessions: [], errors: [`Invalid JSON: ${error instanceof Error ? error.message : "parse error"}`] };
+  }
+
+  const rawSessions: any[] | null = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.sessions) ? parsed.sessions : null;
+  if (!rawSessions) {
+    return { sessions: [], errors: ["Expected an array of sessions or an object with a \"sessions\" array"] };
+  }
+
+  const errors: string[] = [];
+  const sessions: ImportedSession[] = [];
+
+  rawSessions.forEach((raw, index) => {
+    const source = `session ${index + 1}`;
+    const startTime = toIsoDate(raw?.start_time ?? raw?.start ?? raw?.date);
+    const location = raw?.location_name ?? raw?.location;
+    if (!startTime || typeof location !== "string" || !location.trim()) {
+      errors.push(`${source}: missing or invalid start_time or location`);
+      return;
+    }
+    if (raw.region !== undefined && raw.region !== null && typeof raw.region !== "string") {
+      errors.push(`${source}: region must be text`);
+      return;
+    }
+
+    const rawLoot: any[] = Array.isArray(raw.items) ? raw.items : Array.isArray(raw.loot) ? raw.loot : [];
+    const loot: ImportedLootEntry[] = [];
+    rawLoot.forEach((entry, lootIndex) => {
+      const count = toNumber(entry?.count ?? entry?.quantity);
+      const name = entry?.name ?? entry?.item_name ?? undefined;
+      const bdoItemId = toNumber(entry?.bdo_item_id);
+      if (name !== undefined && typeof name !== "string") {
+        errors.push(`${source}, item ${lootIndex + 1}: name must be text`);
+        return;
+      }
+      if (count === undefined || count < 0 || (!name && bdoItemId === undefined)) {
+        errors.push(`${source}, item ${lootIndex + 1}: needs a name or bdo_item_id and a count`);
+        return;
+      }
+      loot.push({ name, bdo_item_id: bdoItemId, count, unit_price: toNumber(entry?.unit_price) });
+    });
+
+    sessions.push({
+      source,
+      location: location.trim(),
+      region: raw.region?.trim() || undefined,
+      start_time: startTime,
+      end_time: toIsoDate(raw.end_time) || undefined,
+      duration_seconds: toNumber(raw.duration_seconds),
+      active_seconds: toNumber(raw.active_seconds),
+      gross_value: toNumber(raw.gross_value),
+      post_tax_value: toNumber(raw.post_tax_value),
+      loot,
+    });
+  });
+
+  return { sessions, errors };
+}
+
+export function parseSessionFile(
+  content: string,
+  format: ImportFileFormat
+): { sessions: ImportedSession[]; errors: string[] } {
+  return format === "csv" ? parseCsvSessions(content) : parseJsonSessions(content);
+}
+
+/**
+ * Find the item an imported entry refers to, by bdo_item_id first and then by name or alias
+ * Marketplace items exist once per region, so the region's listing is preferred.
+ */
+export function findImportedItem(
+  entry: ImportedLootEntry,
+  items: Item[],
+  region: string,
+  aliases: AliasesByBdoItemId = new Map()
+): Item | null {
+  const candidates =
+    entry.bdo_item_id !== undefined
+      ? items.filter((item) => item.bdo_item_id === entry.bdo_item_id)
+      : entry.name
+        ? items.filter((item) => itemHasName(item, entry.name!, aliases))
+        : [];
+
+  return (
+    candidates.find((item) => item.region === region) ||
+    candidates.find((item) => item.region === null) ||
+    candidates[0] ||
+    null
+  );
+}
+
+/**
+ * Match imported sessions against locations and items, collecting what couldn't be matched
+ */
+export function resolveImportedSessions(
+  sessions: ImportedSession[],
+  items: Item[],
+  locations: Location[],
+  defaultRegion: string,
+  aliases: AliasesByBdoItemId = new Map()
+): ImportPreview {
+  const unmatchedItems = new Set<string>();
+  const unmatchedLocations = new Set<string>();
+
+  const resolved = sessions.map((imported): ResolvedImportSession => {
+    const region = imported.region || defaultRegion;
+    const location =
+      locations.find((l) => normalizeName(l.name) === normalizeName(imported.location)) || null;
+    if (!location) unmatchedLocations.add(imported.location);
+
+    const itemCounts: Record<number, number> = {};
+    const matchedItems = new Map<number, Item | ItemWithPrice>();
+    const unmatchedLoot: ImportedLootEntry[] = [];
+
+    imported.loot.forEach((entry) => {
+      const item = findImportedItem(entry, items, region, aliases);
+      if (!item) {
+        unmatchedLoot.push(entry);
+        unmatchedItems.add(entry.name || `BDO item ${entry.bdo_item_id}`);
+        return;
+      }
+
+      itemCounts[item.id] = (itemCounts[item.id] || 0) + entry.count;
+      if (!matchedItems.has(item.id) || entry.unit_price !== undefined) {
+        matchedItems.set(
+          item.id,
+          entry.unit_price !== undefined ? { ...item, calculatedPrice: entry.unit_price } : item
+        );
+      }
+    });
+
+    return {
+      imported,
+      location,
+      region,
+      itemCounts,
+      matchedItems: Array.from(matchedItems.values()),
+      unmatchedLoot,
+    };
+  });
+
+  return {
+    sessions: resolved,
+    unmatchedItems: Array.from(unmatchedItems),
+    unmatchedLocations: Array.from(unmatchedLocations),
+  };
+}
+
+/**
+ * Build the stored session for a resolved import
+ * Items without a unit price in the file are valued at current prices, and
+ * totals from the file win over computed ones.
+ */
+export function toNewGrindSession(
+  resolved: ResolvedImportSession,
+  allItems: Item[],
+  taxSettings: TaxCalculations,
+  note: string
+): NewGrindSession | null {
+  if (!resolved.location) return null;
+
+  const { imported } = resolved;
+  const startMs = new Date(imported.start_time).getTime();
+  const endMsFromFile = imported.end_time ? new Date(imported.end_time).getTime() : undefined;
+  const durationSeconds = Math.max(
+    0,
+    Math.round(
+      imported.duration_seconds ??
+        (endMsFromFile !== undefined ? (endMsFromFile - startMs) / 1000 : imported.active_seconds ?? 0)
+    )
+  );
+
+  const valuation = calculateLootValuation(
+    resolved.matchedItems,
+    resolved.itemCounts,
+    resolved.region,
+    taxSettings,
+    allItems
+  );
+
+  return {
+    location_id: resolved.location.id,
+    region: resolved.region,
+    start_time: imported.start_time,
+    end_time: imported.end_time || new Date(startMs + durationSeconds * 1000).toISOString(),
+    duration_seconds: durationSeconds,
+    active_seconds: Math.round(imported.active_seconds ?? durationSeconds),
+    paused_intervals: null,
+    loot_events: null, // Imports only carry totals
+    tax_calculations: taxSettings,
+    price_snapshot: createPriceSnapshot(
+      valuation.items.map(({ item, preTaxPrice }) => ({ ...item, calculatedPrice: preTaxPrice })),
+      taxSettings
+    ),
+    gross_value: Math.round(imported.gross_value ?? valuation.grossValue),
+    post_tax_value: Math.round(imported.post_tax_value ?? valuation.postTaxValue),
+    notes: note,
+    item_counts: resolved.itemCounts,
+  };
+}
@@ -0,0 +1,80 @@
+import { calculateSilverPerHour } from './sessionUtils';
+
+// Rolling silver/hour window (10 minutes of active time)
+export const ROLLING_WINDOW_SECONDS = 600;
+
+// A point-in-time reading of the session's post-tax value, keyed by active time
+export interface ValueSample {
+  activeSeconds: number;
+  value: number;
+}
+
+export interface SessionMetrics {
+  silverPerHour: number;
+  rollingSilverPerHour: number;
+  projectedTotal: number;
+  targetSeconds: number;
+  dropsPerHour: Record<number, number>; // item.id -> drops per hour
+}
+
+/**
+ * Silver/hour over the last `windowSeconds` of active time
+ * Uses the oldest sample inside the window as the baseline, so the rate
+ * equals the overall rate until the session is longer than the window.
+ */
+export function calculateRollingSilverPerHour(
+  samples: ValueSample[],
+  activeSeconds: number,
+  currentValue: number,
+  windowSeconds: number = ROLLING_WINDOW_SECONDS
+): number {
+  const windowStart = activeSeconds - windowSeconds;
+  const baseline = samples.find(sample => sample.activeSeconds >= windowStart) || {
+    activeSeconds: 0,
+    value: 0,
+  };
+
+  return calculateSilverPerHour(
+    currentValue - baseline.value,
+    activeSeconds - baseline.activeSeconds
+  );
+}
+
+/**
+ * Projected post-tax total at the end of a target session length, assuming
+ * the overall silver/hour holds for the remaining time
+ */
+export function calculateProjectedTotal(
+  currentValue: number,
+  activeSeconds: number,
+  targetSeconds: number
+): number {
+  const remainingSeconds = Math.max(0, targetSeconds - activeSeconds);
+  const silverPerHour = calculateSilverPerHour(currentValue, activeSeconds);
+  return Math.round(currentValue + (silverPerHour * remainingSeconds) / 3600);
+}
+
+/**
+ * Live metrics for an active session
+ */
+export function calculateSessionMetrics(
+  activeSeconds: number,
+  postTaxValue: number,
+  itemCounts: Map<number, number>,
+  samples: ValueSample[],
+  targetSeconds: number
+): SessionMetrics {
+  const dropsPerHour: Record<number, number> = {};
+  itemCounts.forEach((count, itemId) => {
+    dropsPerHour[itemId] =
+      activeSeconds > 0 ? Math.round((count / activeSeconds) * 3600 * 10) / 10 : 0;
+  });
+
+  return {
+    silverPerHour: calculateSilverPerHour(postTaxValue, activeSeconds),
+    rollingSilverPerHour: calculateRollingSilverPerHour(samples, activeSeconds, postTaxValue),
+    projectedTotal: calculateProjectedTotal(postTaxValue, activeSeconds, targetSeconds),
+    targetSeconds,
+    dropsPerHour,
+  };
+}
@@ -0,0 +1,54 @@
+import { PausedInterval } from "../types";
+
+/**
+ * Format a duration in seconds as h:mm:ss (or m:ss when under an hour)
+ */
+export function formatDuration(totalSeconds: number): string {
+  const safeSeconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(safeSeconds / 3600);
+  const minutes = Math.floor((safeSeconds % 3600) / 60);
+  const seconds = safeSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Silver earned per hour over a duration in seconds (0 for empty durations)
+ */
+export function calculateSilverPerHour(value: number, durationSeconds: number): number {
+  if (durationSeconds <= 0) return 0;
+  return Math.round((value / durationSeconds) * 3600);
+}
+
+/**
+ * Total paused time in milliseconds, including a pause that is still running
+ */
+export function calculatePausedMs(
+  pausedIntervals: PausedInterval[],
+  pausedAt?: Date,
+  now: Date = new Date()
+): number {
+  const closedMs = pausedIntervals.reduce(
+    (total, interval) =>
+      total + (new Date(interval.end).getTime() - new Date(interval.start).getTime()),
+    0
+  );
+  const openMs = pausedAt ? now.getTime() - pausedAt.getTime() : 0;
+  return closedMs + openMs;
+}
+
+/**
+ * Seconds actually spent grinding: wall-clock time minus paused time
+ */
+export function calculateActiveSeconds(
+  startTime: Date,
+  pausedIntervals: PausedInterval[],
+  pausedAt?: Date,
+  now: Date = new Date()
+): number {
+  const wallClockMs = now.getTime() - startTime.getTime();
+  return Math.max(0, Math.floor((wallClockMs - calculatePausedMs(pausedIntervals, pausedAt, now)) / 1000));
+}
@@ -0,0 +1,245 @@
+import { BaseDatabase } from './base';
+import { GrindSession, GrindSessionWithLoot, GrindSessionFilters, NewGrindSession, SessionLoot } from './types';
+
+// Supabase returns at most this many rows per request by default
+const LOOT_PAGE_SIZE = 1000;
+// Sessions per loot query, so the id list stays well inside URL length limits
+const LOOT_SESSION_BATCH_SIZE = 100;
+
+export class GrindSessionService extends BaseDatabase {
+  private sessionsTable = 'grind_sessions';
+  private lootTable = 'session_loot';
+
+  // Persist a finished session together with its per-item loot counts
+  async create(userId: string, session: NewGrindSession): Promise<{ success: boolean; data?: GrindSessionWithLoot; error?: string }> {
+    try {
+      const { item_counts, ...sessionFields } = session;
+
+      const { data, error } = await this.supabase
+        .from(this.sessionsTable)
+        .insert({
+          ...sessionFields,
+          user_id: userId,
+          created: new Date().toISOString(),
+          updated: new Date().toISOString()
+        })
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      // Only store items that actually dropped
+      const lootRows = Object.entries(item_counts)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([itemId, quantity]) => ({
+          session_id: data.id,
+          item_id: Number(itemId),
+          quantity,
+          created: new Date().toISOString()
+        }));
+
+      let loot: SessionLoot[] = [];
+      if (lootRows.length > 0) {
+        const { data: lootData, error: lootError } = await this.supabase
+          .from(this.lootTable)
+          .insert(lootRows)
+          .select();
+
+        if (lootError) {
+          // Roll back the session row so we don't keep a session without its loot
+          await this.supabase.from(this.sessionsTable).delete().eq('id', data.id);
+          return { success: false, error: lootError.message };
+        }
+
+        loot = lootData || [];
+      }
+
+      return { success: true, data: { ...data, loot } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Get a user's sessions (newest first), optionally filtered by location and start time range
+  async getByUserId(userId: string, filters: GrindSessionFilters = {}): Promise<{ success: boolean; data?: GrindSession[]; error?: string }> {
+    try {
+      let query = this.supabase
+        .from(this.sessionsTable)
+        .select('*')
+        .eq('user_id', userId);
+
+      if (filters.location_id !== undefined) {
+        query = query.eq('location_id', filters.location_id);
+      }
+
+      if (filters.from) {
+        query = query.gte('start_time', filters.from);
+      }
+
+      if (filters.to) {
+        query = query.lte('start_time', filters.to);
+      }
+
+      const { data, error } = await query.order('start_time', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Get a user's sessions with their loot rows (for exports), loading loot in batches rather than per session
+  async getWithLootByUserId(userId: string, filters: GrindSessionFilters = {}): Promise<{ success: boolean; data?: GrindSessionWithLoot[]; error?: string }> {
+    try {
+      const sessionsResult = await this.getByUserId(userId, filters);
+      if (!sessionsResult.success || !sessionsResult.data) {
+        return { success: false, error: sessionsResult.error };
+      }
+
+      const sessions = sessionsResult.data;
+      if (sessions.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      // A wide date range has more loot rows than one response holds, so
+      // sessions are queried in batches and each batch is read page by page
+      const loot: SessionLoot[] = [];
+      for (let start = 0; start < sessions.length; start += LOOT_SESSION_BATCH_SIZE) {
+        const sessionIds = sessions.slice(start, start + LOOT_SESSION_BATCH_SIZE).map(session => session.id);
+
+        for (let offset = 0; ; offset += LOOT_PAGE_SIZE) {
+          const { data, error } = await this.supabase
+            .from(this.lootTable)
+            .select('*')
+            .in('session_id', sessionIds)
+            .order('quantity', { ascending: false })
+            .order('id', { ascending: true })
+            .range(offset, offset + LOOT_PAGE_SIZE - 1);
+
+          if (error) {
+            return { success: false, error: error.message };
+          }
+
+          const page: SessionLoot[] = data || [];
+          loot.push(...page);
+          if (page.length < LOOT_PAGE_SIZE) break;
+        }
+      }
+
+      return {
+        success: true,
+        data: sessions.map(session => ({
+          ...session,
+          loot: loot.filter(row => row.session_id === session.id)
+        }))
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Get a single session with its loot rows
+  async getById(id: number): Promise<{ success: boolean; data?: GrindSessionWithLoot; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.sessionsTable)
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) {
+        if (error.code === 'PGRST116') {
+          return { success: false, error: 'Session not found' };
+        }
+        return { success: false, error: error.message };
+      }
+
+      const lootResult = await this.getLoot(id);
+      if (!lootResult.success) {
+        return { success: false, error: lootResult.error };
+      }
+
+      return { success: true, data: { ...data, loot: lootResult.data || [] } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Get the loot rows recorded for a session
+  async getLoot(sessionId: number): Promise<{ success: boolean; data?: SessionLoot[]; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.lootTable)
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('quantity', { ascending: false });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Update session metadata (e.g. notes)
+  async update(id: number, updates: Partial<Omit<GrindSession, 'id' | 'user_id' | 'created' | 'updated'>>): Promise<{ success: boolean; data?: GrindSession; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.sessionsTable)
+        .update({
+          ...updates,
+          updated: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  // Delete a session and its loot rows
+  async delete(id: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error: lootError } = await this.supabase
+        .from(this.lootTable)
+        .delete()
+        .eq('session_id', id);
+
+      if (lootError) {
+        return { success: false, error: lootError.message };
+      }
+
+      const { error } = await this.supabase
+        .from(this.sessionsTable)
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+// Export singleton instance
+export const grindSessionService = new GrindSessionService();
@@ -4,6 +4,8 @@ export { usersService, UsersService } from './users';
 export { aclsService, AclsService } from './acls';
 export { locationService, LocationService } from './locations';
 export { itemsService, ItemsService } from './items';
+export { itemAliasesService, ItemAliasesService } from './itemAliases';
+export { grindSessionService, GrindSessionService } from './grindSessions';
 export { StorageService } from './storage';
 
 // Type exports
@@ -15,12 +17,16 @@ import { UsersService } from './users';
 import { AclsService } from './acls';
 import { LocationService } from './locations';
 import { ItemsService } from './items';
+import { ItemAliasesService } from './itemAliases';
+import { GrindSessionService } from './grindSessions';
 
 export class DatabaseService extends BaseDatabase {
   public users: UsersService;
   public acls: AclsService;
   public locations: LocationService;
   public items: ItemsService;
+  public itemAliases: ItemAliasesService;
+  public grindSessions: GrindSessionService;
 
   constructor() {
     super();
@@ -28,6 +34,8 @@ export class DatabaseService extends BaseDatabase {
     this.acls = new AclsService();
     this.locations = new LocationService();
     this.items = new ItemsService();
+    this.itemAliases = new ItemAliasesService();
+    this.grindSessions = new GrindSessionService();
   }
 
   // Health check method that tests all service connections
@@ -46,6 +54,7 @@ export class DatabaseService extends BaseDatabase {
           users: true,
           locations: true,
           items: true,
+          itemAliases: true,
           grindSessions: true,
           sessionLoot: true,
           lootTables: true,
@@ -60,6 +69,7 @@ export class DatabaseService extends BaseDatabase {
           users: false,
           locations: false,
           items: false,
+          itemAliases: false,
           grindSessions: false,
           sessionLoot: false,
           lootTables: false,
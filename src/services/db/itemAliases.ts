@@ -0,0 +1,108 @@
+import { BaseDatabase } from './base';
+import { ItemAlias, NewItemAlias } from './types';
+
+export class ItemAliasesService extends BaseDatabase {
+  private tableName = 'item_aliases';
+
+  async getAll(): Promise<{ success: boolean; data?: ItemAlias[]; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .order('bdo_item_id', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: `Failed to fetch item aliases: ${error}` };
+    }
+  }
+
+  async getByBdoItemId(bdoItemId: number): Promise<{ success: boolean; data?: ItemAlias[]; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .select('*')
+        .eq('bdo_item_id', bdoItemId)
+        .order('language', { ascending: true });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data: data || [] };
+    } catch (error) {
+      return { success: false, error: `Failed to fetch item aliases: ${error}` };
+    }
+  }
+
+  async create(alias: NewItemAlias): Promise<{ success: boolean; data?: ItemAlias; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .insert([{
+          bdo_item_id: alias.bdo_item_id,
+          alias: alias.alias.trim(),
+          language: alias.language,
+          created: new Date().toISOString(),
+          updated: new Date().toISOString()
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: `Failed to create item alias: ${error}` };
+    }
+  }
+
+  async update(id: number, updates: Partial<Pick<ItemAlias, 'alias' | 'language'>>): Promise<{ success: boolean; data?: ItemAlias; error?: string }> {
+    try {
+      const { data, error } = await this.supabase
+        .from(this.tableName)
+        .update({
+          ...updates,
+          ...(updates.alias !== undefined ? { alias: updates.alias.trim() } : {}),
+          updated: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: `Failed to update item alias: ${error}` };
+    }
+  }
+
+  async delete(id: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await this.supabase
+        .from(this.tableName)
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: `Failed to delete item alias: ${error}` };
+    }
+  }
+}
+
+// Export singleton instance
+export const itemAliasesService = new ItemAliasesService();
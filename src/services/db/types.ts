@@ -16,6 +16,85 @@ export interface TaxCalculations {
   family_fame: number;
 }
 
+export interface OcrPreprocessing {
+  scale: number;
+  contrast: number;
+  threshold: number | null; // 0-255, null = no binarization
+}
+
+// 'ocr' reads loot log text, 'icon' matches item icons for UIs with text too small to read
+export type DetectionMode = 'ocr' | 'icon';
+
+// Building blocks of the streaming overlay
+export type OverlayWidgetType =
+  | 'total_silver'
+  | 'silver_per_hour'
+  | 'timer'
+  | 'top_drops'
+  | 'recent_drops'
+  | 'tax_breakdown';
+
+// One widget's placement and look; positions are overlay pixels from the top-left corner
+export interface OverlayWidget {
+  type: OverlayWidgetType;
+  visible: boolean;
+  x: number;
+  y: number;
+  width: number;
+  font_family: string;
+  font_size: number; // px
+  text_color: string; // CSS color
+  background_color: string; // CSS color, may be transparent
+  max_items?: number; // top_drops and recent_drops only
+}
+
+export interface OverlayPreset {
+  name: string;
+  widgets: OverlayWidget[];
+}
+
+// Saved overlay presets; the active one drives the overlay window and browser sources
+export interface OverlaySettings {
+  active_preset: string;
+  presets: OverlayPreset[];
+}
+
+// Session actions that can be bound to a global shortcut
+// increment_item_N adds one of the Nth item in the loot table
+export type HotkeyAction =
+  | 'start_stop'
+  | 'pause_resume'
+  | 'toggle_overlay'
+  | 'undo_last_drop'
+  | 'increment_item_1'
+  | 'increment_item_2'
+  | 'increment_item_3'
+  | 'increment_item_4'
+  | 'increment_item_5';
+
+// Electron accelerator per action (e.g. "CommandOrControl+Alt+S"); null leaves it unbound
+export type HotkeyBindings = Partial<Record<HotkeyAction, string | null>>;
+
+// When a drop raises a rare drop alert, besides items flagged in rare_item_ids
+export interface RareDropAlertSettings {
+  enabled: boolean;
+  silver_threshold: number | null; // Post-tax value of a single drop; null alerts on flagged items only
+  sound: boolean;
+}
+
+// One alert, shown in the main window and pushed to the overlay and browser sources
+export interface RareDropAlert {
+  id: string;
+  item_id: number;
+  item_name: string;
+  image_url?: string | null;
+  quantity: number;
+  value: number; // Post-tax value of this drop
+  reason: 'flagged' | 'threshold';
+  at: string; // ISO timestamp of the drop
+  sound: boolean; // Play the alert chime
+}
+
 export interface UserPreferences {
   user_id: number;
   preferred_region: string;
@@ -25,9 +104,17 @@ export interface UserPreferences {
     y: number;
     width: number;
     height: number;
-    display?: string;
+    display?: string; // Display label
+    display_id?: number; // Set for regions in physical pixels on that display; older regions are DIPs on the primary display
+    scale_factor?: number;
   } | null; // OCR region for loot detection
+  detection_mode?: DetectionMode | null; // How loot is read from the region, defaults to 'ocr'
+  ocr_preprocessing?: OcrPreprocessing | null; // Calibrated for designated_ocr_region
   tax_calculations?: TaxCalculations | null; // Tax calculation settings
+  overlay_settings?: OverlaySettings | null; // Defaults to the built-in presets
+  hotkeys?: HotkeyBindings | null; // Missing actions use the default shortcuts
+  rare_drop_alerts?: RareDropAlertSettings | null; // Defaults to DEFAULT_RARE_DROP_ALERTS
+  rare_item_ids?: number[] | null; // Items that always alert when they drop
   created: string;
   updated: string;
 }
@@ -78,6 +165,19 @@ export interface Item {
   conversion_ratio?: number;
 }
 
+// Another name an item goes by: a client language's name or a player abbreviation
+// Keyed by bdo_item_id so it applies to every regional listing of the item
+export interface ItemAlias {
+  id: number;
+  bdo_item_id: number;
+  alias: string;
+  language: string; // e.g. 'en', 'de', 'ko'
+  created: string;
+  updated: string;
+}
+
+export type NewItemAlias = Omit<ItemAlias, 'id' | 'created' | 'updated'>;
+
 export interface LootTable {
   id: number;
   location_id: number;
@@ -87,6 +187,74 @@ export interface LootTable {
   archived?: string | null;
 }
 
+// A closed pause within a session (ISO timestamps)
+export interface PausedInterval {
+  start: string;
+  end: string;
+}
+
+// How a loot change was entered: by hand, by the loot detector, or from the detection review queue
+export type LootEventSource = 'manual' | 'detected' | 'review';
+
+// One loot change in a session, in the order it happened (quantity is the signed delta actually applied)
+export interface LootEvent {
+  item_id: number;
+  quantity: number;
+  source: LootEventSource;
+  at: string; // ISO timestamp
+  confidence?: number; // Match score (0-1) for detected and reviewed drops
+}
+
+// Prices and tax settings frozen when a session starts, so later price syncs don't change it
+export interface PriceSnapshot {
+  prices: Record<number, number>; // item.id -> pre-tax unit price
+  tax_calculations: TaxCalculations;
+  captured_at: string;
+}
+
+export interface GrindSession {
+  id: number;
+  user_id: number;
+  location_id: number;
+  region: string;
+  start_time: string;
+  end_time: string;
+  duration_seconds: number; // Wall-clock time from start to end
+  active_seconds?: number | null; // Wall-clock time minus pauses (null for sessions recorded before pausing existed)
+  paused_intervals?: PausedInterval[] | null;
+  loot_events?: LootEvent[] | null; // null for sessions recorded before the timeline existed
+  tax_calculations: TaxCalculations;
+  price_snapshot?: PriceSnapshot | null; // null for sessions recorded before snapshots existed
+  gross_value: number;
+  post_tax_value: number;
+  notes?: string | null;
+  created: string;
+  updated: string;
+}
+
+export interface SessionLoot {
+  id: number;
+  session_id: number;
+  item_id: number;
+  quantity: number;
+  created: string;
+}
+
+export interface GrindSessionWithLoot extends GrindSession {
+  loot: SessionLoot[];
+}
+
+// Payload used when persisting a finished session; item_counts maps item.id -> count
+export interface NewGrindSession extends Omit<GrindSession, 'id' | 'user_id' | 'created' | 'updated'> {
+  item_counts: Record<number, number>;
+}
+
+export interface GrindSessionFilters {
+  location_id?: number;
+  from?: string; // ISO timestamp, inclusive lower bound on start_time
+  to?: string; // ISO timestamp, inclusive upper bound on start_time
+}
+
 // === DISCORD TYPES ===
 
 export interface DiscordUser {
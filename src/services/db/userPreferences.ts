@@ -29,7 +29,13 @@ export class UserPreferencesService extends BaseDatabase {
         preferred_region: data.preferred_region,
         display_regions: data.display_regions,
         designated_ocr_region: data.designated_ocr_region,
+        detection_mode: data.detection_mode,
+        ocr_preprocessing: data.ocr_preprocessing,
         tax_calculations: data.tax_calculations,
+        overlay_settings: data.overlay_settings,
+        hotkeys: data.hotkeys,
+        rare_drop_alerts: data.rare_drop_alerts,
+        rare_item_ids: data.rare_item_ids,
         created: data.created,
         updated: data.updated
       };
@@ -53,7 +59,13 @@ export class UserPreferencesService extends BaseDatabase {
           preferred_region: preferences.preferred_region || 'NA',
           display_regions: preferences.display_regions || ['NA'],
           designated_ocr_region: preferences.designated_ocr_region || null,
-          tax_calculations: preferences.tax_calculations || null
+          detection_mode: preferences.detection_mode || 'ocr',
+          ocr_preprocessing: preferences.ocr_preprocessing || null,
+          tax_calculations: preferences.tax_calculations || null,
+          overlay_settings: preferences.overlay_settings || null,
+          hotkeys: preferences.hotkeys || null,
+          rare_drop_alerts: preferences.rare_drop_alerts || null,
+          rare_item_ids: preferences.rare_item_ids || null
         })
         .select()
         .single();
@@ -67,7 +79,13 @@ export class UserPreferencesService extends BaseDatabase {
         preferred_region: data.preferred_region,
         display_regions: data.display_regions,
         designated_ocr_region: data.designated_ocr_region,
+        detection_mode: data.detection_mode,
+        ocr_preprocessing: data.ocr_preprocessing,
         tax_calculations: data.tax_calculations,
+        overlay_settings: data.overlay_settings,
+        hotkeys: data.hotkeys,
+        rare_drop_alerts: data.rare_drop_alerts,
+        rare_item_ids: data.rare_item_ids,
         created: data.created,
         updated: data.updated
       };
@@ -98,10 +116,34 @@ export class UserPreferencesService extends BaseDatabase {
         updates.designated_ocr_region = preferences.designated_ocr_region;
       }
 
+      if (preferences.detection_mode !== undefined) {
+        updates.detection_mode = preferences.detection_mode;
+      }
+
+      if (preferences.ocr_preprocessing !== undefined) {
+        updates.ocr_preprocessing = preferences.ocr_preprocessing;
+      }
+
       if (preferences.tax_calculations !== undefined) {
         updates.tax_calculations = preferences.tax_calculations;
       }
 
+      if (preferences.overlay_settings !== undefined) {
+        updates.overlay_settings = preferences.overlay_settings;
+      }
+
+      if (preferences.hotkeys !== undefined) {
+        updates.hotkeys = preferences.hotkeys;
+      }
+
+      if (preferences.rare_drop_alerts !== undefined) {
+        updates.rare_drop_alerts = preferences.rare_drop_alerts;
+      }
+
+      if (preferences.rare_item_ids !== undefined) {
+        updates.rare_item_ids = preferences.rare_item_ids;
+      }
+
       if (Object.keys(updates).length === 0) {
         return { success: false, error: 'No valid updates provided' };
       }
@@ -125,7 +167,13 @@ export class UserPreferencesService extends BaseDatabase {
         preferred_region: data.preferred_region,
         display_regions: data.display_regions,
         designated_ocr_region: data.designated_ocr_region,
+        detection_mode: data.detection_mode,
+        ocr_preprocessing: data.ocr_preprocessing,
         tax_calculations: data.tax_calculations,
+        overlay_settings: data.overlay_settings,
+        hotkeys: data.hotkeys,
+        rare_drop_alerts: data.rare_drop_alerts,
+        rare_item_ids: data.rare_item_ids,
         created: data.created,
         updated: data.updated
       };
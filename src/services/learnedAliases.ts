@@ -0,0 +1,53 @@
+import Store from 'electron-store';
+
+// BDO item id -> names the loot detector has read for that item and the user confirmed
+type LearnedAliases = Record<number, string[]>;
+
+const MAX_ALIASES_PER_ITEM = 20;
+
+// Keeps corrections from the detection review queue so the same misread is matched next time
+class LearnedAliasService {
+  // Keyed by BDO item id so an alias carries over between regions
+  private readonly ALIASES_KEY = 'learned_bdo_item_aliases';
+  private store: Store;
+
+  constructor() {
+    this.store = new Store();
+  }
+
+  getAll(): LearnedAliases {
+    try {
+      return (this.store as any).get(this.ALIASES_KEY) || {};
+    } catch (error) {
+      console.error('Error reading learned item aliases:', error);
+      return {};
+    }
+  }
+
+  get(bdoItemId: number): string[] {
+    return this.getAll()[bdoItemId] || [];
+  }
+
+  /**
+   * Remember an alias for an item; returns false when it was already known
+   * The oldest aliases are dropped once an item has too many.
+   */
+  add(bdoItemId: number, alias: string): boolean {
+    const trimmed = alias.trim();
+    if (!trimmed) return false;
+
+    const aliases = this.getAll();
+    const existing = aliases[bdoItemId] || [];
+    if (existing.some(known => known.toLowerCase() === trimmed.toLowerCase())) {
+      return false;
+    }
+
+    aliases[bdoItemId] = [...existing, trimmed].slice(-MAX_ALIASES_PER_ITEM);
+    (this.store as any).set(this.ALIASES_KEY, aliases);
+    return true;
+  }
+}
+
+const learnedAliasService = new LearnedAliasService();
+
+export { LearnedAliases, LearnedAliasService, learnedAliasService };
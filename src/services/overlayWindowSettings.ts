@@ -0,0 +1,53 @@
+import Store from 'electron-store';
+
+interface OverlayWindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface OverlayWindowSettings {
+  click_through: boolean; // Frameless, transparent and ignores the mouse
+  opacity: number; // 0.2 - 1
+  bounds?: OverlayWindowBounds | null; // Last position and size of the overlay window
+}
+
+const DEFAULT_OVERLAY_WINDOW_SETTINGS: OverlayWindowSettings = {
+  click_through: false,
+  opacity: 1,
+  bounds: null,
+};
+
+export const MIN_OVERLAY_OPACITY = 0.2;
+
+// Remembers how the streaming overlay window was last shown, per machine
+class OverlayWindowSettingsService {
+  private readonly SETTINGS_KEY = 'streaming_overlay_window';
+  private store: Store;
+
+  constructor() {
+    this.store = new Store();
+  }
+
+  get(): OverlayWindowSettings {
+    try {
+      const saved = (this.store as any).get(this.SETTINGS_KEY);
+      return { ...DEFAULT_OVERLAY_WINDOW_SETTINGS, ...(saved || {}) };
+    } catch (error) {
+      console.error('Error reading overlay window settings:', error);
+      return DEFAULT_OVERLAY_WINDOW_SETTINGS;
+    }
+  }
+
+  update(changes: Partial<OverlayWindowSettings>): OverlayWindowSettings {
+    const settings = { ...this.get(), ...changes };
+    settings.opacity = Math.min(1, Math.max(MIN_OVERLAY_OPACITY, settings.opacity));
+    (this.store as any).set(this.SETTINGS_KEY, settings);
+    return settings;
+  }
+}
+
+const overlayWindowSettingsService = new OverlayWindowSettingsService();
+
+export { OverlayWindowBounds, OverlayWindowSettings, OverlayWindowSettingsService, overlayWindowSettingsService };
@@ -0,0 +1,51 @@
+import Store from 'electron-store';
+import { Location, LootEvent, PausedInterval, PriceSnapshot, TaxCalculations } from './db/types';
+
+interface SessionCheckpoint {
+  user_id: string;
+  location: Location;
+  start_time: string;
+  item_counts: Record<number, number>;
+  tax_calculations: TaxCalculations;
+  paused_intervals: PausedInterval[];
+  loot_events?: LootEvent[];
+  paused_at?: string | null;
+  price_snapshot?: PriceSnapshot | null;
+  saved_at: string;
+}
+
+// Keeps the in-progress grind session on disk so it survives reloads and crashes
+class SessionCheckpointService {
+  private readonly CHECKPOINT_KEY = 'active_session_checkpoint';
+  private store: Store;
+
+  constructor() {
+    this.store = new Store();
+  }
+
+  save(checkpoint: SessionCheckpoint): void {
+    (this.store as any).set(this.CHECKPOINT_KEY, checkpoint);
+  }
+
+  get(userId: string): SessionCheckpoint | null {
+    try {
+      const stored: SessionCheckpoint | undefined = (this.store as any).get(this.CHECKPOINT_KEY);
+      // Only hand a checkpoint back to the user who created it
+      if (!stored || stored.user_id !== userId) {
+        return null;
+      }
+      return stored;
+    } catch (error) {
+      console.error('Error reading session checkpoint:', error);
+      return null;
+    }
+  }
+
+  clear(): void {
+    (this.store as any).delete(this.CHECKPOINT_KEY);
+  }
+}
+
+const sessionCheckpointService = new SessionCheckpointService();
+
+export { SessionCheckpoint, SessionCheckpointService, sessionCheckpointService };
@@ -65,12 +65,21 @@ module.exports = [
             if (fs.existsSync(overlayJsSrc)) {
               fs.copyFileSync(overlayJsSrc, overlayJsDest);
             }
+
+            // Copy overlaySocket.js (browser source transport)
+            const overlaySocketSrc = path.resolve(__dirname, 'src/main/features/streamingOverlay/overlaySocket.js');
+            const overlaySocketDest = path.resolve(__dirname, 'dist/main/overlaySocket.js');
+            if (fs.existsSync(overlaySocketSrc)) {
+              fs.copyFileSync(overlaySocketSrc, overlaySocketDest);
+            }
           });
         }
       }
     ],
     externals: {
-      'sharp': 'commonjs sharp'
+      'sharp': 'commonjs sharp',
+      'tesseract.js': 'commonjs tesseract.js',
+      '@tesseract.js-data/eng': 'commonjs @tesseract.js-data/eng'
     },
     node: {
       __dirname: false,
@@ -0,0 +1,36 @@
+const path = require('path');
+
+// Node-only developer tools, run outside Electron
+module.exports = {
+  mode: 'development',
+  target: 'node',
+  devtool: false,
+  entry: {
+    replayDetection: './src/main/features/lootDetection/replayDetection.ts'
+  },
+  output: {
+    path: path.resolve(__dirname, 'dist/tools'),
+    filename: '[name].js'
+  },
+  resolve: {
+    extensions: ['.ts', '.js']
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        use: 'ts-loader',
+        exclude: /node_modules/
+      }
+    ]
+  },
+  externals: {
+    'sharp': 'commonjs sharp',
+    'tesseract.js': 'commonjs tesseract.js',
+    '@tesseract.js-data/eng': 'commonjs @tesseract.js-data/eng'
+  },
+  node: {
+    __dirname: false,
+    __filename: false
+  }
+};